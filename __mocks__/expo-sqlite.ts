@@ -0,0 +1,62 @@
+import { Database } from 'node-sqlite3-wasm';
+
+// Jest stand-in for expo-sqlite: the async API the app uses, run on a real
+// in-memory SQLite (a WebAssembly build with FTS5) so tests exercise the
+// actual SQL, migrations and triggers. jest.setup.ts gives it a working
+// TextDecoder.
+
+type BindValue = string | number | boolean | null;
+type BindParams = BindValue[] | Record<string, BindValue>;
+
+// expo-sqlite takes parameters as one array or object, or spread
+const bindParams = (params: (BindValue | BindParams)[]): BindParams =>
+  params.length === 1 && typeof params[0] === 'object' && params[0] !== null
+    ? (params[0] as BindParams)
+    : (params as BindValue[]);
+
+// Yield before each statement so concurrent callers interleave the way they
+// do against the native module
+const tick = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+class SQLiteDatabase {
+  constructor(private readonly database: Database) {}
+
+  async execAsync(source: string): Promise<void> {
+    await tick();
+    this.database.exec(source);
+  }
+
+  async runAsync(source: string, ...params: (BindValue | BindParams)[]) {
+    await tick();
+    const result = this.database.run(source, bindParams(params));
+    return { changes: result.changes, lastInsertRowId: Number(result.lastInsertRowid) };
+  }
+
+  async getAllAsync<T>(source: string, ...params: (BindValue | BindParams)[]): Promise<T[]> {
+    await tick();
+    return this.database.all(source, bindParams(params)) as T[];
+  }
+
+  async getFirstAsync<T>(source: string, ...params: (BindValue | BindParams)[]): Promise<T | null> {
+    await tick();
+    return (this.database.get(source, bindParams(params)) as T | null) ?? null;
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    await this.execAsync('BEGIN');
+    try {
+      await task();
+      await this.execAsync('COMMIT');
+    } catch (error) {
+      await this.execAsync('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async closeAsync(): Promise<void> {
+    this.database.close();
+  }
+}
+
+// Every open is a fresh in-memory database, whatever the name
+export const openDatabaseAsync = async (_name: string) => new SQLiteDatabase(new Database(':memory:'));
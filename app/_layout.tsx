@@ -21,6 +21,15 @@ function ThemedStack() {
             <Stack.Screen name="summary" />
             <Stack.Screen name="settings" />
             <Stack.Screen name="backup" />
+            <Stack.Screen name="review" />
+            <Stack.Screen name="notification-log" />
+            <Stack.Screen name="categories" />
+            <Stack.Screen name="accounts" />
+            <Stack.Screen name="budgets" />
+            <Stack.Screen name="exchange-rates" />
+            <Stack.Screen name="subscriptions" />
+            <Stack.Screen name="import" />
+            <Stack.Screen name="reconcile" />
         </Stack>
     );
 }
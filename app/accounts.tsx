@@ -0,0 +1,520 @@
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import {
+    Account,
+    ACCOUNT_TYPE_LABELS,
+    ACCOUNT_TYPES,
+    accountLabel,
+    AccountType,
+    NewAccount,
+} from "../utils/Accounts";
+import { Database } from "../utils/DatabaseManager";
+
+interface DraftAccount {
+    id: number;
+    name: string;
+    type: AccountType;
+    institution: string;
+    lastFour: string;
+    sourcePackage: string;
+}
+
+const EMPTY_ACCOUNT: DraftAccount = {
+    id: 0,
+    name: "",
+    type: "credit",
+    institution: "",
+    lastFour: "",
+    sourcePackage: "",
+};
+
+export default function AccountsScreen() {
+    const { theme } = useTheme();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [modalVisible, setModalVisible] = useState(false);
+    const [draft, setDraft] = useState<DraftAccount>(EMPTY_ACCOUNT);
+
+    useEffect(() => {
+        loadAccounts();
+    }, []);
+
+    const loadAccounts = async () => {
+        try {
+            setAccounts(await Database.getAccounts());
+        } catch (error) {
+            console.log("Error loading accounts:", error);
+            Alert.alert("Error", "Failed to load accounts");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openEditor = (account?: Account) => {
+        setDraft(
+            account
+                ? {
+                      id: account.id,
+                      name: account.name,
+                      type: account.type,
+                      institution: account.institution ?? "",
+                      lastFour: account.last_four ?? "",
+                      sourcePackage: account.source_package ?? "",
+                  }
+                : EMPTY_ACCOUNT
+        );
+        setModalVisible(true);
+    };
+
+    const saveAccount = async () => {
+        const name = draft.name.trim();
+        if (!name) {
+            Alert.alert("Error", "Please enter an account name");
+            return;
+        }
+        const lastFour = draft.lastFour.trim();
+        if (lastFour && !/^\d{4}$/.test(lastFour)) {
+            Alert.alert("Error", "Last four must be exactly four digits");
+            return;
+        }
+
+        const account: NewAccount = {
+            name,
+            type: draft.type,
+            institution: draft.institution.trim() || null,
+            last_four: lastFour || null,
+            source_package: draft.sourcePackage.trim() || null,
+        };
+
+        try {
+            if (draft.id) {
+                await Database.updateAccount(draft.id, account);
+            } else {
+                await Database.addAccount(account);
+            }
+            setModalVisible(false);
+            await loadAccounts();
+        } catch (error) {
+            console.log("Error saving account:", error);
+            Alert.alert("Error", "Failed to save account");
+        }
+    };
+
+    const deleteAccount = (id: number, name: string) => {
+        Alert.alert(
+            "Delete Account",
+            `Delete "${name}"? Its transactions are kept but no longer belong to an account.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.deleteAccount(id);
+                            setModalVisible(false);
+                            await loadAccounts();
+                        } catch (error) {
+                            console.log("Error deleting account:", error);
+                            Alert.alert("Error", "Failed to delete account");
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    if (loading) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading accounts...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <ScrollView
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>
+                    Accounts
+                </Text>
+                <Text
+                    style={[
+                        styles.subtitle,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Captured transactions are assigned by the app they came from
+                    and the last four digits of the card
+                </Text>
+            </View>
+
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                {accounts.length === 0 ? (
+                    <Text
+                        style={[
+                            styles.emptyText,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        No accounts yet
+                    </Text>
+                ) : (
+                    accounts.map((account) => (
+                        <TouchableOpacity
+                            key={account.id}
+                            style={[
+                                styles.row,
+                                { borderBottomColor: theme.colors.border },
+                            ]}
+                            onPress={() => openEditor(account)}
+                        >
+                            <View style={styles.rowInfo}>
+                                <Text
+                                    style={[
+                                        styles.rowText,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    {accountLabel(account)}
+                                </Text>
+                                <Text
+                                    style={[
+                                        styles.rowMeta,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                    numberOfLines={1}
+                                >
+                                    {[
+                                        ACCOUNT_TYPE_LABELS[account.type] ??
+                                            account.type,
+                                        account.institution,
+                                        account.source_package,
+                                    ]
+                                        .filter(Boolean)
+                                        .join(" · ")}
+                                </Text>
+                            </View>
+                        </TouchableOpacity>
+                    ))
+                )}
+                <TouchableOpacity
+                    style={[
+                        styles.addButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={() => openEditor()}
+                >
+                    <Text style={styles.addButtonText}>+ Add Account</Text>
+                </TouchableOpacity>
+            </View>
+
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={modalVisible}
+                onRequestClose={() => setModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {draft.id ? "Edit Account" : "New Account"}
+                        </Text>
+
+                        {(
+                            [
+                                ["name", "Name (e.g., Discover Card)"],
+                                ["institution", "Institution (e.g., Discover)"],
+                                ["lastFour", "Card last four (optional)"],
+                                [
+                                    "sourcePackage",
+                                    "App package (e.g., com.discoverfinancial.mobile)",
+                                ],
+                            ] as const
+                        ).map(([field, placeholder]) => (
+                            <TextInput
+                                key={field}
+                                style={[
+                                    styles.input,
+                                    {
+                                        borderColor: theme.colors.border,
+                                        backgroundColor:
+                                            theme.colors.background,
+                                        color: theme.colors.text,
+                                    },
+                                ]}
+                                placeholder={placeholder}
+                                placeholderTextColor={
+                                    theme.colors.textSecondary
+                                }
+                                value={draft[field]}
+                                onChangeText={(text) =>
+                                    setDraft({ ...draft, [field]: text })
+                                }
+                                autoCapitalize={
+                                    field === "name" || field === "institution"
+                                        ? "words"
+                                        : "none"
+                                }
+                                keyboardType={
+                                    field === "lastFour"
+                                        ? "number-pad"
+                                        : "default"
+                                }
+                                maxLength={field === "lastFour" ? 4 : undefined}
+                            />
+                        ))}
+
+                        <View style={styles.chipRow}>
+                            {ACCOUNT_TYPES.map((type) => (
+                                <TouchableOpacity
+                                    key={type}
+                                    style={[
+                                        styles.chip,
+                                        { borderColor: theme.colors.primary },
+                                        draft.type === type && {
+                                            backgroundColor:
+                                                theme.colors.primary,
+                                        },
+                                    ]}
+                                    onPress={() => setDraft({ ...draft, type })}
+                                >
+                                    <Text
+                                        style={[
+                                            styles.chipText,
+                                            {
+                                                color:
+                                                    draft.type === type
+                                                        ? "#ffffff"
+                                                        : theme.colors.text,
+                                            },
+                                        ]}
+                                    >
+                                        {ACCOUNT_TYPE_LABELS[type]}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <View style={styles.modalButtons}>
+                            {draft.id ? (
+                                <TouchableOpacity
+                                    style={[
+                                        styles.modalButton,
+                                        { backgroundColor: theme.colors.error },
+                                    ]}
+                                    onPress={() =>
+                                        deleteAccount(draft.id, draft.name)
+                                    }
+                                >
+                                    <Text style={styles.modalButtonText}>
+                                        Delete
+                                    </Text>
+                                </TouchableOpacity>
+                            ) : null}
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelButton,
+                                ]}
+                                onPress={() => setModalVisible(false)}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    { backgroundColor: theme.colors.primary },
+                                ]}
+                                onPress={saveAccount}
+                            >
+                                <Text style={styles.modalButtonText}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    section: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+    rowInfo: {
+        flex: 1,
+    },
+    rowText: {
+        fontSize: 16,
+        color: "#2c3e50",
+    },
+    rowMeta: {
+        fontSize: 12,
+        color: "#7f8c8d",
+        marginTop: 2,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        fontStyle: "italic",
+        paddingVertical: 8,
+    },
+    addButton: {
+        backgroundColor: "#3498db",
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: "center",
+        marginTop: 12,
+    },
+    addButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+        marginBottom: 16,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderWidth: 1,
+        borderRadius: 16,
+        marginRight: 8,
+        marginBottom: 8,
+    },
+    chipText: {
+        fontSize: 14,
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    modalContent: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 20,
+        width: "90%",
+        maxWidth: 400,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 20,
+        textAlign: "center",
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        fontSize: 16,
+        marginBottom: 16,
+    },
+    modalButtons: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+    },
+    modalButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    cancelButton: {
+        backgroundColor: "#95a5a6",
+    },
+    modalButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
@@ -24,11 +24,15 @@ import {
     exportBackup,
     formatBackupDate,
     formatFileSize,
+    formatRestoreReport,
     getAvailableBackups,
     getBackupStats,
     importBackup,
+    RestoreError,
     restoreFromBackup,
 } from "../utils/DatabaseBackup";
+import { formatMoney } from "../utils/Money";
+import { getSettings } from "../utils/SettingsService";
 
 interface BackupInfo {
     id: string;
@@ -62,6 +66,7 @@ export default function BackupScreen() {
         time: "02:00",
         lastBackup: null,
     });
+    const [homeCurrency, setHomeCurrency] = useState("USD");
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [backgroundFetchAvailable, setBackgroundFetchAvailable] =
@@ -81,6 +86,7 @@ export default function BackupScreen() {
             ]);
             setBackups(backupsData);
             setStats(statsData);
+            setHomeCurrency((await getSettings()).currency);
         } catch (error) {
             console.log("Error loading backups:", error);
             Alert.alert("Error", "Failed to load backups");
@@ -242,11 +248,12 @@ export default function BackupScreen() {
             "Restore Backup",
             `Are you sure you want to restore this backup?\n\nRecords: ${
                 backup.recordCount
-            }\nTotal Amount: $${backup.totalAmount.toFixed(
-                2
+            }\nTotal Amount: ${formatMoney(
+                backup.totalAmount,
+                homeCurrency
             )}\nDate: ${formatBackupDate(
                 backup.timestamp
-            )}\n\nThis will replace all current data!`,
+            )}\n\nThis will replace all current data! A backup of it is taken first.`,
             [
                 { text: "Cancel", style: "cancel" },
                 {
@@ -255,10 +262,12 @@ export default function BackupScreen() {
                     onPress: async () => {
                         try {
                             setLoading(true);
-                            await restoreFromBackup(backup.id);
+                            const report = await restoreFromBackup(backup.id);
                             Alert.alert(
-                                "Success",
-                                "Backup restored successfully! The app will refresh to show the restored data."
+                                "Backup Restored",
+                                `${formatRestoreReport(
+                                    report
+                                )}\n\nThe app will refresh to show the restored data.`
                             );
                             await loadBackups();
                             // Force a refresh of the main screen data
@@ -269,14 +278,22 @@ export default function BackupScreen() {
                             }, 1000);
                         } catch (error) {
                             console.log("Error restoring backup:", error);
+                            if (error instanceof RestoreError) {
+                                // Rolled back; the safety backup is new
+                                await loadBackups();
+                                Alert.alert(
+                                    "Restore Rolled Back",
+                                    `${error.message}\n\n${formatRestoreReport(
+                                        error.report
+                                    )}`
+                                );
+                                return;
+                            }
                             const errorMessage =
                                 error instanceof Error
                                     ? error.message
                                     : "Unknown error occurred";
-                            Alert.alert(
-                                "Error",
-                                `Failed to restore backup: ${errorMessage}`
-                            );
+                            Alert.alert("Error", errorMessage);
                         } finally {
                             setLoading(false);
                         }
@@ -377,7 +394,9 @@ export default function BackupScreen() {
                                     );
                                     Alert.alert(
                                         "Error",
-                                        "Failed to import backup. File may be corrupted."
+                                        error instanceof Error
+                                            ? error.message
+                                            : "Failed to import backup. File may be corrupted."
                                     );
                                 } finally {
                                     setLoading(false);
@@ -831,8 +850,11 @@ export default function BackupScreen() {
                                     ]}
                                 >
                                     {backup.recordCount} records •{" "}
-                                    {formatFileSize(backup.size)} • $
-                                    {backup.totalAmount.toFixed(2)}
+                                    {formatFileSize(backup.size)} •{" "}
+                                    {formatMoney(
+                                        backup.totalAmount,
+                                        homeCurrency
+                                    )}
                                 </Text>
                             </View>
 
@@ -0,0 +1,437 @@
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { BudgetBars } from "../components/BudgetBars";
+import { useTheme } from "../contexts/ThemeContext";
+import {
+    Budget,
+    budgetLimit,
+    BudgetProgress,
+    getBudgetProgress,
+} from "../utils/Budgets";
+import { Category } from "../utils/Categorizer";
+import { Database } from "../utils/DatabaseManager";
+import { formatMoney, parseAmount } from "../utils/Money";
+import { getSettings } from "../utils/SettingsService";
+
+export default function BudgetsScreen() {
+    const { theme } = useTheme();
+    const [budgets, setBudgets] = useState<Budget[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [progress, setProgress] = useState<BudgetProgress[]>([]);
+    const [homeCurrency, setHomeCurrency] = useState("USD");
+    const [loading, setLoading] = useState(true);
+    // The budget being edited and the limit typed so far
+    const [editing, setEditing] = useState<{
+        categoryId: number | null;
+        label: string;
+    } | null>(null);
+    const [limitText, setLimitText] = useState("");
+
+    useEffect(() => {
+        loadBudgets();
+    }, []);
+
+    const loadBudgets = async () => {
+        try {
+            setBudgets(await Database.getBudgets());
+            setCategories(await Database.getCategories());
+            setProgress(await getBudgetProgress());
+            setHomeCurrency((await getSettings()).currency);
+        } catch (error) {
+            console.log("Error loading budgets:", error);
+            Alert.alert("Error", "Failed to load budgets");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const findBudget = (categoryId: number | null) =>
+        budgets.find((b) => b.category_id === categoryId);
+
+    const editLimit = (categoryId: number | null, label: string) => {
+        const budget = findBudget(categoryId);
+        setLimitText(budget ? budgetLimit(budget).toString() : "");
+        setEditing({ categoryId, label });
+    };
+
+    // An empty or zero limit removes the budget
+    const saveLimit = async () => {
+        if (!editing) {
+            return;
+        }
+        const budget = findBudget(editing.categoryId);
+        const limit = parseAmount(limitText);
+        try {
+            if (isNaN(limit) || limit <= 0) {
+                if (budget) {
+                    await Database.deleteBudget(budget.id);
+                }
+            } else {
+                await Database.setBudget(
+                    editing.categoryId,
+                    limit,
+                    homeCurrency,
+                    !!budget?.rollover
+                );
+            }
+            setEditing(null);
+            await loadBudgets();
+        } catch (error) {
+            console.log("Error saving budget:", error);
+            Alert.alert("Error", "Failed to save budget");
+        }
+    };
+
+    const toggleRollover = async (budget: Budget, rollover: boolean) => {
+        try {
+            await Database.setBudget(
+                budget.category_id,
+                budgetLimit(budget),
+                homeCurrency,
+                rollover
+            );
+            await loadBudgets();
+        } catch (error) {
+            console.log("Error saving budget:", error);
+            Alert.alert("Error", "Failed to update budget");
+        }
+    };
+
+    const renderBudgetRow = (
+        key: string,
+        categoryId: number | null,
+        label: string
+    ) => {
+        const budget = findBudget(categoryId);
+        return (
+            <View
+                key={key}
+                style={[styles.row, { borderBottomColor: theme.colors.border }]}
+            >
+                <TouchableOpacity
+                    style={styles.rowMain}
+                    onPress={() => editLimit(categoryId, label)}
+                >
+                    <Text
+                        style={[styles.rowLabel, { color: theme.colors.text }]}
+                    >
+                        {label}
+                    </Text>
+                    <Text
+                        style={[
+                            styles.rowValue,
+                            {
+                                color: budget
+                                    ? theme.colors.primary
+                                    : theme.colors.textSecondary,
+                            },
+                        ]}
+                    >
+                        {budget
+                            ? formatMoney(budgetLimit(budget), homeCurrency)
+                            : "No limit"}
+                    </Text>
+                </TouchableOpacity>
+                {budget ? (
+                    <View style={styles.rollover}>
+                        <Text
+                            style={[
+                                styles.rolloverLabel,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            Roll over
+                        </Text>
+                        <Switch
+                            value={!!budget.rollover}
+                            onValueChange={(value) =>
+                                toggleRollover(budget, value)
+                            }
+                            trackColor={{
+                                false: theme.colors.border,
+                                true: theme.colors.primary,
+                            }}
+                            thumbColor={
+                                budget.rollover
+                                    ? theme.colors.surface
+                                    : "#f4f3f4"
+                            }
+                        />
+                    </View>
+                ) : null}
+            </View>
+        );
+    };
+
+    if (loading) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading budgets...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <ScrollView
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>
+                    Budgets
+                </Text>
+                <Text
+                    style={[
+                        styles.subtitle,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    You&apos;ll get a notification at 80% and 100% of each
+                    limit. Rollover carries last month&apos;s unspent amount
+                    into this month.
+                </Text>
+            </View>
+
+            <BudgetBars
+                progress={progress}
+                categories={categories}
+                currency={homeCurrency}
+            />
+
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                {renderBudgetRow("overall", null, "Overall")}
+                {categories.map((category) =>
+                    renderBudgetRow(
+                        category.id.toString(),
+                        category.id,
+                        `${category.icon} ${category.name}`
+                    )
+                )}
+            </View>
+
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={editing !== null}
+                onRequestClose={() => setEditing(null)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {editing?.label} Budget
+                        </Text>
+                        <Text
+                            style={[
+                                styles.modalDescription,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            Monthly limit in {homeCurrency} (leave empty to
+                            remove)
+                        </Text>
+
+                        <TextInput
+                            style={[
+                                styles.modalInput,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="No limit"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={limitText}
+                            onChangeText={setLimitText}
+                            keyboardType="decimal-pad"
+                            autoFocus
+                        />
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelModalButton,
+                                ]}
+                                onPress={() => setEditing(null)}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    { backgroundColor: theme.colors.primary },
+                                ]}
+                                onPress={saveLimit}
+                            >
+                                <Text style={styles.modalButtonText}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    section: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        marginBottom: 16,
+    },
+    row: {
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+    rowMain: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+    },
+    rowLabel: {
+        fontSize: 16,
+        color: "#2c3e50",
+    },
+    rowValue: {
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    rollover: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginTop: 6,
+    },
+    rolloverLabel: {
+        fontSize: 14,
+        color: "#7f8c8d",
+    },
+    modalOverlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+    },
+    modalContent: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 20,
+        width: "90%",
+        maxWidth: 400,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        textAlign: "center",
+        marginBottom: 12,
+    },
+    modalDescription: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        textAlign: "center",
+        marginBottom: 20,
+        lineHeight: 20,
+    },
+    modalInput: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        fontSize: 16,
+        backgroundColor: "#f8f9fa",
+        marginBottom: 20,
+    },
+    modalButtons: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+    },
+    modalButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 5,
+    },
+    cancelModalButton: {
+        backgroundColor: "#95a5a6",
+    },
+    modalButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
@@ -0,0 +1,646 @@
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { CategoryPicker } from "../components/CategoryPicker";
+import { useTheme } from "../contexts/ThemeContext";
+import { Category, CategoryRule } from "../utils/Categorizer";
+import { Database } from "../utils/DatabaseManager";
+
+const EMPTY_CATEGORY = { id: 0, name: "", color: "#3498db", icon: "🏷️" };
+
+export default function CategoriesScreen() {
+    const { theme } = useTheme();
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [rules, setRules] = useState<CategoryRule[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [categoryModalVisible, setCategoryModalVisible] = useState(false);
+    const [draftCategory, setDraftCategory] =
+        useState<Category>(EMPTY_CATEGORY);
+    const [ruleModalVisible, setRuleModalVisible] = useState(false);
+    const [draftRule, setDraftRule] = useState({
+        pattern: "",
+        categoryId: null as number | null,
+    });
+
+    useEffect(() => {
+        loadCategories();
+    }, []);
+
+    const loadCategories = async () => {
+        try {
+            setCategories(await Database.getCategories());
+            setRules(await Database.getCategoryRules());
+        } catch (error) {
+            console.log("Error loading categories:", error);
+            Alert.alert("Error", "Failed to load categories");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openCategoryEditor = (category?: Category) => {
+        setDraftCategory(category ?? EMPTY_CATEGORY);
+        setCategoryModalVisible(true);
+    };
+
+    const saveCategory = async () => {
+        const name = draftCategory.name.trim();
+        if (!name) {
+            Alert.alert("Error", "Please enter a category name");
+            return;
+        }
+        if (!/^#[0-9a-fA-F]{6}$/.test(draftCategory.color.trim())) {
+            Alert.alert("Error", "Color must be a hex value like #3498db");
+            return;
+        }
+
+        try {
+            if (draftCategory.id) {
+                await Database.updateCategory(
+                    draftCategory.id,
+                    name,
+                    draftCategory.color.trim(),
+                    draftCategory.icon.trim()
+                );
+            } else {
+                await Database.addCategory(
+                    name,
+                    draftCategory.color.trim(),
+                    draftCategory.icon.trim()
+                );
+            }
+            setCategoryModalVisible(false);
+            await loadCategories();
+        } catch (error) {
+            console.log("Error saving category:", error);
+            Alert.alert(
+                "Error",
+                "Failed to save category. Names must be unique."
+            );
+        }
+    };
+
+    const deleteCategory = (category: Category) => {
+        Alert.alert(
+            "Delete Category",
+            `Delete "${category.name}"? Its transactions become uncategorized and its rules are removed.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.deleteCategory(category.id);
+                            setCategoryModalVisible(false);
+                            await loadCategories();
+                        } catch (error) {
+                            console.log("Error deleting category:", error);
+                            Alert.alert("Error", "Failed to delete category");
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const openRuleEditor = () => {
+        setDraftRule({ pattern: "", categoryId: categories[0]?.id ?? null });
+        setRuleModalVisible(true);
+    };
+
+    const saveRule = async () => {
+        if (!draftRule.pattern.trim()) {
+            Alert.alert("Error", "Please enter a keyword");
+            return;
+        }
+        if (draftRule.categoryId === null) {
+            Alert.alert("Error", "Please choose a category");
+            return;
+        }
+
+        try {
+            await Database.addCategoryRule(
+                draftRule.pattern.trim(),
+                draftRule.categoryId
+            );
+            setRuleModalVisible(false);
+            await loadCategories();
+        } catch (error) {
+            console.log("Error saving category rule:", error);
+            Alert.alert("Error", "Failed to save rule");
+        }
+    };
+
+    const deleteRule = (rule: CategoryRule) => {
+        Alert.alert("Delete Rule", `Delete the rule for "${rule.pattern}"?`, [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await Database.deleteCategoryRule(rule.id);
+                        await loadCategories();
+                    } catch (error) {
+                        console.log("Error deleting category rule:", error);
+                        Alert.alert("Error", "Failed to delete rule");
+                    }
+                },
+            },
+        ]);
+    };
+
+    const getCategory = (id: number) => categories.find((c) => c.id === id);
+
+    if (loading) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading categories...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <ScrollView
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>
+                    Categories
+                </Text>
+                <Text
+                    style={[
+                        styles.subtitle,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    New transactions are categorized by the first matching
+                    keyword rule
+                </Text>
+            </View>
+
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                <Text
+                    style={[styles.sectionTitle, { color: theme.colors.text }]}
+                >
+                    Categories
+                </Text>
+                {categories.map((category) => (
+                    <TouchableOpacity
+                        key={category.id}
+                        style={[
+                            styles.row,
+                            { borderBottomColor: theme.colors.border },
+                        ]}
+                        onPress={() => openCategoryEditor(category)}
+                    >
+                        <View
+                            style={[
+                                styles.swatch,
+                                { backgroundColor: category.color },
+                            ]}
+                        />
+                        <Text
+                            style={[
+                                styles.rowText,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {category.icon} {category.name}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                    style={[
+                        styles.addButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={() => openCategoryEditor()}
+                >
+                    <Text style={styles.addButtonText}>+ Add Category</Text>
+                </TouchableOpacity>
+            </View>
+
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                <Text
+                    style={[styles.sectionTitle, { color: theme.colors.text }]}
+                >
+                    Rules
+                </Text>
+                {rules.length === 0 ? (
+                    <Text
+                        style={[
+                            styles.emptyText,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        No rules yet
+                    </Text>
+                ) : (
+                    rules.map((rule) => {
+                        const category = getCategory(rule.category_id);
+                        return (
+                            <TouchableOpacity
+                                key={rule.id}
+                                style={[
+                                    styles.row,
+                                    { borderBottomColor: theme.colors.border },
+                                ]}
+                                onLongPress={() => deleteRule(rule)}
+                            >
+                                <Text
+                                    style={[
+                                        styles.rulePattern,
+                                        { color: theme.colors.text },
+                                    ]}
+                                    numberOfLines={1}
+                                >
+                                    {rule.pattern}
+                                </Text>
+                                <Text
+                                    style={[
+                                        styles.ruleCategory,
+                                        {
+                                            color:
+                                                category?.color ??
+                                                theme.colors.textSecondary,
+                                        },
+                                    ]}
+                                >
+                                    {category
+                                        ? `${category.icon} ${category.name}`
+                                        : "Unknown"}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })
+                )}
+                <Text
+                    style={[styles.hint, { color: theme.colors.textSecondary }]}
+                >
+                    Long press a rule to delete it
+                </Text>
+                <TouchableOpacity
+                    style={[
+                        styles.addButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={openRuleEditor}
+                >
+                    <Text style={styles.addButtonText}>+ Add Rule</Text>
+                </TouchableOpacity>
+            </View>
+
+            {/* Category Editor */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={categoryModalVisible}
+                onRequestClose={() => setCategoryModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {draftCategory.id
+                                ? "Edit Category"
+                                : "New Category"}
+                        </Text>
+
+                        {(["name", "icon", "color"] as const).map((field) => (
+                            <TextInput
+                                key={field}
+                                style={[
+                                    styles.input,
+                                    {
+                                        borderColor: theme.colors.border,
+                                        backgroundColor:
+                                            theme.colors.background,
+                                        color: theme.colors.text,
+                                    },
+                                ]}
+                                placeholder={
+                                    field === "name"
+                                        ? "Name (e.g., Groceries)"
+                                        : field === "icon"
+                                        ? "Icon (emoji)"
+                                        : "Color (e.g., #27ae60)"
+                                }
+                                placeholderTextColor={
+                                    theme.colors.textSecondary
+                                }
+                                value={draftCategory[field]}
+                                onChangeText={(text) =>
+                                    setDraftCategory({
+                                        ...draftCategory,
+                                        [field]: text,
+                                    })
+                                }
+                                autoCapitalize={
+                                    field === "name" ? "words" : "none"
+                                }
+                            />
+                        ))}
+
+                        <View style={styles.modalButtons}>
+                            {draftCategory.id ? (
+                                <TouchableOpacity
+                                    style={[
+                                        styles.modalButton,
+                                        { backgroundColor: theme.colors.error },
+                                    ]}
+                                    onPress={() =>
+                                        deleteCategory(draftCategory)
+                                    }
+                                >
+                                    <Text style={styles.modalButtonText}>
+                                        Delete
+                                    </Text>
+                                </TouchableOpacity>
+                            ) : null}
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelButton,
+                                ]}
+                                onPress={() => setCategoryModalVisible(false)}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    { backgroundColor: theme.colors.primary },
+                                ]}
+                                onPress={saveCategory}
+                            >
+                                <Text style={styles.modalButtonText}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Rule Editor */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={ruleModalVisible}
+                onRequestClose={() => setRuleModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            New Rule
+                        </Text>
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Keyword in merchant text (e.g., costco)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={draftRule.pattern}
+                            onChangeText={(text) =>
+                                setDraftRule({ ...draftRule, pattern: text })
+                            }
+                            autoCapitalize="none"
+                        />
+
+                        <CategoryPicker
+                            categories={categories}
+                            value={draftRule.categoryId}
+                            onChange={(categoryId) =>
+                                setDraftRule({ ...draftRule, categoryId })
+                            }
+                        />
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelButton,
+                                ]}
+                                onPress={() => setRuleModalVisible(false)}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    { backgroundColor: theme.colors.primary },
+                                ]}
+                                onPress={saveRule}
+                            >
+                                <Text style={styles.modalButtonText}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </ScrollView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    section: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 12,
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+    swatch: {
+        width: 14,
+        height: 14,
+        borderRadius: 7,
+        marginRight: 10,
+    },
+    rowText: {
+        fontSize: 16,
+        color: "#2c3e50",
+    },
+    rulePattern: {
+        flex: 1,
+        fontSize: 14,
+        fontFamily: "monospace",
+        color: "#2c3e50",
+        marginRight: 8,
+    },
+    ruleCategory: {
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    emptyText: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        fontStyle: "italic",
+        paddingVertical: 8,
+    },
+    hint: {
+        fontSize: 12,
+        color: "#95a5a6",
+        marginTop: 8,
+    },
+    addButton: {
+        backgroundColor: "#3498db",
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: "center",
+        marginTop: 12,
+    },
+    addButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    modalContent: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 20,
+        width: "90%",
+        maxWidth: 400,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 20,
+        textAlign: "center",
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        fontSize: 16,
+        marginBottom: 16,
+    },
+    modalButtons: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+    },
+    modalButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    cancelButton: {
+        backgroundColor: "#95a5a6",
+    },
+    modalButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
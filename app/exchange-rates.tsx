@@ -0,0 +1,454 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { ExchangeRate, parseExchangeRatesCsv } from "../utils/Currency";
+import { Database } from "../utils/DatabaseManager";
+import { getSettings } from "../utils/SettingsService";
+
+export default function ExchangeRatesScreen() {
+    const { theme } = useTheme();
+    const [rates, setRates] = useState<ExchangeRate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [modalVisible, setModalVisible] = useState(false);
+    const [draft, setDraft] = useState({ currency: "", base: "", rate: "" });
+
+    useEffect(() => {
+        loadRates();
+    }, []);
+
+    const loadRates = async () => {
+        try {
+            setRates(await Database.getExchangeRates());
+        } catch (error) {
+            console.log("Error loading exchange rates:", error);
+            Alert.alert("Error", "Failed to load exchange rates");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openEditor = async (rate?: ExchangeRate) => {
+        const { currency } = await getSettings();
+        setDraft(
+            rate
+                ? {
+                      currency: rate.currency,
+                      base: rate.base,
+                      rate: rate.rate.toString(),
+                  }
+                : { currency: "", base: currency, rate: "" }
+        );
+        setModalVisible(true);
+    };
+
+    const saveRate = async () => {
+        const { rates: parsed, errors } = parseExchangeRatesCsv(
+            `${draft.currency},${draft.base},${draft.rate}`
+        );
+        if (errors.length > 0 || parsed.length === 0) {
+            Alert.alert(
+                "Invalid Rate",
+                "Enter two 3-letter currency codes and a positive rate"
+            );
+            return;
+        }
+
+        try {
+            await Database.saveExchangeRates(parsed);
+            setModalVisible(false);
+            await loadRates();
+        } catch (error) {
+            console.log("Error saving exchange rate:", error);
+            Alert.alert("Error", "Failed to save exchange rate");
+        }
+    };
+
+    const deleteRate = (rate: ExchangeRate) => {
+        Alert.alert(
+            "Delete Rate",
+            `Delete the ${rate.currency} → ${rate.base} rate?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.deleteExchangeRate(
+                                rate.currency,
+                                rate.base
+                            );
+                            await loadRates();
+                        } catch (error) {
+                            console.log("Error deleting exchange rate:", error);
+                            Alert.alert("Error", "Failed to delete rate");
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const importCsv = async () => {
+        try {
+            const result = await DocumentPicker.getDocumentAsync({
+                type: ["text/csv", "text/comma-separated-values", "text/plain"],
+                copyToCacheDirectory: true,
+            });
+            if (result.canceled || !result.assets || !result.assets[0]) {
+                return;
+            }
+
+            const content = await FileSystem.readAsStringAsync(
+                result.assets[0].uri
+            );
+            const { rates: parsed, errors } = parseExchangeRatesCsv(content);
+            if (parsed.length === 0) {
+                Alert.alert(
+                    "Import Failed",
+                    errors.length > 0
+                        ? errors.slice(0, 5).join("\n")
+                        : "No rates found in the file"
+                );
+                return;
+            }
+
+            await Database.saveExchangeRates(parsed);
+            await loadRates();
+            Alert.alert(
+                "Import Complete",
+                `Imported ${parsed.length} rate${
+                    parsed.length === 1 ? "" : "s"
+                }` +
+                    (errors.length > 0
+                        ? `\n\nSkipped ${errors.length} line${
+                              errors.length === 1 ? "" : "s"
+                          }:\n${errors.slice(0, 5).join("\n")}`
+                        : "")
+            );
+        } catch (error) {
+            console.log("Error importing exchange rates:", error);
+            Alert.alert("Error", "Failed to import exchange rates");
+        }
+    };
+
+    if (loading) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading exchange rates...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>
+                    Exchange Rates
+                </Text>
+                <Text
+                    style={[
+                        styles.subtitle,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Used to convert totals to your home currency. CSV files need
+                    one &quot;currency,base,rate&quot; line per rate, e.g.
+                    EUR,USD,1.08
+                </Text>
+            </View>
+
+            <View style={styles.actions}>
+                <TouchableOpacity
+                    style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={() => openEditor()}
+                >
+                    <Text style={styles.actionButtonText}>+ Add Rate</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.colors.success },
+                    ]}
+                    onPress={importCsv}
+                >
+                    <Text style={styles.actionButtonText}>Import CSV</Text>
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView>
+                {rates.length === 0 ? (
+                    <Text
+                        style={[
+                            styles.emptyText,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        No exchange rates yet
+                    </Text>
+                ) : (
+                    rates.map((rate) => (
+                        <TouchableOpacity
+                            key={`${rate.currency}-${rate.base}`}
+                            style={[
+                                styles.rateRow,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                            onPress={() => openEditor(rate)}
+                            onLongPress={() => deleteRate(rate)}
+                        >
+                            <Text
+                                style={[
+                                    styles.rateText,
+                                    { color: theme.colors.text },
+                                ]}
+                            >
+                                1 {rate.currency} = {rate.rate} {rate.base}
+                            </Text>
+                            <Text
+                                style={[
+                                    styles.updatedText,
+                                    { color: theme.colors.textSecondary },
+                                ]}
+                            >
+                                {new Date(rate.updated_at).toLocaleDateString()}
+                            </Text>
+                        </TouchableOpacity>
+                    ))
+                )}
+            </ScrollView>
+
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={modalVisible}
+                onRequestClose={() => setModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            Exchange Rate
+                        </Text>
+
+                        {(
+                            [
+                                ["currency", "Currency (e.g., EUR)"],
+                                ["base", "Base currency (e.g., USD)"],
+                                ["rate", "Units of base per 1 currency"],
+                            ] as const
+                        ).map(([field, placeholder]) => (
+                            <TextInput
+                                key={field}
+                                style={[
+                                    styles.input,
+                                    {
+                                        borderColor: theme.colors.border,
+                                        backgroundColor:
+                                            theme.colors.background,
+                                        color: theme.colors.text,
+                                    },
+                                ]}
+                                placeholder={placeholder}
+                                placeholderTextColor={
+                                    theme.colors.textSecondary
+                                }
+                                value={draft[field]}
+                                onChangeText={(text) =>
+                                    setDraft({ ...draft, [field]: text })
+                                }
+                                autoCapitalize={
+                                    field === "rate" ? "none" : "characters"
+                                }
+                                keyboardType={
+                                    field === "rate" ? "numeric" : "default"
+                                }
+                            />
+                        ))}
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelButton,
+                                ]}
+                                onPress={() => setModalVisible(false)}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    { backgroundColor: theme.colors.primary },
+                                ]}
+                                onPress={saveRate}
+                            >
+                                <Text style={styles.modalButtonText}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    actions: {
+        flexDirection: "row",
+        marginBottom: 12,
+    },
+    actionButton: {
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    actionButtonText: {
+        color: "#ffffff",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    emptyText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+        textAlign: "center",
+        fontStyle: "italic",
+        paddingVertical: 40,
+    },
+    rateRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        backgroundColor: "#ffffff",
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 8,
+    },
+    rateText: {
+        fontSize: 16,
+        color: "#2c3e50",
+    },
+    updatedText: {
+        fontSize: 12,
+        color: "#95a5a6",
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    modalContent: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 20,
+        width: "90%",
+        maxWidth: 400,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 20,
+        textAlign: "center",
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        fontSize: 16,
+        marginBottom: 16,
+    },
+    modalButtons: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+    },
+    modalButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    cancelButton: {
+        backgroundColor: "#95a5a6",
+    },
+    modalButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
@@ -0,0 +1,774 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import { router } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    Alert,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { CurrencyPicker } from "../components/CurrencyPicker";
+import { useTheme } from "../contexts/ThemeContext";
+import { Category } from "../utils/Categorizer";
+import {
+    buildImportRows,
+    ColumnMapping,
+    DATE_FORMATS,
+    DateFormat,
+    guessMapping,
+    ImportField,
+    parseCsv,
+    SIGN_CONVENTION_LABELS,
+    SIGN_CONVENTIONS,
+    SignConvention,
+    toSpendingImportRows,
+} from "../utils/CsvImport";
+import { Database } from "../utils/DatabaseManager";
+import { formatMoney } from "../utils/Money";
+import { getSettings } from "../utils/SettingsService";
+import {
+    detectStatementFormat,
+    parseOfx,
+    parseQif,
+    QIF_DATE_FORMATS,
+    QifDateFormat,
+    StatementFormat,
+    statementPreviewRows,
+} from "../utils/StatementImport";
+
+// How many parsed rows the preview shows
+const PREVIEW_ROWS = 10;
+
+const FIELD_LABELS: Record<ImportField, string> = {
+    amount: "Amount",
+    details: "Details",
+    date: "Date",
+    category: "Category (optional)",
+};
+
+const FIELDS: ImportField[] = ["amount", "details", "date", "category"];
+
+const EMPTY_MAPPING: ColumnMapping = {
+    amount: null,
+    details: null,
+    date: null,
+    category: null,
+};
+
+export default function ImportScreen() {
+    const { theme } = useTheme();
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [table, setTable] = useState<string[][]>([]);
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+    const [dateFormat, setDateFormat] = useState<DateFormat>("YYYY-MM-DD");
+    const [sign, setSign] = useState<SignConvention>("negative-is-spending");
+    // OFX and QIF files skip column mapping; their layout is fixed
+    const [statementFormat, setStatementFormat] =
+        useState<StatementFormat | null>(null);
+    const [statementText, setStatementText] = useState("");
+    const [qifDateFormat, setQifDateFormat] =
+        useState<QifDateFormat>("MM/DD/YYYY");
+    const [currency, setCurrency] = useState("USD");
+    const [skipDuplicates, setSkipDuplicates] = useState(true);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [importing, setImporting] = useState(false);
+
+    useEffect(() => {
+        const loadDefaults = async () => {
+            try {
+                setCurrency((await getSettings()).currency);
+                setCategories(await Database.getCategories());
+            } catch (error) {
+                console.log("Error loading import defaults:", error);
+            }
+        };
+        loadDefaults();
+    }, []);
+
+    const statement = useMemo(
+        () =>
+            statementFormat === "ofx"
+                ? parseOfx(statementText)
+                : statementFormat === "qif"
+                ? parseQif(statementText, qifDateFormat)
+                : null,
+        [statementFormat, statementText, qifDateFormat]
+    );
+
+    const rows = useMemo(
+        () =>
+            statement
+                ? statementPreviewRows(
+                      statement.transactions,
+                      currency,
+                      categories
+                  )
+                : buildImportRows(
+                      table,
+                      { mapping, hasHeader, dateFormat, sign, currency },
+                      categories
+                  ),
+        [
+            statement,
+            table,
+            mapping,
+            hasHeader,
+            dateFormat,
+            sign,
+            currency,
+            categories,
+        ]
+    );
+    const validCount = rows.filter((row) => row.errors.length === 0).length;
+
+    const columns =
+        table.length === 0
+            ? []
+            : table[0].map((name, i) =>
+                  hasHeader && name ? name : `Column ${i + 1}`
+              );
+
+    const pickFile = async () => {
+        try {
+            const result = await DocumentPicker.getDocumentAsync({
+                type: [
+                    "text/csv",
+                    "text/comma-separated-values",
+                    "text/plain",
+                    "application/x-ofx",
+                    "application/vnd.intu.qfx",
+                    "application/qif",
+                    "application/octet-stream",
+                ],
+                copyToCacheDirectory: true,
+            });
+            if (result.canceled || !result.assets || !result.assets[0]) {
+                return;
+            }
+
+            const asset = result.assets[0];
+            const text = await FileSystem.readAsStringAsync(asset.uri);
+            const format = detectStatementFormat(asset.name, text);
+
+            if (format) {
+                const parsed =
+                    format === "ofx" ? parseOfx(text) : parseQif(text);
+                if (parsed.transactions.length === 0) {
+                    Alert.alert(
+                        "Empty File",
+                        "No transactions were found in this statement"
+                    );
+                    return;
+                }
+                if (parsed.currency) {
+                    setCurrency(parsed.currency);
+                }
+                setFileName(asset.name);
+                setStatementFormat(format);
+                setStatementText(text);
+                setTable([]);
+                return;
+            }
+
+            const parsed = parseCsv(text);
+            if (parsed.length === 0) {
+                Alert.alert("Empty File", "No rows were found in this file");
+                return;
+            }
+
+            setFileName(asset.name);
+            setStatementFormat(null);
+            setStatementText("");
+            setTable(parsed);
+            setHasHeader(true);
+            setMapping(guessMapping(parsed[0]));
+        } catch (error) {
+            console.log("Error reading import file:", error);
+            Alert.alert("Error", "Failed to read the file");
+        }
+    };
+
+    const runImport = async () => {
+        try {
+            setImporting(true);
+            const { imported, duplicates, alreadyImported, reconciled } =
+                await Database.importSpending(
+                    toSpendingImportRows(rows, currency),
+                    skipDuplicates
+                );
+            const notes = [
+                `Imported ${imported} transaction${imported === 1 ? "" : "s"}.`,
+            ];
+            if (reconciled > 0) {
+                notes.push(
+                    `${reconciled} matched transaction${
+                        reconciled === 1 ? "" : "s"
+                    } already captured from notifications and ${
+                        reconciled === 1 ? "was" : "were"
+                    } marked reconciled.`
+                );
+            }
+            if (alreadyImported > 0) {
+                notes.push(
+                    `${alreadyImported} had been imported before and ${
+                        alreadyImported === 1 ? "was" : "were"
+                    } skipped.`
+                );
+            }
+            if (duplicates > 0) {
+                notes.push(
+                    skipDuplicates
+                        ? `${duplicates} likely duplicate${
+                              duplicates === 1 ? " was" : "s were"
+                          } skipped.`
+                        : `${duplicates} look${
+                              duplicates === 1 ? "s" : ""
+                          } like duplicate${
+                              duplicates === 1 ? "" : "s"
+                          } and can be reviewed.`
+                );
+            }
+            Alert.alert("Import Complete", notes.join("\n"), [
+                { text: "OK", onPress: () => router.back() },
+            ]);
+        } catch (error) {
+            console.log("Error importing file:", error);
+            Alert.alert(
+                "Import Failed",
+                "Nothing was imported. Please check the file and try again."
+            );
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const handleImport = () => {
+        if (validCount === 0) {
+            Alert.alert("Nothing to Import", "No rows passed validation");
+            return;
+        }
+        const invalidCount = rows.length - validCount;
+        if (invalidCount === 0) {
+            runImport();
+            return;
+        }
+        Alert.alert(
+            "Some Rows Have Errors",
+            `${invalidCount} row${
+                invalidCount === 1 ? "" : "s"
+            } with errors will be skipped. Import the other ${validCount}?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                { text: "Import", onPress: runImport },
+            ]
+        );
+    };
+
+    const renderChips = <T,>(
+        options: { value: T; label: string }[],
+        selected: T,
+        onSelect: (value: T) => void
+    ) => (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipRow}
+        >
+            {options.map((option, index) => {
+                const active = option.value === selected;
+                return (
+                    <TouchableOpacity
+                        key={index}
+                        style={[
+                            styles.chip,
+                            { borderColor: theme.colors.primary },
+                            active && { backgroundColor: theme.colors.primary },
+                        ]}
+                        onPress={() => onSelect(option.value)}
+                    >
+                        <Text
+                            style={[
+                                styles.chipText,
+                                {
+                                    color: active
+                                        ? "#ffffff"
+                                        : theme.colors.text,
+                                },
+                            ]}
+                        >
+                            {option.label}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </ScrollView>
+    );
+
+    const columnOptions = (field: ImportField) => [
+        ...(field === "category" ? [{ value: null, label: "None" }] : []),
+        ...columns.map((label, i) => ({ value: i as number | null, label })),
+    ];
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <ScrollView keyboardShouldPersistTaps="handled">
+                <View style={styles.header}>
+                    <Text style={[styles.title, { color: theme.colors.text }]}>
+                        Import Transactions
+                    </Text>
+                    <Text
+                        style={[
+                            styles.subtitle,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        Bring in a CSV, OFX or QIF export from your bank. Check
+                        the preview, then import everything at once.
+                    </Text>
+                </View>
+
+                <TouchableOpacity
+                    style={[
+                        styles.pickButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={pickFile}
+                >
+                    <Text style={styles.pickButtonText}>
+                        {fileName ? `📄 ${fileName}` : "Choose File"}
+                    </Text>
+                </TouchableOpacity>
+
+                {table.length > 0 || statement ? (
+                    <>
+                        {statement ? null : (
+                            <View
+                                style={[
+                                    styles.section,
+                                    { backgroundColor: theme.colors.surface },
+                                ]}
+                            >
+                                <Text
+                                    style={[
+                                        styles.sectionTitle,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    Columns
+                                </Text>
+                                <View style={styles.switchRow}>
+                                    <Text
+                                        style={[
+                                            styles.label,
+                                            { color: theme.colors.text },
+                                        ]}
+                                    >
+                                        First row is a header
+                                    </Text>
+                                    <Switch
+                                        value={hasHeader}
+                                        onValueChange={setHasHeader}
+                                        trackColor={{
+                                            false: theme.colors.border,
+                                            true: theme.colors.primary,
+                                        }}
+                                        thumbColor={
+                                            hasHeader
+                                                ? theme.colors.surface
+                                                : "#f4f3f4"
+                                        }
+                                    />
+                                </View>
+                                {FIELDS.map((field) => (
+                                    <View key={field}>
+                                        <Text
+                                            style={[
+                                                styles.label,
+                                                {
+                                                    color: theme.colors
+                                                        .textSecondary,
+                                                },
+                                            ]}
+                                        >
+                                            {FIELD_LABELS[field]}
+                                        </Text>
+                                        {renderChips(
+                                            columnOptions(field),
+                                            mapping[field],
+                                            (value) =>
+                                                setMapping({
+                                                    ...mapping,
+                                                    [field]: value,
+                                                })
+                                        )}
+                                    </View>
+                                ))}
+                            </View>
+                        )}
+
+                        <View
+                            style={[
+                                styles.section,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.sectionTitle,
+                                    { color: theme.colors.text },
+                                ]}
+                            >
+                                Format
+                            </Text>
+                            {statement?.format === "ofx" ? null : (
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                >
+                                    Date format
+                                </Text>
+                            )}
+                            {statement?.format === "ofx"
+                                ? null
+                                : statement?.format === "qif"
+                                ? renderChips(
+                                      QIF_DATE_FORMATS.map((format) => ({
+                                          value: format,
+                                          label: format,
+                                      })),
+                                      qifDateFormat,
+                                      setQifDateFormat
+                                  )
+                                : renderChips(
+                                      DATE_FORMATS.map((format) => ({
+                                          value: format,
+                                          label: format,
+                                      })),
+                                      dateFormat,
+                                      setDateFormat
+                                  )}
+                            {statement ? null : (
+                                <>
+                                    <Text
+                                        style={[
+                                            styles.label,
+                                            {
+                                                color: theme.colors
+                                                    .textSecondary,
+                                            },
+                                        ]}
+                                    >
+                                        Amount sign
+                                    </Text>
+                                    {renderChips(
+                                        SIGN_CONVENTIONS.map((convention) => ({
+                                            value: convention,
+                                            label: SIGN_CONVENTION_LABELS[
+                                                convention
+                                            ],
+                                        })),
+                                        sign,
+                                        setSign
+                                    )}
+                                </>
+                            )}
+                            <Text
+                                style={[
+                                    styles.label,
+                                    { color: theme.colors.textSecondary },
+                                ]}
+                            >
+                                Currency
+                            </Text>
+                            <CurrencyPicker
+                                value={currency}
+                                onChange={setCurrency}
+                            />
+                            <View style={styles.switchRow}>
+                                <Text
+                                    style={[
+                                        styles.label,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    Skip likely duplicates
+                                </Text>
+                                <Switch
+                                    value={skipDuplicates}
+                                    onValueChange={setSkipDuplicates}
+                                    trackColor={{
+                                        false: theme.colors.border,
+                                        true: theme.colors.primary,
+                                    }}
+                                    thumbColor={
+                                        skipDuplicates
+                                            ? theme.colors.surface
+                                            : "#f4f3f4"
+                                    }
+                                />
+                            </View>
+                        </View>
+
+                        <View
+                            style={[
+                                styles.section,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.sectionTitle,
+                                    { color: theme.colors.text },
+                                ]}
+                            >
+                                Preview
+                            </Text>
+                            <Text
+                                style={[
+                                    styles.summaryText,
+                                    { color: theme.colors.textSecondary },
+                                ]}
+                            >
+                                {validCount} of {rows.length} rows ready
+                                {rows.length > validCount
+                                    ? `, ${
+                                          rows.length - validCount
+                                      } with errors`
+                                    : ""}
+                            </Text>
+                            {rows.slice(0, PREVIEW_ROWS).map((row) => {
+                                const credit = row.direction === "credit";
+                                return (
+                                    <View
+                                        key={row.line}
+                                        style={[
+                                            styles.previewRow,
+                                            {
+                                                borderBottomColor:
+                                                    theme.colors.border,
+                                            },
+                                        ]}
+                                    >
+                                        <View style={styles.previewMain}>
+                                            <Text
+                                                style={[
+                                                    styles.previewDetails,
+                                                    {
+                                                        color: theme.colors
+                                                            .text,
+                                                    },
+                                                ]}
+                                                numberOfLines={1}
+                                            >
+                                                {row.details || "—"}
+                                            </Text>
+                                            <Text
+                                                style={[
+                                                    styles.previewMeta,
+                                                    {
+                                                        color: theme.colors
+                                                            .textSecondary,
+                                                    },
+                                                ]}
+                                            >
+                                                Line {row.line}
+                                                {row.date
+                                                    ? ` · ${row.date}`
+                                                    : ""}
+                                            </Text>
+                                            {row.errors.map((error) => (
+                                                <Text
+                                                    key={error}
+                                                    style={[
+                                                        styles.previewError,
+                                                        {
+                                                            color: theme.colors
+                                                                .error,
+                                                        },
+                                                    ]}
+                                                >
+                                                    {error}
+                                                </Text>
+                                            ))}
+                                        </View>
+                                        {row.amount !== null ? (
+                                            <Text
+                                                style={[
+                                                    styles.previewAmount,
+                                                    {
+                                                        color: credit
+                                                            ? theme.colors
+                                                                  .success
+                                                            : theme.colors.text,
+                                                    },
+                                                ]}
+                                            >
+                                                {credit ? "+" : ""}
+                                                {formatMoney(
+                                                    row.amount,
+                                                    currency
+                                                )}
+                                            </Text>
+                                        ) : null}
+                                    </View>
+                                );
+                            })}
+                            {rows.length > PREVIEW_ROWS ? (
+                                <Text
+                                    style={[
+                                        styles.previewMeta,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                >
+                                    …and {rows.length - PREVIEW_ROWS} more
+                                </Text>
+                            ) : null}
+                        </View>
+
+                        <TouchableOpacity
+                            style={[
+                                styles.importButton,
+                                { backgroundColor: theme.colors.success },
+                                (importing || validCount === 0) &&
+                                    styles.disabledButton,
+                            ]}
+                            onPress={handleImport}
+                            disabled={importing}
+                        >
+                            <Text style={styles.pickButtonText}>
+                                {importing
+                                    ? "Importing..."
+                                    : `Import ${validCount} Transaction${
+                                          validCount === 1 ? "" : "s"
+                                      }`}
+                            </Text>
+                        </TouchableOpacity>
+                    </>
+                ) : null}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    pickButton: {
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginBottom: 16,
+    },
+    pickButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    section: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 8,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "500",
+        marginBottom: 6,
+    },
+    switchRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginBottom: 12,
+    },
+    chipRow: {
+        marginBottom: 12,
+    },
+    chip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderWidth: 1,
+        borderRadius: 16,
+        marginRight: 8,
+    },
+    chipText: {
+        fontSize: 14,
+        fontWeight: "500",
+    },
+    summaryText: {
+        fontSize: 14,
+        marginBottom: 8,
+    },
+    previewRow: {
+        flexDirection: "row",
+        alignItems: "flex-start",
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+    previewMain: {
+        flex: 1,
+        marginRight: 8,
+    },
+    previewDetails: {
+        fontSize: 15,
+        color: "#2c3e50",
+    },
+    previewMeta: {
+        fontSize: 12,
+        color: "#7f8c8d",
+        marginTop: 2,
+    },
+    previewError: {
+        fontSize: 12,
+        marginTop: 2,
+    },
+    previewAmount: {
+        fontSize: 15,
+        fontWeight: "600",
+    },
+    importButton: {
+        paddingVertical: 14,
+        borderRadius: 8,
+        alignItems: "center",
+        marginBottom: 32,
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+});
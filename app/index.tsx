@@ -1,11 +1,13 @@
-import { Link, router } from "expo-router";
-import React, { useEffect, useState } from "react";
+import { Link, router, useFocusEffect } from "expo-router";
+import * as Sharing from "expo-sharing";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
     Alert,
     AppRegistry,
     Modal,
     RefreshControl,
     ScrollView,
+    SectionList,
     StyleSheet,
     Text,
     TextInput,
@@ -15,17 +17,67 @@ import {
 import RNAndroidNotificationListener, {
     RNAndroidNotificationListenerHeadlessJsName,
 } from "react-native-android-notification-listener";
+import { AccountPicker } from "../components/AccountPicker";
+import { BudgetBars } from "../components/BudgetBars";
+import { CategoryPicker } from "../components/CategoryPicker";
+import { CurrencyPicker } from "../components/CurrencyPicker";
+import { DirectionPicker } from "../components/DirectionPicker";
+import { FilterBuilder } from "../components/FilterBuilder";
+import { SplitEditor } from "../components/SplitEditor";
 import { useTheme } from "../contexts/ThemeContext";
 import { performanceMonitor } from "../utils/PerformanceMonitor";
 
 // Import shared database manager
-import { Database } from "../utils/DatabaseManager";
+import { Account } from "../utils/Accounts";
+import {
+    BudgetProgress,
+    checkBudgetAlerts,
+    getBudgetProgress,
+    setupBudgetAlerts,
+} from "../utils/Budgets";
+import { Category } from "../utils/Categorizer";
+import { ExchangeRate } from "../utils/Currency";
+import { exportSpendingCsv } from "../utils/CsvExport";
+import { parseDateCell } from "../utils/CsvImport";
+import { Database, Spending, SpendingListRow } from "../utils/DatabaseManager";
+import { DataValidator } from "../utils/DataValidator";
+import { SchemaTooNewError } from "../utils/Migrations";
+import { formatMoney } from "../utils/Money";
+import { generateRecurringSpending } from "../utils/Recurring";
+import { findLockedPeriod, LockedPeriod } from "../utils/Reconciliation";
+import { ingestNotification } from "../utils/NotificationIngestion";
+import { getSettings } from "../utils/SettingsService";
+import {
+    highlightParts,
+    isEmptySearch,
+    ParsedSearch,
+    parseSearchQuery,
+} from "../utils/SearchQuery";
+import {
+    EMPTY_FILTER,
+    formatTags,
+    parseTags,
+    SavedView,
+    serializeTags,
+    SpendingFilter,
+} from "../utils/SpendingFilter";
+import {
+    CurrencyNet,
+    groupByDate,
+    netTotalOf,
+    SortField,
+    SortOrder,
+    SpendingCursor,
+    SpendingListQuery,
+} from "../utils/SpendingQuery";
+import { isCredit, TransactionDirection } from "../utils/Spending";
+import {
+    SplitDraft,
+    splitDraftsFrom,
+    SplitLine,
+    validateSplits,
+} from "../utils/Splits";
 
-const ALLOWED_APPS = [
-    "com.discoverfinancial.mobile",
-    "com.mfoundry.mb.android.mb_731",
-    "com.android.chrome",
-];
 // Move permission status check and request into the component
 
 // RNAndroidNotificationListener.requestPermission(); // Optionally move this into useEffect as well
@@ -54,36 +106,7 @@ const headlessNotificationListener = async ({
                 notificationObj.app
             );
 
-            // Test parseNotification
-            const parsedAmount = parseNotification(notificationObj.text);
-            if (
-                parsedAmount !== null &&
-                ALLOWED_APPS.includes(notificationObj.app)
-            ) {
-                console.log("Parsed amount from notification:", parsedAmount);
-
-                // Extract description based on app
-                // For Discover notifications, extract only the capitalized merchant name
-                // For other apps, use the full notification text
-                let description = notificationObj.text;
-                if (notificationObj.app === "com.discoverfinancial.mobile") {
-                    description = extractDiscoverMerchant(notificationObj.text);
-                    console.log("Extracted Discover merchant:", description);
-                }
-
-                try {
-                    await Database.addSpending(
-                        parsedAmount,
-                        description,
-                        new Date().toISOString()
-                    );
-                } catch (dbError) {
-                    console.log(
-                        "Error saving notification to database:",
-                        dbError
-                    );
-                }
-            }
+            await ingestNotification(notificationObj);
         }
     } catch (error) {
         console.log("Error in headless notification listener:", error);
@@ -95,160 +118,70 @@ AppRegistry.registerHeadlessTask(
     () => headlessNotificationListener
 );
 
-// Data validation utilities
-const DataValidator = {
-    validateAmount: (
-        amount: string
-    ): { isValid: boolean; value?: number; error?: string } => {
-        if (!amount || amount.trim() === "") {
-            return { isValid: false, error: "Amount is required" };
-        }
-
-        const numAmount = parseFloat(amount);
-        if (isNaN(numAmount)) {
-            return { isValid: false, error: "Amount must be a valid number" };
-        }
-
-        if (numAmount <= 0) {
-            return { isValid: false, error: "Amount must be greater than 0" };
-        }
-
-        if (numAmount > 999999.99) {
-            return { isValid: false, error: "Amount seems unrealistic" };
-        }
-
-        // Check for reasonable decimal places
-        const decimalPlaces = (amount.split(".")[1] || "").length;
-        if (decimalPlaces > 2) {
-            return {
-                isValid: false,
-                error: "Amount cannot have more than 2 decimal places",
-            };
-        }
-
-        return { isValid: true, value: numAmount };
-    },
-
-    validateDetails: (
-        details: string
-    ): { isValid: boolean; value?: string; error?: string } => {
-        if (!details || details.trim() === "") {
-            return { isValid: false, error: "Details are required" };
-        }
-
-        const sanitized = details.trim();
-        if (sanitized.length > 200) {
-            return {
-                isValid: false,
-                error: "Details cannot exceed 200 characters",
-            };
-        }
-
-        // Basic XSS protection
-        const dangerousChars = /<script|javascript:|on\w+\s*=/i;
-        if (dangerousChars.test(sanitized)) {
-            return { isValid: false, error: "Invalid characters in details" };
-        }
-
-        return { isValid: true, value: sanitized };
-    },
-
-    validateDate: (
-        dateString: string
-    ): { isValid: boolean; value?: string; error?: string } => {
-        if (!dateString || dateString.trim() === "") {
-            return { isValid: false, error: "Date is required" };
-        }
-
-        const date = new Date(dateString);
-        if (isNaN(date.getTime())) {
-            return { isValid: false, error: "Invalid date format" };
-        }
-
-        const now = new Date();
-        const oneYearAgo = new Date(
-            now.getFullYear() - 1,
-            now.getMonth(),
-            now.getDate()
-        );
-        const oneMonthFromNow = new Date(
-            now.getFullYear(),
-            now.getMonth() + 1,
-            now.getDate()
-        );
-
-        if (date < oneYearAgo || date > oneMonthFromNow) {
-            return {
-                isValid: false,
-                error: "Date must be within the last year and not more than a month in the future",
-            };
-        }
-
-        return { isValid: true, value: dateString };
-    },
-};
-
-const parseNotification = (text: string): number | null => {
-    const regex = /(\d+(\.\d{1,2})?)/;
-    const match = text.match(regex);
-    if (match) {
-        return parseFloat(match[0]);
-    }
-    return null;
-};
-
-const extractDiscoverMerchant = (text: string): string => {
-    // Look for capitalized merchant names in Discover notifications
-    // Pattern: "A transaction of $X.XX has been initiated at MERCHANT NAME on date"
-    // We want to extract the capitalized part (MERCHANT NAME)
-
-    console.log("Extracting merchant from Discover notification:", text);
-
-    // First, try to find the pattern with "at" followed by capitalized text
-    const atPattern = /at\s+([A-Z][A-Z\s]+[A-Z])\s+on/i;
-    const atMatch = text.match(atPattern);
-    if (atMatch && atMatch[1]) {
-        const merchant = atMatch[1].trim();
-        console.log("Found merchant with 'at' pattern:", merchant);
-        return merchant;
-    }
-
-    // Fallback: look for any sequence of 2+ consecutive capitalized words
-    const capitalizedPattern = /\b([A-Z][A-Z\s]{2,}[A-Z])\b/;
-    const capitalizedMatch = text.match(capitalizedPattern);
-    if (capitalizedMatch && capitalizedMatch[1]) {
-        const merchant = capitalizedMatch[1].trim();
-        console.log("Found merchant with capitalized pattern:", merchant);
-        return merchant;
-    }
-
-    // If no capitalized merchant found, return the original text
-    console.log(
-        "No capitalized merchant found in Discover notification, using original text"
-    );
-    return text;
-};
-
 export default function MonthlySpendingScreen() {
     const { theme } = useTheme();
-    const [spendingData, setSpendingData] = useState<any[]>([]);
-    const [filteredData, setFilteredData] = useState<any[]>([]);
+    // Pages of the list loaded so far, in list order
+    const [rows, setRows] = useState<SpendingListRow[]>([]);
+    const [nextCursor, setNextCursor] = useState<SpendingCursor | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    // Rows in the loaded pages that couldn't be read and were left out
+    const [malformedCount, setMalformedCount] = useState(0);
+    // Per-currency sums for the filtered list and for everything
+    const [listNets, setListNets] = useState<CurrencyNet[]>([]);
+    const [allNets, setAllNets] = useState<CurrencyNet[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [modalVisible, setModalVisible] = useState(false);
     const [editModalVisible, setEditModalVisible] = useState(false);
-    const [editingItem, setEditingItem] = useState<any>(null);
+    const [editingItem, setEditingItem] = useState<SpendingListRow | null>(
+        null
+    );
+    const [editSplits, setEditSplits] = useState<SplitDraft[]>([]);
+    const [splitEditorVisible, setSplitEditorVisible] = useState(false);
     const [searchQuery, setSearchQuery] = useState("");
-    const [sortBy, setSortBy] = useState<"date" | "amount" | "details">("date");
-    const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+    // Parsed once typing pauses; null when not searching
+    const [search, setSearch] = useState<ParsedSearch | null>(null);
+    const [sortBy, setSortBy] = useState<SortField>("date");
+    const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
+    // Section headers when sorted by date
+    const [groupBy, setGroupBy] = useState<"day" | "month">("day");
     const [newSpending, setNewSpending] = useState({
         amount: "",
         details: "",
         date: new Date().toISOString().split("T")[0],
+        direction: "debit" as TransactionDirection,
+        categoryId: null as number | null,
+        accountId: null as number | null,
+        tags: "",
+        notes: "",
+        currency: "USD",
     });
+    const [homeCurrency, setHomeCurrency] = useState("USD");
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    // null shows every account
+    const [accountFilter, setAccountFilter] = useState<number | null>(null);
+    const [activeFilter, setActiveFilter] =
+        useState<SpendingFilter>(EMPTY_FILTER);
+    const [filterBuilderVisible, setFilterBuilderVisible] = useState(false);
+    const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+    // Saved view the active filter came from, if any
+    const [activeViewId, setActiveViewId] = useState<number | null>(null);
+    const [budgetProgress, setBudgetProgress] = useState<BudgetProgress[]>([]);
     const [permissionStatus, setPermissionStatus] = useState<string | null>(
         null
     );
+    const [pendingCount, setPendingCount] = useState(0);
+    const [lockedPeriods, setLockedPeriods] = useState<LockedPeriod[]>([]);
+    const [exportModalVisible, setExportModalVisible] = useState(false);
+    const [exportCount, setExportCount] = useState<number | null>(null);
+    const [exportOptions, setExportOptions] = useState({
+        useRange: false,
+        from: "",
+        to: "",
+    });
+    const hasFocusedRef = useRef(false);
 
     useEffect(() => {
         const initializeApp = async () => {
@@ -294,6 +227,10 @@ export default function MonthlySpendingScreen() {
                         }
                     };
 
+                    // Budget alerts are local notifications, which need
+                    // their own permission on newer Android versions
+                    setupBudgetAlerts();
+
                     // Run permission check but don't wait for it to complete
                     checkPermission().catch((error) => {
                         console.log("Permission check failed:", error);
@@ -315,10 +252,11 @@ export default function MonthlySpendingScreen() {
                 setLoading(false);
 
                 // Set empty data to allow app to function
-                setSpendingData([]);
-                setFilteredData([]);
+                setRows([]);
 
-                if (
+                if (error instanceof SchemaTooNewError) {
+                    Alert.alert("Update Required", error.message);
+                } else if (
                     error instanceof Error &&
                     error.message === "Initialization timeout"
                 ) {
@@ -353,6 +291,8 @@ export default function MonthlySpendingScreen() {
         try {
             console.log("Starting database initialization...");
             await Database.init();
+            // Subscriptions that came due since the app was last opened
+            await generateRecurringSpending();
             console.log(
                 "Database initialization completed, loading spending data..."
             );
@@ -361,8 +301,7 @@ export default function MonthlySpendingScreen() {
         } catch (error) {
             console.log("Error initializing database:", error);
             // Set empty data instead of throwing error
-            setSpendingData([]);
-            setFilteredData([]);
+            setRows([]);
             setLoading(false);
 
             // Only throw error if it's a critical database issue
@@ -376,72 +315,192 @@ export default function MonthlySpendingScreen() {
         }
     };
 
+    const loadCurrencySettings = async () => {
+        const { currency } = await getSettings();
+        setHomeCurrency(currency);
+        setNewSpending((current) =>
+            current.amount || current.details
+                ? current
+                : { ...current, currency }
+        );
+        setExchangeRates(await Database.getExchangeRates());
+    };
+
     const loadSpendingData = async () => {
         try {
             setLoading(true);
-            const data = await performanceMonitor.monitorDatabaseOperation(
-                () => Database.getAllSpending(),
-                "get_all_spending"
+            await performanceMonitor.monitorDatabaseOperation(
+                () => reloadList(),
+                "get_spending_page"
             );
-            setSpendingData(data as any[]);
-            applyFiltersAndSort(data as any[]);
+            setCategories(await Database.getCategories());
+            setAccounts(await Database.getAccounts());
+            setSavedViews(await Database.getSavedViews());
+            setBudgetProgress(await getBudgetProgress());
+            setPendingCount(await Database.getPendingCount());
+            setLockedPeriods(await Database.getLockedPeriods());
+            await loadCurrencySettings();
         } catch (error) {
             console.log("Error loading spending data:", error);
-            setSpendingData([]); // Set empty array as fallback
-            setFilteredData([]);
+            setRows([]); // Set empty array as fallback
         } finally {
             setLoading(false);
         }
     };
 
-    const applyFiltersAndSort = (data: any[] = spendingData) => {
-        let filtered = [...data];
-
-        // Apply search filter
-        if (searchQuery.trim()) {
-            const query = searchQuery.toLowerCase();
-            filtered = filtered.filter(
-                (item) =>
-                    item.details.toLowerCase().includes(query) ||
-                    item.amount.toString().includes(query) ||
-                    formatDate(item.date).toLowerCase().includes(query)
-            );
-        }
-
-        // Apply sorting
-        filtered.sort((a, b) => {
-            let aValue, bValue;
-
-            switch (sortBy) {
-                case "amount":
-                    aValue = a.amount;
-                    bValue = b.amount;
-                    break;
-                case "details":
-                    aValue = a.details.toLowerCase();
-                    bValue = b.details.toLowerCase();
-                    break;
-                case "date":
-                default:
-                    aValue = new Date(a.date).getTime();
-                    bValue = new Date(b.date).getTime();
-                    break;
+    // Pick up transactions accepted on the review screen (and any newly
+    // captured ones) when returning here, without the loading placeholder
+    useFocusEffect(
+        useCallback(() => {
+            if (!hasFocusedRef.current) {
+                hasFocusedRef.current = true;
+                return;
             }
 
-            if (sortOrder === "asc") {
-                return aValue > bValue ? 1 : -1;
-            } else {
-                return aValue < bValue ? 1 : -1;
-            }
+            const refreshOnFocus = async () => {
+                try {
+                    await reloadList();
+                    setPendingCount(await Database.getPendingCount());
+                    setCategories(await Database.getCategories());
+                    setAccounts(await Database.getAccounts());
+                    setBudgetProgress(await getBudgetProgress());
+                    await loadCurrencySettings();
+                } catch (error) {
+                    console.log("Error refreshing spending data:", error);
+                }
+            };
+            refreshOnFocus();
+        }, [])
+    );
+
+    const currentQuery = (): SpendingListQuery => ({
+        sortBy,
+        sortOrder,
+        accountId: accountFilter,
+        filter: activeFilter,
+        search,
+    });
+    // Loads started from callbacks created on an earlier render (focus,
+    // initialization) still see the current filters through this
+    const queryRef = useRef(currentQuery());
+    queryRef.current = currentQuery();
+    // Bumped on every reload so pages from an older query are dropped
+    const listRequestRef = useRef(0);
+
+    // Sorting, filtering and search all run in SQLite; only the first page
+    // is loaded until the list is scrolled
+    const reloadList = async () => {
+        const query = queryRef.current;
+        const request = ++listRequestRef.current;
+        const page = await Database.getSpendingPage(query);
+        const nets = await Database.getSpendingNets(query);
+        const everything = await Database.getSpendingNets({
+            ...query,
+            accountId: null,
+            filter: EMPTY_FILTER,
+            search: null,
         });
+        if (request !== listRequestRef.current) {
+            return;
+        }
+        setRows(page.rows);
+        setNextCursor(page.nextCursor);
+        setMalformedCount(page.malformed);
+        setListNets(nets);
+        setAllNets(everything);
+    };
 
-        setFilteredData(filtered);
+    const loadMore = async () => {
+        if (!nextCursor || loadingMore) {
+            return;
+        }
+        const request = listRequestRef.current;
+        setLoadingMore(true);
+        try {
+            const page = await Database.getSpendingPage(
+                queryRef.current,
+                nextCursor
+            );
+            if (request === listRequestRef.current) {
+                setRows((current) => [...current, ...page.rows]);
+                setNextCursor(page.nextCursor);
+                setMalformedCount((current) => current + page.malformed);
+            }
+        } finally {
+            setLoadingMore(false);
+        }
     };
 
-    // Update filtered data when search or sort changes
     useEffect(() => {
-        applyFiltersAndSort();
-    }, [searchQuery, sortBy, sortOrder, spendingData]);
+        reloadList();
+    }, [sortBy, sortOrder, accountFilter, activeFilter, search]);
+
+    // Search once typing pauses
+    useEffect(() => {
+        const parsed = parseSearchQuery(searchQuery);
+        if (isEmptySearch(parsed)) {
+            setSearch(null);
+            return;
+        }
+        const timer = setTimeout(() => setSearch(parsed), 250);
+        return () => clearTimeout(timer);
+    }, [searchQuery]);
+
+    const applyFilter = (filter: SpendingFilter) => {
+        setActiveFilter(filter);
+        setActiveViewId(null);
+        setFilterBuilderVisible(false);
+    };
+
+    const saveView = async (name: string, filter: SpendingFilter) => {
+        try {
+            await Database.saveView(name, filter);
+            const views = await Database.getSavedViews();
+            setSavedViews(views);
+            setActiveFilter(filter);
+            setActiveViewId(
+                views.find((view) => view.name === name)?.id ?? null
+            );
+            setFilterBuilderVisible(false);
+        } catch (error) {
+            console.log("Error saving view:", error);
+            Alert.alert("Error", "Failed to save view");
+        }
+    };
+
+    // Tapping the active view again clears it
+    const selectView = (view: SavedView) => {
+        if (view.id === activeViewId) {
+            setActiveFilter(EMPTY_FILTER);
+            setActiveViewId(null);
+        } else {
+            setActiveFilter(view.filter);
+            setActiveViewId(view.id);
+        }
+    };
+
+    const deleteView = (view: SavedView) => {
+        Alert.alert("Delete View", `Delete the "${view.name}" view?`, [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await Database.deleteSavedView(view.id);
+                        setSavedViews(await Database.getSavedViews());
+                        if (view.id === activeViewId) {
+                            setActiveFilter(EMPTY_FILTER);
+                            setActiveViewId(null);
+                        }
+                    } catch (error) {
+                        console.log("Error deleting view:", error);
+                        Alert.alert("Error", "Failed to delete view");
+                    }
+                },
+            },
+        ]);
+    };
 
     const onRefresh = async () => {
         setRefreshing(true);
@@ -452,7 +511,8 @@ export default function MonthlySpendingScreen() {
     const addNewSpending = async () => {
         // Validate all fields
         const amountValidation = DataValidator.validateAmount(
-            newSpending.amount
+            newSpending.amount,
+            newSpending.currency
         );
         const detailsValidation = DataValidator.validateDetails(
             newSpending.details
@@ -476,21 +536,39 @@ export default function MonthlySpendingScreen() {
                 amount: amountValidation.value,
                 details: detailsValidation.value,
                 date: dateValidation.value,
+                direction: newSpending.direction,
+                categoryId: newSpending.categoryId,
             });
 
+            // Without a chosen category the rules pick one from the details
             await Database.addSpending(
                 amountValidation.value!,
                 detailsValidation.value!,
-                dateValidation.value!
+                dateValidation.value!,
+                {
+                    direction: newSpending.direction,
+                    categoryId: newSpending.categoryId ?? undefined,
+                    currency: newSpending.currency,
+                    accountId: newSpending.accountId,
+                    tags: serializeTags(parseTags(newSpending.tags)),
+                    notes: newSpending.notes.trim() || null,
+                }
             );
 
             console.log("Successfully added spending");
+            await checkBudgetAlerts();
 
             setModalVisible(false);
             setNewSpending({
                 amount: "",
                 details: "",
                 date: new Date().toISOString().split("T")[0],
+                direction: "debit",
+                categoryId: null,
+                accountId: null,
+                tags: "",
+                notes: "",
+                currency: homeCurrency,
             });
 
             await loadSpendingData(); // Refresh the data
@@ -507,12 +585,19 @@ export default function MonthlySpendingScreen() {
         }
     };
 
-    const editSpending = (item: any) => {
+    const editSpending = async (item: SpendingListRow) => {
         setEditingItem(item);
+        setEditSplits(splitDraftsFrom(await Database.getSplits(item.id)));
         setNewSpending({
             amount: item.amount.toString(),
             details: item.details,
             date: item.date.split("T")[0],
+            direction: item.direction ?? "debit",
+            categoryId: item.category_id ?? null,
+            accountId: item.account_id ?? null,
+            tags: parseTags(item.tags).join(", "),
+            notes: item.notes ?? "",
+            currency: item.currency || homeCurrency,
         });
         setEditModalVisible(true);
     };
@@ -522,12 +607,17 @@ export default function MonthlySpendingScreen() {
 
         // Validate all fields
         const amountValidation = DataValidator.validateAmount(
-            newSpending.amount
+            newSpending.amount,
+            newSpending.currency
         );
         const detailsValidation = DataValidator.validateDetails(
             newSpending.details
         );
-        const dateValidation = DataValidator.validateDate(newSpending.date);
+        // Imported rows can be older than a year
+        const dateValidation = DataValidator.validateEditedDate(
+            newSpending.date,
+            editingItem.date
+        );
 
         const validationErrors = [
             amountValidation.error,
@@ -535,25 +625,99 @@ export default function MonthlySpendingScreen() {
             dateValidation.error,
         ].filter(Boolean);
 
+        // Split lines have to follow the amount and currency
+        const splitValidation =
+            editSplits.length > 0 && amountValidation.value
+                ? validateSplits(
+                      editSplits,
+                      amountValidation.value,
+                      newSpending.currency
+                  )
+                : { lines: [] };
+        if (splitValidation.error) {
+            validationErrors.push(`Split: ${splitValidation.error}`);
+        }
+
         if (validationErrors.length > 0) {
             Alert.alert("Validation Error", validationErrors.join("\n"));
             return;
         }
 
+        // Moving a row into or out of a reconciled period changes it too
+        const period = findLockedPeriod(
+            [editingItem.date, dateValidation.value!],
+            lockedPeriods
+        );
+        if (period) {
+            Alert.alert(
+                "Reconciled Period",
+                `This change touches ${period.start_date} – ${period.end_date}, which was reconciled and locked. Save it anyway?`,
+                [
+                    { text: "Cancel", style: "cancel" },
+                    {
+                        text: "Save",
+                        style: "destructive",
+                        onPress: () =>
+                            saveSpendingEdit(
+                                amountValidation.value!,
+                                detailsValidation.value!,
+                                dateValidation.value!,
+                                splitValidation.lines ?? []
+                            ),
+                    },
+                ]
+            );
+            return;
+        }
+
+        await saveSpendingEdit(
+            amountValidation.value!,
+            detailsValidation.value!,
+            dateValidation.value!,
+            splitValidation.lines ?? []
+        );
+    };
+
+    const saveSpendingEdit = async (
+        amount: number,
+        details: string,
+        date: string,
+        splitLines: SplitLine[]
+    ) => {
+        if (!editingItem) return;
+
         try {
             await Database.updateSpending(
                 editingItem.id,
-                amountValidation.value!,
-                detailsValidation.value!,
-                dateValidation.value!
+                amount,
+                details,
+                date,
+                newSpending.direction,
+                newSpending.categoryId,
+                newSpending.currency,
+                newSpending.accountId,
+                serializeTags(parseTags(newSpending.tags)),
+                newSpending.notes.trim() || null
+            );
+            await Database.saveSplits(
+                editingItem.id,
+                splitLines,
+                newSpending.currency
             );
 
             setEditModalVisible(false);
             setEditingItem(null);
+            setEditSplits([]);
             setNewSpending({
                 amount: "",
                 details: "",
                 date: new Date().toISOString().split("T")[0],
+                direction: "debit",
+                categoryId: null,
+                accountId: null,
+                tags: "",
+                notes: "",
+                currency: homeCurrency,
             });
 
             await loadSpendingData();
@@ -562,10 +726,81 @@ export default function MonthlySpendingScreen() {
         }
     };
 
-    const deleteSpending = async (id: number) => {
+    const openSplitEditor = () => {
+        const { value } = DataValidator.validateAmount(
+            newSpending.amount,
+            newSpending.currency
+        );
+        if (!value) {
+            Alert.alert(
+                "Enter an Amount",
+                "Set a valid amount before splitting the transaction"
+            );
+            return;
+        }
+        setSplitEditorVisible(true);
+    };
+
+    const getCategoryIcon = (item: SpendingListRow) => {
+        const category = categories.find((c) => c.id === item.category_id);
+        return category ? `${category.icon} ` : "";
+    };
+
+    // The page query joins in the original's amount and date
+    const describeDuplicateOf = (item: SpendingListRow) =>
+        item.duplicate_date && item.duplicate_amount !== null
+            ? `${formatItemAmount({
+                  amount: item.duplicate_amount,
+                  currency: item.duplicate_currency,
+                  direction: item.duplicate_direction,
+              })} on ${formatDate(item.duplicate_date)}`
+            : `#${item.duplicate_of}`;
+
+    const mergeDuplicate = (item: SpendingListRow) => {
+        Alert.alert(
+            "Merge Duplicate",
+            `Remove this ${formatItemAmount(
+                item
+            )} transaction and keep the original?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Merge",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.mergeDuplicate(item.id);
+                            await loadSpendingData();
+                        } catch (error) {
+                            console.log("Error merging duplicate:", error);
+                            Alert.alert(
+                                "Error",
+                                "Failed to merge transactions"
+                            );
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const keepBoth = async (item: SpendingListRow) => {
+        try {
+            await Database.keepBothDuplicates(item.id);
+            await loadSpendingData();
+        } catch (error) {
+            console.log("Error keeping both transactions:", error);
+            Alert.alert("Error", "Failed to update transaction");
+        }
+    };
+
+    const deleteSpending = async (item: SpendingListRow) => {
+        const period = findLockedPeriod([item.date], lockedPeriods);
         Alert.alert(
             "Delete Spending",
-            "Are you sure you want to delete this spending record?",
+            period
+                ? `This transaction is in ${period.start_date} – ${period.end_date}, which was reconciled and locked. Delete it anyway?`
+                : "Are you sure you want to delete this spending record?",
             [
                 { text: "Cancel", style: "cancel" },
                 {
@@ -573,7 +808,7 @@ export default function MonthlySpendingScreen() {
                     style: "destructive",
                     onPress: async () => {
                         try {
-                            await Database.deleteSpending(id);
+                            await Database.deleteSpending(item.id);
                             await loadSpendingData();
                         } catch (error) {
                             Alert.alert("Error", "Failed to delete spending");
@@ -584,6 +819,97 @@ export default function MonthlySpendingScreen() {
         );
     };
 
+    const openExport = () => {
+        const today = new Date().toISOString().split("T")[0];
+        setExportOptions({
+            useRange: false,
+            from: `${today.slice(0, 8)}01`,
+            to: today,
+        });
+        setExportModalVisible(true);
+    };
+
+    // The list as currently searched and sorted, or every transaction in
+    // the chosen range
+    const exportQuery = (): SpendingListQuery =>
+        exportOptions.useRange
+            ? {
+                  sortBy: "date",
+                  sortOrder: "desc",
+                  accountId: null,
+                  filter: {
+                      match: "all",
+                      conditions: [
+                          {
+                              kind: "date",
+                              from: exportOptions.from,
+                              to: exportOptions.to,
+                          },
+                      ],
+                  },
+                  search: null,
+              }
+            : currentQuery();
+
+    // Keep the count in the export dialog up to date; a half-typed range
+    // shows no count
+    useEffect(() => {
+        if (!exportModalVisible) {
+            return;
+        }
+        if (
+            exportOptions.useRange &&
+            [exportOptions.from, exportOptions.to].some(
+                (day) => !parseDateCell(day, "YYYY-MM-DD")
+            )
+        ) {
+            setExportCount(null);
+            return;
+        }
+        Database.getSpendingNets(exportQuery()).then((nets) =>
+            setExportCount(nets.reduce((sum, net) => sum + net.count, 0))
+        );
+    }, [exportModalVisible, exportOptions]);
+
+    const exportCsv = async () => {
+        if (exportOptions.useRange) {
+            for (const day of [exportOptions.from, exportOptions.to]) {
+                const validation = DataValidator.validateDate(day, true);
+                if (!validation.isValid) {
+                    Alert.alert("Invalid Range", validation.error);
+                    return;
+                }
+            }
+        }
+
+        const rows = await Database.getSpendingList(exportQuery());
+        if (rows.length === 0) {
+            Alert.alert("Nothing to Export", "No transactions match");
+            return;
+        }
+
+        try {
+            const fileUri = await exportSpendingCsv(rows, {
+                homeCurrency,
+                rates: exchangeRates,
+                categories,
+            });
+            setExportModalVisible(false);
+            if (await Sharing.isAvailableAsync()) {
+                await Sharing.shareAsync(fileUri, {
+                    mimeType: "text/csv",
+                    UTI: "public.comma-separated-values-text",
+                    dialogTitle: "Export Spending",
+                });
+            } else {
+                Alert.alert("Error", "Sharing is not available on this device");
+            }
+        } catch (error) {
+            console.log("Error exporting spending:", error);
+            Alert.alert("Error", "Failed to export spending");
+        }
+    };
+
     const formatDate = (dateString: string | number | Date) => {
         const date = new Date(dateString);
         return date.toLocaleDateString("en-US", {
@@ -593,18 +919,205 @@ export default function MonthlySpendingScreen() {
         });
     };
 
-    const formatAmount = (amount: number) => {
-        return `$${amount.toFixed(2)}`;
+    const formatAmount = (amount: number, currency: string = homeCurrency) => {
+        return formatMoney(amount, currency);
+    };
+
+    // Credits and refunds are shown with a leading "+" since they reduce
+    // the total rather than add to it. Rows keep their own currency.
+    const formatItemAmount = (
+        item: Pick<Spending, "amount" | "currency"> & {
+            direction: string | null;
+        }
+    ) => {
+        const amount = formatAmount(item.amount, item.currency || homeCurrency);
+        return isCredit(item) ? `+${amount}` : amount;
     };
 
+    // Totals are converted to the home currency
     const calculateTotal = () => {
-        return filteredData.reduce((sum, item) => sum + item.amount, 0);
+        return netTotalOf(listNets, homeCurrency, exchangeRates);
     };
 
     const calculateOriginalTotal = () => {
-        return spendingData.reduce((sum, item) => sum + item.amount, 0);
+        return netTotalOf(allNets, homeCurrency, exchangeRates);
     };
 
+    const totalCount = allNets.reduce((sum, net) => sum + net.count, 0);
+
+    const missingRates = calculateOriginalTotal().unconverted;
+    const isFiltered =
+        searchQuery.trim() !== "" ||
+        accountFilter !== null ||
+        activeFilter.conditions.length > 0;
+
+    const formatSectionTitle = (date: string) =>
+        new Date(date).toLocaleDateString(
+            "en-US",
+            groupBy === "day"
+                ? {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                  }
+                : { month: "long", year: "numeric" }
+        );
+
+    const renderSpendingRow = ({
+        item,
+        index,
+    }: {
+        item: SpendingListRow;
+        index: number;
+    }) => (
+        <>
+            <View
+                style={[
+                    styles.tableRow,
+                    { borderBottomColor: theme.colors.border },
+                    index % 2 === 0
+                        ? {
+                              backgroundColor: theme.colors.surface,
+                          }
+                        : {
+                              backgroundColor: theme.colors.background,
+                          },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.cell,
+                        styles.amountColumn,
+                        styles.amountText,
+                        {
+                            color: isCredit(item)
+                                ? theme.colors.success
+                                : theme.colors.error,
+                        },
+                    ]}
+                >
+                    {formatItemAmount(item)}
+                </Text>
+                <Text
+                    style={[
+                        styles.cell,
+                        styles.detailsColumn,
+                        { color: theme.colors.text },
+                    ]}
+                    numberOfLines={2}
+                >
+                    {getCategoryIcon(item)}
+                    {highlightParts(item.details, search?.highlights ?? []).map(
+                        (part, i) =>
+                            part.highlighted ? (
+                                <Text
+                                    key={i}
+                                    style={[
+                                        styles.searchHighlight,
+                                        {
+                                            backgroundColor:
+                                                theme.colors.warning,
+                                        },
+                                    ]}
+                                >
+                                    {part.text}
+                                </Text>
+                            ) : (
+                                part.text
+                            )
+                    )}
+                    {item.tags ? (
+                        <Text
+                            style={{
+                                color: theme.colors.textSecondary,
+                            }}
+                        >
+                            {" "}
+                            {formatTags(parseTags(item.tags))}
+                        </Text>
+                    ) : null}
+                </Text>
+                <Text
+                    style={[
+                        styles.cell,
+                        styles.dateColumn,
+                        { color: theme.colors.text },
+                    ]}
+                >
+                    {formatDate(item.date)}
+                </Text>
+                <View style={styles.actionColumn}>
+                    <TouchableOpacity
+                        style={[
+                            styles.editButton,
+                            {
+                                backgroundColor: theme.colors.warning,
+                            },
+                        ]}
+                        onPress={() => editSpending(item)}
+                    >
+                        <Text style={styles.editButtonText}>✏️</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[
+                            styles.deleteButton,
+                            {
+                                backgroundColor: theme.colors.error,
+                            },
+                        ]}
+                        onPress={() => deleteSpending(item)}
+                    >
+                        <Text style={styles.deleteButtonText}>🗑️</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+            {item.duplicate_of !== null && item.duplicate_of !== undefined && (
+                <View
+                    style={[
+                        styles.duplicateRow,
+                        {
+                            borderBottomColor: theme.colors.border,
+                        },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.duplicateText,
+                            { color: theme.colors.warning },
+                        ]}
+                    >
+                        Possible duplicate of {describeDuplicateOf(item)}
+                    </Text>
+                    <TouchableOpacity
+                        style={[
+                            styles.duplicateButton,
+                            {
+                                backgroundColor: theme.colors.warning,
+                            },
+                        ]}
+                        onPress={() => mergeDuplicate(item)}
+                    >
+                        <Text style={styles.duplicateButtonText}>Merge</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[
+                            styles.duplicateButton,
+                            {
+                                backgroundColor: theme.colors.secondary,
+                            },
+                        ]}
+                        onPress={() => keepBoth(item)}
+                    >
+                        <Text style={styles.duplicateButtonText}>
+                            Keep Both
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </>
+    );
+
     if (loading) {
         return (
             <View
@@ -676,7 +1189,7 @@ export default function MonthlySpendingScreen() {
                             color: theme.colors.text,
                         },
                     ]}
-                    placeholder="Search spending..."
+                    placeholder='Search (e.g., coffee, "blue bottle", amount>20)'
                     placeholderTextColor={theme.colors.textSecondary}
                     value={searchQuery}
                     onChangeText={setSearchQuery}
@@ -725,6 +1238,22 @@ export default function MonthlySpendingScreen() {
                         </Text>
                     </TouchableOpacity>
 
+                    {sortBy === "date" && (
+                        <TouchableOpacity
+                            style={[
+                                styles.sortOrderButton,
+                                { backgroundColor: theme.colors.secondary },
+                            ]}
+                            onPress={() =>
+                                setGroupBy(groupBy === "day" ? "month" : "day")
+                            }
+                        >
+                            <Text style={styles.filterButtonText}>
+                                {groupBy === "day" ? "Day" : "Month"}
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+
                     <TouchableOpacity
                         style={[
                             styles.sortOrderButton,
@@ -738,9 +1267,96 @@ export default function MonthlySpendingScreen() {
                             {sortOrder === "asc" ? "↑" : "↓"}
                         </Text>
                     </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[
+                            styles.sortOrderButton,
+                            { backgroundColor: theme.colors.secondary },
+                            activeFilter.conditions.length > 0 && {
+                                backgroundColor: theme.colors.primary,
+                            },
+                        ]}
+                        onPress={() => setFilterBuilderVisible(true)}
+                    >
+                        <Text style={styles.filterButtonText}>
+                            Filter
+                            {activeFilter.conditions.length > 0
+                                ? ` (${activeFilter.conditions.length})`
+                                : ""}
+                        </Text>
+                    </TouchableOpacity>
                 </View>
+
+                {savedViews.length > 0 && (
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        style={styles.viewChips}
+                    >
+                        {savedViews.map((view) => (
+                            <TouchableOpacity
+                                key={view.id}
+                                style={[
+                                    styles.viewChip,
+                                    { borderColor: theme.colors.primary },
+                                    view.id === activeViewId && {
+                                        backgroundColor: theme.colors.primary,
+                                    },
+                                ]}
+                                onPress={() => selectView(view)}
+                                onLongPress={() => deleteView(view)}
+                            >
+                                <Text
+                                    style={[
+                                        styles.viewChipText,
+                                        {
+                                            color:
+                                                view.id === activeViewId
+                                                    ? "#ffffff"
+                                                    : theme.colors.text,
+                                        },
+                                    ]}
+                                >
+                                    {view.name}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </ScrollView>
+                )}
+
+                {accounts.length > 0 && (
+                    <AccountPicker
+                        accounts={accounts}
+                        value={accountFilter}
+                        onChange={setAccountFilter}
+                        noneLabel="All Accounts"
+                    />
+                )}
             </View>
 
+            {/* Pending Review Banner */}
+            {pendingCount > 0 && (
+                <TouchableOpacity
+                    style={[
+                        styles.reviewBanner,
+                        { backgroundColor: theme.colors.warning },
+                    ]}
+                    onPress={() => router.push("/review" as any)}
+                >
+                    <Text style={styles.reviewBannerText}>
+                        {pendingCount} captured transaction
+                        {pendingCount === 1 ? "" : "s"} to review ›
+                    </Text>
+                </TouchableOpacity>
+            )}
+
+            <BudgetBars
+                progress={budgetProgress}
+                categories={categories}
+                currency={homeCurrency}
+                onPress={() => router.push("/budgets" as any)}
+            />
+
             {/* Add Spending Button */}
             <TouchableOpacity
                 style={[
@@ -753,18 +1369,11 @@ export default function MonthlySpendingScreen() {
             </TouchableOpacity>
 
             {/* Table Container */}
-            <ScrollView
+            <View
                 style={[
                     styles.tableContainer,
                     { backgroundColor: theme.colors.surface },
                 ]}
-                refreshControl={
-                    <RefreshControl
-                        refreshing={refreshing}
-                        onRefresh={onRefresh}
-                        tintColor={theme.colors.primary}
-                    />
-                }
             >
                 {/* Table Header */}
                 <View
@@ -784,120 +1393,129 @@ export default function MonthlySpendingScreen() {
                     </Text>
                 </View>
 
-                {/* Table Rows */}
-                {filteredData.length === 0 ? (
-                    <View style={styles.emptyContainer}>
-                        <Text
-                            style={[
-                                styles.emptyText,
-                                { color: theme.colors.textSecondary },
-                            ]}
-                        >
-                            {spendingData.length === 0
-                                ? "No spending records found"
-                                : "No results found for your search"}
-                        </Text>
-                        <Text
-                            style={[
-                                styles.emptySubtext,
-                                { color: theme.colors.textSecondary },
-                            ]}
-                        >
-                            {spendingData.length === 0
-                                ? 'Tap "Add Spending" to get started'
-                                : "Try adjusting your search or filters"}
-                        </Text>
-                    </View>
-                ) : (
-                    filteredData.map((item, index) => (
-                        <View
-                            key={item.id}
-                            style={[
-                                styles.tableRow,
-                                { borderBottomColor: theme.colors.border },
-                                index % 2 === 0
-                                    ? { backgroundColor: theme.colors.surface }
-                                    : {
-                                          backgroundColor:
-                                              theme.colors.background,
-                                      },
-                            ]}
-                        >
+                <SectionList
+                    sections={
+                        sortBy === "date"
+                            ? groupByDate(rows, groupBy)
+                            : [{ key: "all", date: "", data: rows }]
+                    }
+                    keyExtractor={(item) => item.id.toString()}
+                    renderItem={renderSpendingRow}
+                    renderSectionHeader={({ section }) =>
+                        sortBy === "date" ? (
+                            <View
+                                style={[
+                                    styles.sectionHeader,
+                                    {
+                                        backgroundColor:
+                                            theme.colors.background,
+                                    },
+                                ]}
+                            >
+                                <Text
+                                    style={[
+                                        styles.sectionHeaderText,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                >
+                                    {formatSectionTitle(section.date)}
+                                </Text>
+                            </View>
+                        ) : null
+                    }
+                    stickySectionHeadersEnabled
+                    onEndReached={loadMore}
+                    onEndReachedThreshold={0.5}
+                    initialNumToRender={20}
+                    maxToRenderPerBatch={20}
+                    windowSize={11}
+                    removeClippedSubviews
+                    refreshControl={
+                        <RefreshControl
+                            refreshing={refreshing}
+                            onRefresh={onRefresh}
+                            tintColor={theme.colors.primary}
+                        />
+                    }
+                    ListHeaderComponent={
+                        malformedCount > 0 ? (
+                            <Text
+                                style={[
+                                    styles.malformedText,
+                                    { color: theme.colors.warning },
+                                ]}
+                            >
+                                {malformedCount === 1
+                                    ? "1 transaction couldn't be read and is hidden"
+                                    : `${malformedCount} transactions couldn't be read and are hidden`}
+                            </Text>
+                        ) : null
+                    }
+                    ListEmptyComponent={
+                        <View style={styles.emptyContainer}>
                             <Text
                                 style={[
-                                    styles.cell,
-                                    styles.amountColumn,
-                                    { color: theme.colors.error },
-                                    styles.amountText,
+                                    styles.emptyText,
+                                    { color: theme.colors.textSecondary },
                                 ]}
                             >
-                                {formatAmount(item.amount)}
+                                {totalCount === 0
+                                    ? "No spending records found"
+                                    : "No results found for your search"}
                             </Text>
                             <Text
                                 style={[
-                                    styles.cell,
-                                    styles.detailsColumn,
-                                    { color: theme.colors.text },
+                                    styles.emptySubtext,
+                                    { color: theme.colors.textSecondary },
                                 ]}
-                                numberOfLines={2}
                             >
-                                {item.details}
+                                {totalCount === 0
+                                    ? 'Tap "Add Spending" to get started'
+                                    : "Try adjusting your search or filters"}
                             </Text>
+                        </View>
+                    }
+                    ListFooterComponent={
+                        loadingMore ? (
                             <Text
                                 style={[
-                                    styles.cell,
-                                    styles.dateColumn,
-                                    { color: theme.colors.text },
+                                    styles.loadingMoreText,
+                                    { color: theme.colors.textSecondary },
                                 ]}
                             >
-                                {formatDate(item.date)}
+                                Loading more...
                             </Text>
-                            <View style={styles.actionColumn}>
-                                <TouchableOpacity
-                                    style={[
-                                        styles.editButton,
-                                        {
-                                            backgroundColor:
-                                                theme.colors.warning,
-                                        },
-                                    ]}
-                                    onPress={() => editSpending(item)}
-                                >
-                                    <Text style={styles.editButtonText}>
-                                        ✏️
-                                    </Text>
-                                </TouchableOpacity>
-                                <TouchableOpacity
-                                    style={[
-                                        styles.deleteButton,
-                                        { backgroundColor: theme.colors.error },
-                                    ]}
-                                    onPress={() => deleteSpending(item.id)}
-                                >
-                                    <Text style={styles.deleteButtonText}>
-                                        🗑️
-                                    </Text>
-                                </TouchableOpacity>
-                            </View>
-                        </View>
-                    ))
-                )}
-            </ScrollView>
+                        ) : null
+                    }
+                />
+            </View>
 
             {/* Summary Section */}
             <View style={styles.summarySection}>
                 <Text style={[styles.totalText, { color: theme.colors.text }]}>
-                    {searchQuery.trim() ? "Filtered Total" : "Total Spent"}:{" "}
-                    {formatAmount(calculateTotal())}
+                    {isFiltered ? "Filtered Net Total" : "Net Spent"}:{" "}
+                    {formatAmount(calculateTotal().total)}
                 </Text>
-                {searchQuery.trim() && (
+                {isFiltered && (
                     <Text
                         style={[
                             styles.originalTotalText,
                             { color: theme.colors.textSecondary },
                         ]}
                     >
-                        Total Spent: {formatAmount(calculateOriginalTotal())}
+                        Net Spent:{" "}
+                        {formatAmount(calculateOriginalTotal().total)}
+                    </Text>
+                )}
+                {missingRates.length > 0 && (
+                    <Text
+                        style={[
+                            styles.originalTotalText,
+                            { color: theme.colors.warning },
+                        ]}
+                    >
+                        No exchange rate for {missingRates.join(", ")}; counted
+                        at face value
                     </Text>
                 )}
 
@@ -913,6 +1531,23 @@ export default function MonthlySpendingScreen() {
                         </Text>
                     </View>
                 </Link>
+
+                <TouchableOpacity
+                    style={[
+                        styles.exportButton,
+                        { borderColor: theme.colors.primary },
+                    ]}
+                    onPress={openExport}
+                >
+                    <Text
+                        style={[
+                            styles.exportButtonText,
+                            { color: theme.colors.primary },
+                        ]}
+                    >
+                        Export CSV
+                    </Text>
+                </TouchableOpacity>
             </View>
 
             {/* Add Spending Modal */}
@@ -956,6 +1591,20 @@ export default function MonthlySpendingScreen() {
                             keyboardType="numeric"
                         />
 
+                        <DirectionPicker
+                            value={newSpending.direction}
+                            onChange={(direction) =>
+                                setNewSpending({ ...newSpending, direction })
+                            }
+                        />
+
+                        <CurrencyPicker
+                            value={newSpending.currency}
+                            onChange={(currency) =>
+                                setNewSpending({ ...newSpending, currency })
+                            }
+                        />
+
                         <TextInput
                             style={[
                                 styles.input,
@@ -977,6 +1626,64 @@ export default function MonthlySpendingScreen() {
                             multiline
                         />
 
+                        <CategoryPicker
+                            categories={categories}
+                            value={newSpending.categoryId}
+                            onChange={(categoryId) =>
+                                setNewSpending({ ...newSpending, categoryId })
+                            }
+                            noneLabel="Auto"
+                        />
+
+                        {accounts.length > 0 && (
+                            <AccountPicker
+                                accounts={accounts}
+                                value={newSpending.accountId}
+                                onChange={(accountId) =>
+                                    setNewSpending({
+                                        ...newSpending,
+                                        accountId,
+                                    })
+                                }
+                            />
+                        )}
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Tags (e.g., travel, work)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={newSpending.tags}
+                            onChangeText={(text) =>
+                                setNewSpending({ ...newSpending, tags: text })
+                            }
+                            autoCapitalize="none"
+                        />
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Notes (optional)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={newSpending.notes}
+                            onChangeText={(text) =>
+                                setNewSpending({ ...newSpending, notes: text })
+                            }
+                            multiline
+                        />
+
                         <TextInput
                             style={[
                                 styles.input,
@@ -1061,6 +1768,20 @@ export default function MonthlySpendingScreen() {
                             keyboardType="numeric"
                         />
 
+                        <DirectionPicker
+                            value={newSpending.direction}
+                            onChange={(direction) =>
+                                setNewSpending({ ...newSpending, direction })
+                            }
+                        />
+
+                        <CurrencyPicker
+                            value={newSpending.currency}
+                            onChange={(currency) =>
+                                setNewSpending({ ...newSpending, currency })
+                            }
+                        />
+
                         <TextInput
                             style={[
                                 styles.input,
@@ -1082,6 +1803,82 @@ export default function MonthlySpendingScreen() {
                             multiline
                         />
 
+                        <CategoryPicker
+                            categories={categories}
+                            value={newSpending.categoryId}
+                            onChange={(categoryId) =>
+                                setNewSpending({ ...newSpending, categoryId })
+                            }
+                        />
+
+                        {accounts.length > 0 && (
+                            <AccountPicker
+                                accounts={accounts}
+                                value={newSpending.accountId}
+                                onChange={(accountId) =>
+                                    setNewSpending({
+                                        ...newSpending,
+                                        accountId,
+                                    })
+                                }
+                            />
+                        )}
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Tags (e.g., travel, work)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={newSpending.tags}
+                            onChangeText={(text) =>
+                                setNewSpending({ ...newSpending, tags: text })
+                            }
+                            autoCapitalize="none"
+                        />
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Notes (optional)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={newSpending.notes}
+                            onChangeText={(text) =>
+                                setNewSpending({ ...newSpending, notes: text })
+                            }
+                            multiline
+                        />
+
+                        <TouchableOpacity
+                            style={[
+                                styles.splitButton,
+                                { borderColor: theme.colors.primary },
+                            ]}
+                            onPress={openSplitEditor}
+                        >
+                            <Text
+                                style={[
+                                    styles.splitButtonText,
+                                    { color: theme.colors.primary },
+                                ]}
+                            >
+                                {editSplits.length > 0
+                                    ? `Split into ${editSplits.length} lines`
+                                    : "Split Across Categories"}
+                            </Text>
+                        </TouchableOpacity>
+
                         <TextInput
                             style={[
                                 styles.input,
@@ -1121,9 +1918,191 @@ export default function MonthlySpendingScreen() {
                                 </Text>
                             </TouchableOpacity>
                         </View>
+
+                        <SplitEditor
+                            visible={splitEditorVisible}
+                            amount={
+                                DataValidator.validateAmount(
+                                    newSpending.amount,
+                                    newSpending.currency
+                                ).value ?? 0
+                            }
+                            currency={newSpending.currency}
+                            categories={categories}
+                            splits={editSplits}
+                            onSave={(splits) => {
+                                setEditSplits(splits);
+                                setSplitEditorVisible(false);
+                            }}
+                            onClose={() => setSplitEditorVisible(false)}
+                        />
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Export Modal */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={exportModalVisible}
+                onRequestClose={() => setExportModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            Export CSV
+                        </Text>
+
+                        <View style={styles.sortControls}>
+                            {[false, true].map((useRange) => {
+                                const selected =
+                                    exportOptions.useRange === useRange;
+                                return (
+                                    <TouchableOpacity
+                                        key={String(useRange)}
+                                        style={[
+                                            styles.sortButton,
+                                            {
+                                                backgroundColor:
+                                                    theme.colors.background,
+                                            },
+                                            selected && {
+                                                backgroundColor:
+                                                    theme.colors.primary,
+                                            },
+                                        ]}
+                                        onPress={() =>
+                                            setExportOptions({
+                                                ...exportOptions,
+                                                useRange,
+                                            })
+                                        }
+                                    >
+                                        <Text
+                                            style={[
+                                                styles.sortButtonText,
+                                                { color: theme.colors.text },
+                                                selected && {
+                                                    color: "#ffffff",
+                                                },
+                                            ]}
+                                        >
+                                            {useRange
+                                                ? "Date Range"
+                                                : "Current List"}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+
+                        {exportOptions.useRange ? (
+                            <>
+                                <TextInput
+                                    style={[
+                                        styles.input,
+                                        {
+                                            borderColor: theme.colors.border,
+                                            backgroundColor:
+                                                theme.colors.background,
+                                            color: theme.colors.text,
+                                        },
+                                    ]}
+                                    placeholder="From (YYYY-MM-DD)"
+                                    placeholderTextColor={
+                                        theme.colors.textSecondary
+                                    }
+                                    value={exportOptions.from}
+                                    onChangeText={(from) =>
+                                        setExportOptions({
+                                            ...exportOptions,
+                                            from,
+                                        })
+                                    }
+                                />
+                                <TextInput
+                                    style={[
+                                        styles.input,
+                                        {
+                                            borderColor: theme.colors.border,
+                                            backgroundColor:
+                                                theme.colors.background,
+                                            color: theme.colors.text,
+                                        },
+                                    ]}
+                                    placeholder="To (YYYY-MM-DD)"
+                                    placeholderTextColor={
+                                        theme.colors.textSecondary
+                                    }
+                                    value={exportOptions.to}
+                                    onChangeText={(to) =>
+                                        setExportOptions({
+                                            ...exportOptions,
+                                            to,
+                                        })
+                                    }
+                                />
+                            </>
+                        ) : null}
+
+                        <Text
+                            style={[
+                                styles.exportCount,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            {exportCount === null
+                                ? "Enter a valid range"
+                                : `${exportCount} transaction${
+                                      exportCount === 1 ? "" : "s"
+                                  }, plus a totals row in ${homeCurrency}`}
+                        </Text>
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelButton,
+                                ]}
+                                onPress={() => setExportModalVisible(false)}
+                            >
+                                <Text style={styles.cancelButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={[styles.modalButton, styles.saveButton]}
+                                onPress={exportCsv}
+                            >
+                                <Text style={styles.saveButtonText}>
+                                    Export
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
                     </View>
                 </View>
             </Modal>
+
+            <FilterBuilder
+                visible={filterBuilderVisible}
+                filter={activeFilter}
+                categories={categories}
+                accounts={accounts}
+                onApply={applyFilter}
+                onSaveView={saveView}
+                onClose={() => setFilterBuilderVisible(false)}
+            />
         </View>
     );
 }
@@ -1171,6 +2150,19 @@ const styles = StyleSheet.create({
         alignItems: "center",
         marginBottom: 16,
     },
+    reviewBanner: {
+        backgroundColor: "#f39c12",
+        paddingVertical: 10,
+        paddingHorizontal: 16,
+        borderRadius: 8,
+        alignItems: "center",
+        marginBottom: 12,
+    },
+    reviewBannerText: {
+        color: "#ffffff",
+        fontSize: 15,
+        fontWeight: "600",
+    },
     addButtonText: {
         color: "#ffffff",
         fontSize: 16,
@@ -1239,6 +2231,12 @@ const styles = StyleSheet.create({
         color: "#95a5a6",
         marginTop: 8,
     },
+    malformedText: {
+        fontSize: 12,
+        fontStyle: "italic",
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+    },
     summarySection: {
         marginTop: 16,
         paddingTop: 16,
@@ -1273,6 +2271,23 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: "600",
     },
+    exportButton: {
+        width: "100%",
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingVertical: 12,
+        alignItems: "center",
+        marginTop: 10,
+    },
+    exportButtonText: {
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    exportCount: {
+        fontSize: 14,
+        textAlign: "center",
+        marginBottom: 6,
+    },
     // Modal styles
     modalOverlay: {
         flex: 1,
@@ -1331,6 +2346,17 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: "600",
     },
+    splitButton: {
+        borderWidth: 1,
+        borderRadius: 8,
+        paddingVertical: 10,
+        alignItems: "center",
+        marginBottom: 16,
+    },
+    splitButtonText: {
+        fontSize: 14,
+        fontWeight: "600",
+    },
     // New styles for search and filter controls
     controlsContainer: {
         marginBottom: 16,
@@ -1382,6 +2408,66 @@ const styles = StyleSheet.create({
         color: "#ffffff",
         fontWeight: "bold",
     },
+    filterButtonText: {
+        fontSize: 14,
+        color: "#ffffff",
+        fontWeight: "600",
+    },
+    viewChips: {
+        marginTop: 10,
+    },
+    viewChip: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderWidth: 1,
+        borderRadius: 16,
+        marginRight: 8,
+    },
+    viewChipText: {
+        fontSize: 14,
+    },
+    sectionHeader: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+    },
+    sectionHeaderText: {
+        fontSize: 13,
+        fontWeight: "600",
+    },
+    loadingMoreText: {
+        textAlign: "center",
+        paddingVertical: 12,
+        fontSize: 14,
+    },
+    searchHighlight: {
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    duplicateRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+    duplicateText: {
+        flex: 1,
+        fontSize: 12,
+        color: "#f39c12",
+        fontStyle: "italic",
+    },
+    duplicateButton: {
+        paddingVertical: 4,
+        paddingHorizontal: 8,
+        borderRadius: 4,
+        marginLeft: 6,
+    },
+    duplicateButtonText: {
+        color: "#ffffff",
+        fontSize: 12,
+        fontWeight: "600",
+    },
     // Action column styles
     actionColumn: {
         flex: 0.8,
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    RefreshControl,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { Database, NotificationLogEntry } from "../utils/DatabaseManager";
+import { replayNotificationLog } from "../utils/NotificationIngestion";
+
+export default function NotificationLogScreen() {
+    const { theme } = useTheme();
+    const [entries, setEntries] = useState<NotificationLogEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    const [replaying, setReplaying] = useState(false);
+
+    useEffect(() => {
+        loadEntries();
+    }, []);
+
+    const loadEntries = async () => {
+        try {
+            setLoading(true);
+            setEntries(await Database.getNotificationLog());
+        } catch (error) {
+            console.log("Error loading notification log:", error);
+            Alert.alert("Error", "Failed to load notification log");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        await loadEntries();
+        setRefreshing(false);
+    };
+
+    const handleReplay = async () => {
+        try {
+            setReplaying(true);
+            const result = await replayNotificationLog();
+            await loadEntries();
+            Alert.alert(
+                "Replay Complete",
+                `Checked: ${result.processed}\nNew transactions: ${result.created}\nAlready recorded: ${result.linkedToExisting}\nStill unmatched: ${result.unmatched}\nIgnored: ${result.skipped}` +
+                    (result.created > 0
+                        ? "\n\nNew transactions are waiting on the review screen."
+                        : "")
+            );
+        } catch (error) {
+            console.log("Error replaying notification log:", error);
+            Alert.alert("Error", "Failed to replay notification log");
+        } finally {
+            setReplaying(false);
+        }
+    };
+
+    const handleClear = () => {
+        Alert.alert(
+            "Clear Log",
+            "Delete all logged notifications? Transactions already created are kept.",
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Clear",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.clearNotificationLog();
+                            await loadEntries();
+                        } catch (error) {
+                            console.log("Error clearing log:", error);
+                            Alert.alert("Error", "Failed to clear log");
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const getStatus = (entry: NotificationLogEntry) => {
+        if (entry.spending_id !== null) {
+            return {
+                label: `Transaction #${entry.spending_id}`,
+                color: theme.colors.success,
+            };
+        }
+        if (entry.parser_id) {
+            return {
+                label: "Parsed, not recorded",
+                color: theme.colors.warning,
+            };
+        }
+        return { label: "No parser matched", color: theme.colors.error };
+    };
+
+    if (loading && !refreshing) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading notification log...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>
+                    Notification Log
+                </Text>
+                <Text
+                    style={[
+                        styles.subtitle,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Every notification received from an allowed app
+                </Text>
+            </View>
+
+            <View style={styles.actions}>
+                <TouchableOpacity
+                    style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.colors.primary },
+                        replaying && styles.disabledButton,
+                    ]}
+                    disabled={replaying}
+                    onPress={handleReplay}
+                >
+                    <Text style={styles.actionButtonText}>
+                        {replaying ? "Replaying..." : "Replay Unrecorded"}
+                    </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[
+                        styles.actionButton,
+                        { backgroundColor: theme.colors.error },
+                    ]}
+                    onPress={handleClear}
+                >
+                    <Text style={styles.actionButtonText}>Clear Log</Text>
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView
+                refreshControl={
+                    <RefreshControl
+                        refreshing={refreshing}
+                        onRefresh={onRefresh}
+                        tintColor={theme.colors.primary}
+                    />
+                }
+            >
+                {entries.length === 0 ? (
+                    <Text
+                        style={[
+                            styles.emptyText,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        No notifications logged yet
+                    </Text>
+                ) : (
+                    entries.map((entry) => {
+                        const status = getStatus(entry);
+                        return (
+                            <View
+                                key={entry.id}
+                                style={[
+                                    styles.entry,
+                                    { backgroundColor: theme.colors.surface },
+                                ]}
+                            >
+                                <View style={styles.entryHeader}>
+                                    <Text
+                                        style={[
+                                            styles.packageText,
+                                            { color: theme.colors.text },
+                                        ]}
+                                        numberOfLines={1}
+                                    >
+                                        {entry.package}
+                                    </Text>
+                                    <Text
+                                        style={[
+                                            styles.timeText,
+                                            {
+                                                color: theme.colors
+                                                    .textSecondary,
+                                            },
+                                        ]}
+                                    >
+                                        {new Date(
+                                            entry.received_at
+                                        ).toLocaleString()}
+                                    </Text>
+                                </View>
+                                {entry.title ? (
+                                    <Text
+                                        style={[
+                                            styles.titleText,
+                                            { color: theme.colors.text },
+                                        ]}
+                                    >
+                                        {entry.title}
+                                    </Text>
+                                ) : null}
+                                <Text
+                                    style={[
+                                        styles.bodyText,
+                                        { color: theme.colors.text },
+                                    ]}
+                                    selectable
+                                >
+                                    {entry.text}
+                                </Text>
+                                <View style={styles.entryFooter}>
+                                    <Text
+                                        style={[
+                                            styles.statusText,
+                                            { color: status.color },
+                                        ]}
+                                    >
+                                        {status.label}
+                                    </Text>
+                                    {entry.parser_id ? (
+                                        <Text
+                                            style={[
+                                                styles.parserText,
+                                                {
+                                                    color: theme.colors
+                                                        .textSecondary,
+                                                },
+                                            ]}
+                                        >
+                                            {entry.parser_id}
+                                        </Text>
+                                    ) : null}
+                                </View>
+                            </View>
+                        );
+                    })
+                )}
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    actions: {
+        flexDirection: "row",
+        marginBottom: 12,
+    },
+    actionButton: {
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    actionButtonText: {
+        color: "#ffffff",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    emptyText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+        textAlign: "center",
+        fontStyle: "italic",
+        paddingVertical: 40,
+    },
+    entry: {
+        backgroundColor: "#ffffff",
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 10,
+    },
+    entryHeader: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        marginBottom: 6,
+    },
+    packageText: {
+        flex: 1,
+        fontSize: 12,
+        fontFamily: "monospace",
+        color: "#2c3e50",
+        marginRight: 8,
+    },
+    timeText: {
+        fontSize: 12,
+        color: "#95a5a6",
+    },
+    titleText: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: "#2c3e50",
+        marginBottom: 2,
+    },
+    bodyText: {
+        fontSize: 14,
+        color: "#2c3e50",
+    },
+    entryFooter: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        marginTop: 8,
+    },
+    statusText: {
+        fontSize: 12,
+        fontWeight: "600",
+    },
+    parserText: {
+        fontSize: 12,
+        fontFamily: "monospace",
+        color: "#95a5a6",
+    },
+});
@@ -0,0 +1,906 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    Alert,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { ExchangeRate } from "../utils/Currency";
+import { rowsInRange } from "../utils/CsvExport";
+import { PreviewRow } from "../utils/CsvImport";
+import { Database } from "../utils/DatabaseManager";
+import { DataValidator } from "../utils/DataValidator";
+import {
+    DEFAULT_DEDUPE_OPTIONS,
+    DedupeOptions,
+} from "../utils/DuplicateDetector";
+import { formatMoney, parseAmount, sumAmounts } from "../utils/Money";
+import { dayKey } from "../utils/Recurring";
+import { LockedPeriod, reconcile, ReconcileRow } from "../utils/Reconciliation";
+import { getSettings } from "../utils/SettingsService";
+import { isCredit, netTotal } from "../utils/Spending";
+import {
+    detectStatementFormat,
+    parseOfx,
+    parseQif,
+    statementPreviewRows,
+} from "../utils/StatementImport";
+
+const monthStart = () => {
+    const today = new Date();
+    return dayKey(new Date(today.getFullYear(), today.getMonth(), 1));
+};
+
+export default function ReconcileScreen() {
+    const { theme } = useTheme();
+    const [spending, setSpending] = useState<ReconcileRow[]>([]);
+    const [lockedPeriods, setLockedPeriods] = useState<LockedPeriod[]>([]);
+    const [homeCurrency, setHomeCurrency] = useState("USD");
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [dedupe, setDedupe] = useState<DedupeOptions>(DEFAULT_DEDUPE_OPTIONS);
+    const [loading, setLoading] = useState(true);
+    const [from, setFrom] = useState(monthStart());
+    const [to, setTo] = useState(dayKey(new Date()));
+    const [closingTotal, setClosingTotal] = useState("");
+    const [statementName, setStatementName] = useState<string | null>(null);
+    const [statementLines, setStatementLines] = useState<PreviewRow[] | null>(
+        null
+    );
+    const [statementCurrency, setStatementCurrency] = useState("USD");
+
+    useEffect(() => {
+        loadReconciliation();
+    }, []);
+
+    const loadReconciliation = async () => {
+        try {
+            const settings = await getSettings();
+            setSpending((await Database.getAllSpending()) as ReconcileRow[]);
+            setLockedPeriods(await Database.getLockedPeriods());
+            setExchangeRates(await Database.getExchangeRates());
+            setHomeCurrency(settings.currency);
+            setDedupe(settings.dedupe);
+        } catch (error) {
+            console.log("Error loading reconciliation:", error);
+            Alert.alert("Error", "Failed to load transactions");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const appRows = useMemo(
+        () => rowsInRange(spending, from, to),
+        [spending, from, to]
+    );
+
+    const lines = useMemo(
+        () =>
+            statementLines
+                ? rowsInRange(
+                      statementLines.map((line) => ({
+                          ...line,
+                          date: line.date!,
+                      })),
+                      from,
+                      to
+                  )
+                : null,
+        [statementLines, from, to]
+    );
+
+    const result = useMemo(
+        () => (lines ? reconcile(lines, appRows, dedupe) : null),
+        [lines, appRows, dedupe]
+    );
+
+    const appTotal = netTotal(appRows, homeCurrency, exchangeRates).total;
+    const statementTotal = closingTotal.trim()
+        ? parseAmount(closingTotal)
+        : lines
+        ? netTotal(
+              lines.map((line) => ({
+                  amount: line.amount!,
+                  currency: statementCurrency,
+                  direction: line.direction,
+              })),
+              homeCurrency,
+              exchangeRates
+          ).total
+        : null;
+    const difference =
+        statementTotal === null || isNaN(statementTotal)
+            ? null
+            : sumAmounts([statementTotal, -appTotal], homeCurrency);
+
+    const importStatement = async () => {
+        try {
+            const picked = await DocumentPicker.getDocumentAsync({
+                type: [
+                    "application/x-ofx",
+                    "application/vnd.intu.qfx",
+                    "application/qif",
+                    "application/octet-stream",
+                    "text/plain",
+                ],
+                copyToCacheDirectory: true,
+            });
+            if (picked.canceled || !picked.assets || !picked.assets[0]) {
+                return;
+            }
+
+            const asset = picked.assets[0];
+            const text = await FileSystem.readAsStringAsync(asset.uri);
+            const format = detectStatementFormat(asset.name, text);
+            if (!format) {
+                Alert.alert(
+                    "Unsupported File",
+                    "Choose an OFX, QFX or QIF statement"
+                );
+                return;
+            }
+
+            const parsed = format === "ofx" ? parseOfx(text) : parseQif(text);
+            const currency = parsed.currency || homeCurrency;
+            const valid = statementPreviewRows(
+                parsed.transactions,
+                currency,
+                []
+            ).filter((line) => line.errors.length === 0);
+            if (valid.length === 0) {
+                Alert.alert(
+                    "Empty Statement",
+                    "No readable transactions were found in this file"
+                );
+                return;
+            }
+
+            // The statement's own dates are the period unless the user
+            // narrows it afterwards
+            const days = valid.map((line) => line.date!).sort();
+            setFrom(days[0]);
+            setTo(days[days.length - 1]);
+            setStatementName(asset.name);
+            setStatementCurrency(currency);
+            setStatementLines(valid);
+        } catch (error) {
+            console.log("Error reading statement:", error);
+            Alert.alert("Error", "Failed to read the statement");
+        }
+    };
+
+    const clearStatement = () => {
+        setStatementName(null);
+        setStatementLines(null);
+    };
+
+    const addMissing = async (line: PreviewRow) => {
+        try {
+            await Database.addSpending(line.amount!, line.details, line.date!, {
+                source: "import",
+                direction: line.direction,
+                categoryId: line.categoryId,
+                currency: statementCurrency,
+                bankTxnId: line.bankTxnId ?? null,
+            });
+            await loadReconciliation();
+        } catch (error) {
+            console.log("Error adding statement transaction:", error);
+            Alert.alert("Error", "Failed to add transaction");
+        }
+    };
+
+    const removeExtra = (row: ReconcileRow) => {
+        Alert.alert(
+            "Remove Transaction",
+            `"${row.details}" isn't on the statement. Delete it from the app?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.deleteSpending(row.id);
+                            await loadReconciliation();
+                        } catch (error) {
+                            console.log("Error deleting spending:", error);
+                            Alert.alert(
+                                "Error",
+                                "Failed to delete transaction"
+                            );
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const lockPeriod = () => {
+        const errors = [from, to]
+            .map((day) => DataValidator.validateDate(day, true).error)
+            .filter(Boolean);
+        if (errors.length > 0) {
+            Alert.alert("Invalid Period", errors.join("\n"));
+            return;
+        }
+        if (from > to) {
+            Alert.alert("Invalid Period", "The period ends before it starts");
+            return;
+        }
+        if (statementTotal === null || isNaN(statementTotal)) {
+            Alert.alert(
+                "Closing Total Needed",
+                "Enter the statement's closing total or import the statement file"
+            );
+            return;
+        }
+
+        // With a statement file only the matched rows are confirmed; with a
+        // total alone, everything in the period is
+        const ids = result
+            ? result.matched.map((match) => match.spending.id)
+            : appRows.map((row) => row.id);
+
+        const save = async () => {
+            try {
+                await Database.markReconciled(ids);
+                await Database.lockPeriod({
+                    start_date: from,
+                    end_date: to,
+                    closing_total: statementTotal,
+                    currency: homeCurrency,
+                });
+                await loadReconciliation();
+                Alert.alert(
+                    "Period Locked",
+                    `Edits to transactions from ${from} to ${to} will now ask for confirmation.`
+                );
+            } catch (error) {
+                console.log("Error locking period:", error);
+                Alert.alert("Error", "Failed to lock the period");
+            }
+        };
+
+        Alert.alert(
+            "Lock Period",
+            difference
+                ? `The app is ${formatMoney(
+                      Math.abs(difference),
+                      homeCurrency
+                  )} ${
+                      difference > 0 ? "under" : "over"
+                  } the statement. Lock ${from} to ${to} anyway?`
+                : `Everything matches. Lock ${from} to ${to}?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                { text: "Lock", onPress: save },
+            ]
+        );
+    };
+
+    const unlockPeriod = (period: LockedPeriod) => {
+        Alert.alert(
+            "Unlock Period",
+            `Allow edits from ${period.start_date} to ${period.end_date} without confirmation?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Unlock",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.unlockPeriod(period.id);
+                            await loadReconciliation();
+                        } catch (error) {
+                            console.log("Error unlocking period:", error);
+                            Alert.alert("Error", "Failed to unlock period");
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const renderSide = (
+        item: {
+            details: string;
+            date: string | null;
+            amount: number | null;
+            direction?: string | null;
+        } | null,
+        currency: string
+    ) =>
+        item ? (
+            <View style={styles.side}>
+                <Text
+                    style={[styles.sideDetails, { color: theme.colors.text }]}
+                    numberOfLines={1}
+                >
+                    {item.details}
+                </Text>
+                <Text
+                    style={[
+                        styles.sideMeta,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    {(item.date ?? "").slice(0, 10)}
+                </Text>
+                <Text
+                    style={[
+                        styles.sideAmount,
+                        {
+                            color: isCredit(item)
+                                ? theme.colors.success
+                                : theme.colors.text,
+                        },
+                    ]}
+                >
+                    {isCredit(item) ? "+" : ""}
+                    {formatMoney(item.amount ?? 0, currency)}
+                </Text>
+            </View>
+        ) : (
+            <View style={styles.side}>
+                <Text
+                    style={[
+                        styles.sideMeta,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    —
+                </Text>
+            </View>
+        );
+
+    const renderSectionTitle = (title: string, count: number) => (
+        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+            {title} ({count})
+        </Text>
+    );
+
+    const inputStyle = [
+        styles.input,
+        {
+            borderColor: theme.colors.border,
+            backgroundColor: theme.colors.background,
+            color: theme.colors.text,
+        },
+    ];
+
+    if (loading) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading transactions...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <ScrollView keyboardShouldPersistTaps="handled">
+                <View style={styles.header}>
+                    <Text style={[styles.title, { color: theme.colors.text }]}>
+                        Reconcile
+                    </Text>
+                    <Text
+                        style={[
+                            styles.subtitle,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        Check the app against your bank statement, then lock the
+                        period so later edits need confirmation.
+                    </Text>
+                </View>
+
+                <View
+                    style={[
+                        styles.section,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.sectionTitle,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Statement
+                    </Text>
+                    <View style={styles.periodRow}>
+                        <TextInput
+                            style={[inputStyle, styles.periodInput]}
+                            placeholder="From (YYYY-MM-DD)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={from}
+                            onChangeText={setFrom}
+                        />
+                        <TextInput
+                            style={[inputStyle, styles.periodInput]}
+                            placeholder="To (YYYY-MM-DD)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={to}
+                            onChangeText={setTo}
+                        />
+                    </View>
+                    <TextInput
+                        style={inputStyle}
+                        placeholder={
+                            lines
+                                ? "Closing total (optional, from the file)"
+                                : `Closing total in ${homeCurrency}`
+                        }
+                        placeholderTextColor={theme.colors.textSecondary}
+                        value={closingTotal}
+                        onChangeText={setClosingTotal}
+                        keyboardType="numeric"
+                    />
+                    <View style={styles.buttonRow}>
+                        <TouchableOpacity
+                            style={[
+                                styles.button,
+                                { backgroundColor: theme.colors.primary },
+                            ]}
+                            onPress={importStatement}
+                        >
+                            <Text style={styles.buttonText}>
+                                {statementName
+                                    ? `📄 ${statementName}`
+                                    : "Import Statement File"}
+                            </Text>
+                        </TouchableOpacity>
+                        {statementName ? (
+                            <TouchableOpacity
+                                style={[styles.button, styles.cancelButton]}
+                                onPress={clearStatement}
+                            >
+                                <Text style={styles.buttonText}>Clear</Text>
+                            </TouchableOpacity>
+                        ) : null}
+                    </View>
+                </View>
+
+                <View
+                    style={[
+                        styles.section,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <View style={styles.totalRow}>
+                        <Text style={{ color: theme.colors.textSecondary }}>
+                            Statement
+                        </Text>
+                        <Text
+                            style={[
+                                styles.totalValue,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {statementTotal === null || isNaN(statementTotal)
+                                ? "—"
+                                : formatMoney(statementTotal, homeCurrency)}
+                        </Text>
+                    </View>
+                    <View style={styles.totalRow}>
+                        <Text style={{ color: theme.colors.textSecondary }}>
+                            In app ({appRows.length})
+                        </Text>
+                        <Text
+                            style={[
+                                styles.totalValue,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {formatMoney(appTotal, homeCurrency)}
+                        </Text>
+                    </View>
+                    <View style={styles.totalRow}>
+                        <Text style={{ color: theme.colors.textSecondary }}>
+                            Difference
+                        </Text>
+                        <Text
+                            style={[
+                                styles.totalValue,
+                                {
+                                    color:
+                                        difference === null
+                                            ? theme.colors.textSecondary
+                                            : difference === 0
+                                            ? theme.colors.success
+                                            : theme.colors.error,
+                                },
+                            ]}
+                        >
+                            {difference === null
+                                ? "—"
+                                : formatMoney(difference, homeCurrency)}
+                        </Text>
+                    </View>
+                    <TouchableOpacity
+                        style={[
+                            styles.lockButton,
+                            { backgroundColor: theme.colors.success },
+                        ]}
+                        onPress={lockPeriod}
+                    >
+                        <Text style={styles.buttonText}>🔒 Lock Period</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {result ? (
+                    <>
+                        <View
+                            style={[
+                                styles.section,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                        >
+                            {renderSectionTitle(
+                                "Missing from App",
+                                result.missing.length
+                            )}
+                            {result.missing.map((line) => (
+                                <View
+                                    key={`missing-${line.line}`}
+                                    style={[
+                                        styles.pair,
+                                        {
+                                            borderBottomColor:
+                                                theme.colors.border,
+                                        },
+                                    ]}
+                                >
+                                    {renderSide(line, statementCurrency)}
+                                    <View style={styles.side}>
+                                        <TouchableOpacity
+                                            style={[
+                                                styles.smallButton,
+                                                {
+                                                    backgroundColor:
+                                                        theme.colors.primary,
+                                                },
+                                            ]}
+                                            onPress={() => addMissing(line)}
+                                        >
+                                            <Text
+                                                style={styles.smallButtonText}
+                                            >
+                                                Add
+                                            </Text>
+                                        </TouchableOpacity>
+                                    </View>
+                                </View>
+                            ))}
+                        </View>
+
+                        <View
+                            style={[
+                                styles.section,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                        >
+                            {renderSectionTitle(
+                                "Not on Statement",
+                                result.extra.length
+                            )}
+                            {result.extra.map((row) => (
+                                <View
+                                    key={`extra-${row.id}`}
+                                    style={[
+                                        styles.pair,
+                                        {
+                                            borderBottomColor:
+                                                theme.colors.border,
+                                        },
+                                    ]}
+                                >
+                                    <View style={styles.side}>
+                                        <TouchableOpacity
+                                            style={[
+                                                styles.smallButton,
+                                                {
+                                                    backgroundColor:
+                                                        theme.colors.error,
+                                                },
+                                            ]}
+                                            onPress={() => removeExtra(row)}
+                                        >
+                                            <Text
+                                                style={styles.smallButtonText}
+                                            >
+                                                Remove
+                                            </Text>
+                                        </TouchableOpacity>
+                                    </View>
+                                    {renderSide(
+                                        row,
+                                        row.currency || homeCurrency
+                                    )}
+                                </View>
+                            ))}
+                        </View>
+
+                        <View
+                            style={[
+                                styles.section,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                        >
+                            {renderSectionTitle(
+                                "Matched",
+                                result.matched.length
+                            )}
+                            <View style={styles.pair}>
+                                <Text
+                                    style={[
+                                        styles.side,
+                                        styles.columnLabel,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                >
+                                    Statement
+                                </Text>
+                                <Text
+                                    style={[
+                                        styles.side,
+                                        styles.columnLabel,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                >
+                                    App
+                                </Text>
+                            </View>
+                            {result.matched.map(({ statement, spending }) => (
+                                <View
+                                    key={`matched-${spending.id}`}
+                                    style={[
+                                        styles.pair,
+                                        {
+                                            borderBottomColor:
+                                                theme.colors.border,
+                                        },
+                                    ]}
+                                >
+                                    {renderSide(statement, statementCurrency)}
+                                    {renderSide(
+                                        spending,
+                                        spending.currency || homeCurrency
+                                    )}
+                                </View>
+                            ))}
+                        </View>
+                    </>
+                ) : null}
+
+                <View
+                    style={[
+                        styles.section,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.sectionTitle,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Locked Periods
+                    </Text>
+                    {lockedPeriods.length === 0 ? (
+                        <Text
+                            style={[
+                                styles.emptyText,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            No periods locked yet
+                        </Text>
+                    ) : (
+                        lockedPeriods.map((period) => (
+                            <TouchableOpacity
+                                key={period.id}
+                                style={[
+                                    styles.lockedRow,
+                                    { borderBottomColor: theme.colors.border },
+                                ]}
+                                onLongPress={() => unlockPeriod(period)}
+                            >
+                                <Text
+                                    style={[
+                                        styles.sideDetails,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    🔒 {period.start_date} – {period.end_date}
+                                </Text>
+                                <Text
+                                    style={[
+                                        styles.sideMeta,
+                                        { color: theme.colors.textSecondary },
+                                    ]}
+                                >
+                                    Closing total{" "}
+                                    {formatMoney(
+                                        period.closing_total,
+                                        period.currency
+                                    )}{" "}
+                                    · long-press to unlock
+                                </Text>
+                            </TouchableOpacity>
+                        ))
+                    )}
+                </View>
+            </ScrollView>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    section: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 8,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        fontStyle: "italic",
+        paddingVertical: 8,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        fontSize: 16,
+        marginBottom: 12,
+    },
+    periodRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+    },
+    periodInput: {
+        flex: 1,
+        marginHorizontal: 2,
+    },
+    buttonRow: {
+        flexDirection: "row",
+    },
+    button: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 2,
+    },
+    cancelButton: {
+        backgroundColor: "#95a5a6",
+        flex: 0,
+        paddingHorizontal: 16,
+    },
+    buttonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    totalRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        paddingVertical: 4,
+    },
+    totalValue: {
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    lockButton: {
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginTop: 12,
+    },
+    pair: {
+        flexDirection: "row",
+        paddingVertical: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: "transparent",
+    },
+    side: {
+        flex: 1,
+        marginHorizontal: 4,
+        justifyContent: "center",
+    },
+    columnLabel: {
+        fontSize: 12,
+        fontWeight: "600",
+        textTransform: "uppercase",
+    },
+    sideDetails: {
+        fontSize: 14,
+        color: "#2c3e50",
+    },
+    sideMeta: {
+        fontSize: 12,
+        color: "#7f8c8d",
+        marginTop: 2,
+    },
+    sideAmount: {
+        fontSize: 14,
+        fontWeight: "600",
+        marginTop: 2,
+    },
+    smallButton: {
+        alignSelf: "center",
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 6,
+    },
+    smallButtonText: {
+        color: "#ffffff",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    lockedRow: {
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+});
@@ -0,0 +1,724 @@
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    Modal,
+    RefreshControl,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { DirectionPicker } from "../components/DirectionPicker";
+import { useTheme } from "../contexts/ThemeContext";
+import { Database, Spending, SpendingStatus } from "../utils/DatabaseManager";
+import { DataValidator } from "../utils/DataValidator";
+import { formatMoney } from "../utils/Money";
+import { getSettings } from "../utils/SettingsService";
+import { isCredit, TransactionDirection } from "../utils/Spending";
+
+export default function ReviewScreen() {
+    const { theme } = useTheme();
+    const [pendingItems, setPendingItems] = useState<Spending[]>([]);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [homeCurrency, setHomeCurrency] = useState("USD");
+    const [refreshing, setRefreshing] = useState(false);
+    const [editingItem, setEditingItem] = useState<Spending | null>(null);
+    const [draft, setDraft] = useState({
+        amount: "",
+        details: "",
+        date: "",
+        direction: "debit" as TransactionDirection,
+    });
+
+    useEffect(() => {
+        loadPending();
+    }, []);
+
+    const loadPending = async () => {
+        try {
+            setLoading(true);
+            const data = await Database.getPendingSpending();
+            setPendingItems(data);
+            setHomeCurrency((await getSettings()).currency);
+            // Drop selections for rows that are no longer pending
+            setSelectedIds((ids) =>
+                ids.filter((id) => data.some((item) => item.id === id))
+            );
+        } catch (error) {
+            console.log("Error loading pending transactions:", error);
+            Alert.alert("Error", "Failed to load pending transactions");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const onRefresh = async () => {
+        setRefreshing(true);
+        await loadPending();
+        setRefreshing(false);
+    };
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds((ids) =>
+            ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+        );
+    };
+
+    const toggleSelectAll = () => {
+        setSelectedIds(
+            selectedIds.length === pendingItems.length
+                ? []
+                : pendingItems.map((item) => item.id)
+        );
+    };
+
+    const setStatus = async (ids: number[], status: SpendingStatus) => {
+        try {
+            await Database.setSpendingStatus(ids, status);
+            await loadPending();
+        } catch (error) {
+            console.log("Error updating transaction status:", error);
+            Alert.alert("Error", "Failed to update transactions");
+        }
+    };
+
+    const rejectWithConfirm = (ids: number[]) => {
+        Alert.alert(
+            "Reject Transactions",
+            `Reject ${ids.length} transaction${
+                ids.length === 1 ? "" : "s"
+            }? They will not count towards your spending.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Reject",
+                    style: "destructive",
+                    onPress: () => setStatus(ids, "rejected"),
+                },
+            ]
+        );
+    };
+
+    const openEditor = (item: Spending) => {
+        setEditingItem(item);
+        setDraft({
+            amount: item.amount.toString(),
+            details: item.details,
+            date: item.date.split("T")[0],
+            direction: item.direction ?? "debit",
+        });
+    };
+
+    // Save the edits and accept the row in one step
+    const saveAndAccept = async () => {
+        if (!editingItem) return;
+
+        const amountValidation = DataValidator.validateAmount(
+            draft.amount,
+            editingItem.currency || homeCurrency
+        );
+        const detailsValidation = DataValidator.validateDetails(draft.details);
+        const dateValidation = DataValidator.validateDate(draft.date);
+
+        const validationErrors = [
+            amountValidation.error,
+            detailsValidation.error,
+            dateValidation.error,
+        ].filter(Boolean);
+
+        if (validationErrors.length > 0) {
+            Alert.alert("Validation Error", validationErrors.join("\n"));
+            return;
+        }
+
+        try {
+            // Keep the captured time of day when only the date is unchanged
+            const date =
+                dateValidation.value === editingItem.date.split("T")[0]
+                    ? editingItem.date
+                    : dateValidation.value!;
+
+            await Database.updateSpending(
+                editingItem.id,
+                amountValidation.value!,
+                detailsValidation.value!,
+                date,
+                draft.direction
+            );
+            await Database.setSpendingStatus([editingItem.id], "accepted");
+            setEditingItem(null);
+            await loadPending();
+        } catch (error) {
+            console.log("Error saving transaction:", error);
+            Alert.alert("Error", "Failed to save transaction");
+        }
+    };
+
+    const getNotificationText = (item: Spending): string | null => {
+        if (!item.raw_notification) return null;
+        try {
+            const raw = JSON.parse(item.raw_notification);
+            return raw.text || null;
+        } catch {
+            return item.raw_notification;
+        }
+    };
+
+    // Captured rows keep the currency the notification was in
+    const formatAmount = (item: Spending) => {
+        return formatMoney(item.amount, item.currency || homeCurrency);
+    };
+
+    if (loading && !refreshing) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading pending transactions...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <View style={styles.header}>
+                <Text style={[styles.title, { color: theme.colors.text }]}>
+                    Review Transactions
+                </Text>
+                <Text
+                    style={[
+                        styles.subtitle,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Captured from notifications and waiting for approval
+                </Text>
+            </View>
+
+            {pendingItems.length > 0 && (
+                <View style={styles.bulkActions}>
+                    <TouchableOpacity
+                        style={[
+                            styles.bulkButton,
+                            { backgroundColor: theme.colors.secondary },
+                        ]}
+                        onPress={toggleSelectAll}
+                    >
+                        <Text style={styles.bulkButtonText}>
+                            {selectedIds.length === pendingItems.length
+                                ? "Select None"
+                                : "Select All"}
+                        </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[
+                            styles.bulkButton,
+                            { backgroundColor: theme.colors.success },
+                            selectedIds.length === 0 && styles.disabledButton,
+                        ]}
+                        disabled={selectedIds.length === 0}
+                        onPress={() => setStatus(selectedIds, "accepted")}
+                    >
+                        <Text style={styles.bulkButtonText}>
+                            Accept ({selectedIds.length})
+                        </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[
+                            styles.bulkButton,
+                            { backgroundColor: theme.colors.error },
+                            selectedIds.length === 0 && styles.disabledButton,
+                        ]}
+                        disabled={selectedIds.length === 0}
+                        onPress={() => rejectWithConfirm(selectedIds)}
+                    >
+                        <Text style={styles.bulkButtonText}>
+                            Reject ({selectedIds.length})
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+
+            <ScrollView
+                refreshControl={
+                    <RefreshControl
+                        refreshing={refreshing}
+                        onRefresh={onRefresh}
+                        tintColor={theme.colors.primary}
+                    />
+                }
+            >
+                {pendingItems.length === 0 ? (
+                    <View style={styles.emptyContainer}>
+                        <Text
+                            style={[
+                                styles.emptyText,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            Nothing to review
+                        </Text>
+                        <Text
+                            style={[
+                                styles.emptySubtext,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            New transactions captured from notifications will
+                            show up here
+                        </Text>
+                    </View>
+                ) : (
+                    pendingItems.map((item) => {
+                        const isSelected = selectedIds.includes(item.id);
+                        const notificationText = getNotificationText(item);
+
+                        return (
+                            <TouchableOpacity
+                                key={item.id}
+                                style={[
+                                    styles.card,
+                                    { backgroundColor: theme.colors.surface },
+                                    isSelected && {
+                                        borderColor: theme.colors.primary,
+                                    },
+                                ]}
+                                onPress={() => toggleSelected(item.id)}
+                            >
+                                <View style={styles.cardHeader}>
+                                    <Text
+                                        style={[
+                                            styles.checkbox,
+                                            { color: theme.colors.primary },
+                                        ]}
+                                    >
+                                        {isSelected ? "☑" : "☐"}
+                                    </Text>
+                                    <Text
+                                        style={[
+                                            styles.amount,
+                                            {
+                                                color: isCredit(item)
+                                                    ? theme.colors.success
+                                                    : theme.colors.error,
+                                            },
+                                        ]}
+                                    >
+                                        {isCredit(item) ? "+" : ""}
+                                        {formatAmount(item)}
+                                    </Text>
+                                    <Text
+                                        style={[
+                                            styles.date,
+                                            {
+                                                color: theme.colors
+                                                    .textSecondary,
+                                            },
+                                        ]}
+                                    >
+                                        {new Date(item.date).toLocaleString()}
+                                    </Text>
+                                </View>
+                                <Text
+                                    style={[
+                                        styles.details,
+                                        { color: theme.colors.text },
+                                    ]}
+                                    numberOfLines={2}
+                                >
+                                    {item.details}
+                                </Text>
+                                {item.duplicate_of !== null && (
+                                    <Text
+                                        style={[
+                                            styles.duplicateText,
+                                            { color: theme.colors.warning },
+                                        ]}
+                                    >
+                                        Possible duplicate of transaction #
+                                        {item.duplicate_of}
+                                    </Text>
+                                )}
+                                {notificationText &&
+                                    notificationText !== item.details && (
+                                        <Text
+                                            style={[
+                                                styles.rawText,
+                                                {
+                                                    color: theme.colors
+                                                        .textSecondary,
+                                                },
+                                            ]}
+                                            numberOfLines={3}
+                                        >
+                                            “{notificationText}”
+                                        </Text>
+                                    )}
+                                <View style={styles.cardActions}>
+                                    <TouchableOpacity
+                                        style={[
+                                            styles.actionButton,
+                                            {
+                                                backgroundColor:
+                                                    theme.colors.success,
+                                            },
+                                        ]}
+                                        onPress={() =>
+                                            setStatus([item.id], "accepted")
+                                        }
+                                    >
+                                        <Text style={styles.actionButtonText}>
+                                            Accept
+                                        </Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        style={[
+                                            styles.actionButton,
+                                            {
+                                                backgroundColor:
+                                                    theme.colors.warning,
+                                            },
+                                        ]}
+                                        onPress={() => openEditor(item)}
+                                    >
+                                        <Text style={styles.actionButtonText}>
+                                            Edit
+                                        </Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        style={[
+                                            styles.actionButton,
+                                            {
+                                                backgroundColor:
+                                                    theme.colors.error,
+                                            },
+                                        ]}
+                                        onPress={() =>
+                                            rejectWithConfirm([item.id])
+                                        }
+                                    >
+                                        <Text style={styles.actionButtonText}>
+                                            Reject
+                                        </Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </TouchableOpacity>
+                        );
+                    })
+                )}
+            </ScrollView>
+
+            {/* Edit Pending Transaction Modal */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={editingItem !== null}
+                onRequestClose={() => setEditingItem(null)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            Edit & Accept
+                        </Text>
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Amount (e.g., 25.99)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={draft.amount}
+                            onChangeText={(text) =>
+                                setDraft({ ...draft, amount: text })
+                            }
+                            keyboardType="numeric"
+                        />
+
+                        <DirectionPicker
+                            value={draft.direction}
+                            onChange={(direction) =>
+                                setDraft({ ...draft, direction })
+                            }
+                        />
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Details (e.g., Coffee at Starbucks)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={draft.details}
+                            onChangeText={(text) =>
+                                setDraft({ ...draft, details: text })
+                            }
+                            multiline
+                        />
+
+                        <TextInput
+                            style={[
+                                styles.input,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Date (YYYY-MM-DD)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={draft.date}
+                            onChangeText={(text) =>
+                                setDraft({ ...draft, date: text })
+                            }
+                        />
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelButton,
+                                ]}
+                                onPress={() => setEditingItem(null)}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={[styles.modalButton, styles.saveButton]}
+                                onPress={saveAndAccept}
+                            >
+                                <Text style={styles.modalButtonText}>
+                                    Save & Accept
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    bulkActions: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        marginBottom: 12,
+    },
+    bulkButton: {
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    bulkButtonText: {
+        color: "#ffffff",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    card: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 14,
+        marginBottom: 12,
+        borderWidth: 2,
+        borderColor: "transparent",
+        shadowColor: "#000",
+        shadowOffset: {
+            width: 0,
+            height: 2,
+        },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3,
+    },
+    cardHeader: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginBottom: 6,
+    },
+    checkbox: {
+        fontSize: 20,
+        marginRight: 8,
+    },
+    amount: {
+        fontSize: 18,
+        fontWeight: "600",
+        color: "#e74c3c",
+        flex: 1,
+    },
+    date: {
+        fontSize: 12,
+        color: "#95a5a6",
+    },
+    details: {
+        fontSize: 15,
+        color: "#2c3e50",
+    },
+    duplicateText: {
+        fontSize: 12,
+        color: "#f39c12",
+        fontWeight: "600",
+        marginTop: 4,
+    },
+    rawText: {
+        fontSize: 12,
+        color: "#7f8c8d",
+        fontStyle: "italic",
+        marginTop: 6,
+    },
+    cardActions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        marginTop: 10,
+    },
+    actionButton: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 6,
+        marginLeft: 8,
+    },
+    actionButtonText: {
+        color: "#ffffff",
+        fontSize: 13,
+        fontWeight: "600",
+    },
+    emptyContainer: {
+        padding: 40,
+        alignItems: "center",
+    },
+    emptyText: {
+        fontSize: 18,
+        color: "#7f8c8d",
+        fontWeight: "600",
+    },
+    emptySubtext: {
+        fontSize: 14,
+        color: "#95a5a6",
+        marginTop: 8,
+        textAlign: "center",
+    },
+    modalOverlay: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+    },
+    modalContent: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 20,
+        width: "90%",
+        maxWidth: 400,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        textAlign: "center",
+        marginBottom: 20,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        marginBottom: 16,
+        fontSize: 16,
+        backgroundColor: "#f8f9fa",
+    },
+    modalButtons: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        marginTop: 10,
+    },
+    modalButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 5,
+    },
+    cancelButton: {
+        backgroundColor: "#95a5a6",
+    },
+    saveButton: {
+        backgroundColor: "#27ae60",
+    },
+    modalButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
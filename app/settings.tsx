@@ -1,4 +1,3 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { router } from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
@@ -14,33 +13,48 @@ import {
 } from "react-native";
 import RNAndroidNotificationListener from "react-native-android-notification-listener";
 import { useTheme } from "../contexts/ThemeContext";
+import { Database } from "../utils/DatabaseManager";
+import { formatMoney, parseAmount } from "../utils/Money";
+import {
+    compileRule,
+    loadParsingRules,
+    ParsingRule,
+    saveParsingRules,
+    testRule,
+} from "../utils/NotificationRules";
+import {
+    DEFAULT_SETTINGS,
+    Settings,
+    settingsService,
+} from "../utils/SettingsService";
 
-interface Settings {
-    currency: string;
-    notificationSound: boolean;
-    autoBackup: boolean;
-    maxAmount: number;
-    allowedApps: string[];
-}
-
-const DEFAULT_SETTINGS: Settings = {
-    currency: "USD",
-    notificationSound: true,
-    autoBackup: false,
-    maxAmount: 10000,
-    allowedApps: [
-        "com.discoverfinancial.mobile",
-        "com.mfoundry.mb.android.mb_731",
-        "com.android.chrome",
-    ],
+const EMPTY_RULE: ParsingRule = {
+    id: "",
+    packageName: "",
+    pattern: "",
+    enabled: true,
 };
 
+// A duplicate detection value being edited
+interface DedupeEdit {
+    title: string;
+    message: string;
+    key: "timeWindowHours" | "merchantSimilarity" | "amountTolerance";
+    isValid: (value: number) => boolean;
+}
+
 export default function SettingsScreen() {
     const { theme, toggleTheme, isDark } = useTheme();
     const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
     const [loading, setLoading] = useState(true);
     const [modalVisible, setModalVisible] = useState(false);
     const [newApp, setNewApp] = useState("");
+    const [parsingRules, setParsingRules] = useState<ParsingRule[]>([]);
+    const [ruleModalVisible, setRuleModalVisible] = useState(false);
+    const [draftRule, setDraftRule] = useState<ParsingRule>(EMPTY_RULE);
+    const [sampleText, setSampleText] = useState("");
+    const [dedupeEdit, setDedupeEdit] = useState<DedupeEdit | null>(null);
+    const [dedupeText, setDedupeText] = useState("");
 
     useEffect(() => {
         loadSettings();
@@ -48,13 +62,8 @@ export default function SettingsScreen() {
 
     const loadSettings = async () => {
         try {
-            const savedSettings = await AsyncStorage.getItem("app_settings");
-            if (savedSettings) {
-                const parsedSettings = JSON.parse(savedSettings);
-                // Remove darkMode from old settings and use theme context instead
-                const { darkMode, ...otherSettings } = parsedSettings;
-                setSettings({ ...DEFAULT_SETTINGS, ...otherSettings });
-            }
+            setSettings(await settingsService.getSettings());
+            setParsingRules(await loadParsingRules());
         } catch (error) {
             console.log("Error loading settings:", error);
         } finally {
@@ -64,10 +73,9 @@ export default function SettingsScreen() {
 
     const saveSettings = async (newSettings: Settings) => {
         try {
-            await AsyncStorage.setItem(
-                "app_settings",
-                JSON.stringify(newSettings)
-            );
+            // Goes through the shared service so the headless listener sees
+            // the new allowlist and limits without an app restart
+            await settingsService.saveSettings(newSettings);
             setSettings(newSettings);
         } catch (error) {
             console.log("Error saving settings:", error);
@@ -83,6 +91,32 @@ export default function SettingsScreen() {
         saveSettings(newSettings);
     };
 
+    const editDedupeNumber = (
+        title: string,
+        message: string,
+        key: DedupeEdit["key"],
+        isValid: (value: number) => boolean
+    ) => {
+        setDedupeText(settings.dedupe[key].toString());
+        setDedupeEdit({ title, message, key, isValid });
+    };
+
+    const saveDedupeNumber = () => {
+        if (!dedupeEdit) {
+            return;
+        }
+        const parsed = parseAmount(dedupeText);
+        if (isNaN(parsed) || !dedupeEdit.isValid(parsed)) {
+            Alert.alert("Error", "Please enter a valid value");
+            return;
+        }
+        updateSetting("dedupe", {
+            ...settings.dedupe,
+            [dedupeEdit.key]: parsed,
+        });
+        setDedupeEdit(null);
+    };
+
     const addAllowedApp = () => {
         if (!newApp.trim()) {
             Alert.alert("Error", "Please enter a valid app package name");
@@ -120,6 +154,117 @@ export default function SettingsScreen() {
         );
     };
 
+    const openRuleEditor = (rule?: ParsingRule) => {
+        setDraftRule(
+            rule ?? {
+                ...EMPTY_RULE,
+                packageName: settings.allowedApps[0] ?? "",
+            }
+        );
+        setSampleText("");
+        setRuleModalVisible(true);
+    };
+
+    const saveParsingRule = async () => {
+        if (!draftRule.packageName.trim()) {
+            Alert.alert("Error", "Please enter the app package name");
+            return;
+        }
+
+        const { error } = compileRule(draftRule.pattern);
+        if (error) {
+            Alert.alert("Invalid Pattern", error);
+            return;
+        }
+
+        const rule = {
+            ...draftRule,
+            id: draftRule.id || Date.now().toString(),
+            packageName: draftRule.packageName.trim(),
+        };
+        const newRules = draftRule.id
+            ? parsingRules.map((r) => (r.id === rule.id ? rule : r))
+            : [...parsingRules, rule];
+
+        try {
+            await saveParsingRules(newRules);
+            setParsingRules(newRules);
+            setRuleModalVisible(false);
+        } catch (error) {
+            console.log("Error saving parsing rules:", error);
+            Alert.alert("Error", "Failed to save parsing rule");
+        }
+    };
+
+    const deleteParsingRule = (rule: ParsingRule) => {
+        Alert.alert(
+            "Delete Rule",
+            `Are you sure you want to delete this rule for ${rule.packageName}?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        const newRules = parsingRules.filter(
+                            (r) => r.id !== rule.id
+                        );
+                        try {
+                            await saveParsingRules(newRules);
+                            setParsingRules(newRules);
+                            setRuleModalVisible(false);
+                        } catch (error) {
+                            console.log("Error saving parsing rules:", error);
+                            Alert.alert("Error", "Failed to delete rule");
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const toggleParsingRule = async (rule: ParsingRule, enabled: boolean) => {
+        const newRules = parsingRules.map((r) =>
+            r.id === rule.id ? { ...r, enabled } : r
+        );
+        try {
+            await saveParsingRules(newRules);
+            setParsingRules(newRules);
+        } catch (error) {
+            console.log("Error saving parsing rules:", error);
+            Alert.alert("Error", "Failed to update rule");
+        }
+    };
+
+    const renderRulePreview = () => {
+        if (!draftRule.pattern.trim() || !sampleText.trim()) {
+            return "Enter a pattern and sample text to preview";
+        }
+
+        const { parsed, error } = testRule(
+            draftRule,
+            sampleText,
+            settings.currency
+        );
+        if (error) {
+            return `Error: ${error}`;
+        }
+        if (!parsed) {
+            return "No match";
+        }
+
+        return [
+            `Amount: ${formatMoney(
+                parsed.amount,
+                parsed.currency ?? settings.currency
+            )}`,
+            `Merchant: ${parsed.merchant ?? "(none)"}`,
+            `Date: ${
+                parsed.date ? new Date(parsed.date).toLocaleString() : "(now)"
+            }`,
+        ].join("\n");
+    };
+
     const resetSettings = () => {
         Alert.alert(
             "Reset Settings",
@@ -148,10 +293,7 @@ export default function SettingsScreen() {
                     style: "destructive",
                     onPress: async () => {
                         try {
-                            // Clear database
-                            const { openDatabaseSync } = require("expo-sqlite");
-                            const db = openDatabaseSync("spending.db");
-                            await db.execAsync("DELETE FROM spending");
+                            await Database.clearAllSpending();
                             Alert.alert("Success", "All data has been cleared");
                         } catch (error) {
                             Alert.alert("Error", "Failed to clear data");
@@ -266,7 +408,7 @@ export default function SettingsScreen() {
                             { color: theme.colors.text },
                         ]}
                     >
-                        Currency
+                        Home Currency
                     </Text>
                     <TouchableOpacity
                         style={styles.currencyButton}
@@ -309,6 +451,31 @@ export default function SettingsScreen() {
                         </Text>
                     </TouchableOpacity>
                 </View>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/exchange-rates" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Exchange Rates
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
             </View>
 
             {/* Notification Settings */}
@@ -349,6 +516,31 @@ export default function SettingsScreen() {
                     </Text>
                 </TouchableOpacity>
 
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/notification-log" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Notification Log
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
                 <View
                     style={[
                         styles.settingItem,
@@ -440,7 +632,7 @@ export default function SettingsScreen() {
                 </TouchableOpacity>
             </View>
 
-            {/* Data Settings */}
+            {/* Parsing Rules */}
             <View
                 style={[
                     styles.section,
@@ -450,7 +642,97 @@ export default function SettingsScreen() {
                 <Text
                     style={[styles.sectionTitle, { color: theme.colors.text }]}
                 >
-                    Data
+                    Parsing Rules
+                </Text>
+                <Text
+                    style={[
+                        styles.sectionDescription,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Custom patterns checked before the built-in bank parsers.
+                    Use the named groups {"(?<amount>)"}, {"(?<merchant>)"} and{" "}
+                    {"(?<date>)"}.
+                </Text>
+
+                {parsingRules.map((rule) => (
+                    <TouchableOpacity
+                        key={rule.id}
+                        style={[
+                            styles.appItem,
+                            { borderBottomColor: theme.colors.border },
+                        ]}
+                        onPress={() => openRuleEditor(rule)}
+                    >
+                        <View style={styles.ruleInfo}>
+                            <Text
+                                style={[
+                                    styles.appText,
+                                    { color: theme.colors.text },
+                                ]}
+                                numberOfLines={1}
+                            >
+                                {rule.packageName}
+                            </Text>
+                            <Text
+                                style={[
+                                    styles.rulePattern,
+                                    { color: theme.colors.textSecondary },
+                                ]}
+                                numberOfLines={1}
+                            >
+                                {rule.pattern}
+                            </Text>
+                        </View>
+                        <Switch
+                            value={rule.enabled}
+                            onValueChange={(value) =>
+                                toggleParsingRule(rule, value)
+                            }
+                            trackColor={{
+                                false: theme.colors.border,
+                                true: theme.colors.primary,
+                            }}
+                            thumbColor={
+                                rule.enabled ? theme.colors.surface : "#f4f3f4"
+                            }
+                        />
+                    </TouchableOpacity>
+                ))}
+
+                <TouchableOpacity
+                    style={[
+                        styles.addButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={() => openRuleEditor()}
+                >
+                    <Text style={styles.addButtonText}>+ Add Rule</Text>
+                </TouchableOpacity>
+            </View>
+
+            {/* Duplicate Detection */}
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                <Text
+                    style={[styles.sectionTitle, { color: theme.colors.text }]}
+                >
+                    Duplicate Detection
+                </Text>
+                <Text
+                    style={[
+                        styles.sectionDescription,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Captured transactions that look like an earlier one are
+                    flagged so you can merge them or keep both. Entries you add
+                    or import are only flagged when they repeat one from the
+                    same day exactly.
                 </Text>
 
                 <View
@@ -465,23 +747,36 @@ export default function SettingsScreen() {
                             { color: theme.colors.text },
                         ]}
                     >
-                        Auto Backup
+                        Time Window
                     </Text>
-                    <Switch
-                        value={settings.autoBackup}
-                        onValueChange={(value) =>
-                            updateSetting("autoBackup", value)
-                        }
-                        trackColor={{
-                            false: theme.colors.border,
-                            true: theme.colors.primary,
-                        }}
-                        thumbColor={
-                            settings.autoBackup
-                                ? theme.colors.surface
-                                : "#f4f3f4"
+                    <TouchableOpacity
+                        style={styles.amountButton}
+                        onPress={() =>
+                            editDedupeNumber(
+                                "Time Window",
+                                "Hours between two transactions that can still be duplicates:",
+                                "timeWindowHours",
+                                (value) => value > 0
+                            )
                         }
-                    />
+                    >
+                        <Text
+                            style={[
+                                styles.amountText,
+                                { color: theme.colors.primary },
+                            ]}
+                        >
+                            {settings.dedupe.timeWindowHours}h
+                        </Text>
+                        <Text
+                            style={[
+                                styles.arrow,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            ›
+                        </Text>
+                    </TouchableOpacity>
                 </View>
 
                 <View
@@ -496,35 +791,18 @@ export default function SettingsScreen() {
                             { color: theme.colors.text },
                         ]}
                     >
-                        Max Amount Alert
+                        Merchant Similarity
                     </Text>
                     <TouchableOpacity
                         style={styles.amountButton}
-                        onPress={() => {
-                            Alert.prompt(
-                                "Max Amount Alert",
-                                "Set the maximum amount for spending alerts:",
-                                [
-                                    { text: "Cancel", style: "cancel" },
-                                    {
-                                        text: "Set",
-                                        onPress: (value) => {
-                                            const amount = parseFloat(
-                                                value || "0"
-                                            );
-                                            if (amount > 0) {
-                                                updateSetting(
-                                                    "maxAmount",
-                                                    amount
-                                                );
-                                            }
-                                        },
-                                    },
-                                ],
-                                "plain-text",
-                                settings.maxAmount.toString()
-                            );
-                        }}
+                        onPress={() =>
+                            editDedupeNumber(
+                                "Merchant Similarity",
+                                "Minimum similarity between merchant names, from 0 to 1:",
+                                "merchantSimilarity",
+                                (value) => value >= 0 && value <= 1
+                            )
+                        }
                     >
                         <Text
                             style={[
@@ -532,7 +810,10 @@ export default function SettingsScreen() {
                                 { color: theme.colors.primary },
                             ]}
                         >
-                            ${settings.maxAmount}
+                            {Math.round(
+                                settings.dedupe.merchantSimilarity * 100
+                            )}
+                            %
                         </Text>
                         <Text
                             style={[
@@ -545,39 +826,373 @@ export default function SettingsScreen() {
                     </TouchableOpacity>
                 </View>
 
-                <TouchableOpacity
+                <View
                     style={[
-                        styles.backupButton,
-                        { backgroundColor: theme.colors.primary },
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
                     ]}
-                    onPress={() => router.push("/backup" as any)}
-                >
-                    <Text style={styles.backupButtonText}>Manage Backups</Text>
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                    style={styles.dangerButton}
-                    onPress={clearAllData}
-                >
-                    <Text style={styles.dangerButtonText}>Clear All Data</Text>
-                </TouchableOpacity>
-            </View>
-
-            {/* Reset Settings */}
-            <View
-                style={[
-                    styles.section,
-                    { backgroundColor: theme.colors.surface },
-                ]}
-            >
-                <TouchableOpacity
-                    style={styles.resetButton}
-                    onPress={resetSettings}
                 >
-                    <Text style={styles.resetButtonText}>
-                        Reset to Defaults
-                    </Text>
-                </TouchableOpacity>
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Amount Tolerance
+                    </Text>
+                    <TouchableOpacity
+                        style={styles.amountButton}
+                        onPress={() =>
+                            editDedupeNumber(
+                                "Amount Tolerance",
+                                "Largest amount difference still treated as the same charge:",
+                                "amountTolerance",
+                                (value) => value >= 0
+                            )
+                        }
+                    >
+                        <Text
+                            style={[
+                                styles.amountText,
+                                { color: theme.colors.primary },
+                            ]}
+                        >
+                            ${settings.dedupe.amountTolerance.toFixed(2)}
+                        </Text>
+                        <Text
+                            style={[
+                                styles.arrow,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            ›
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+
+                <View
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Require Matching Card
+                    </Text>
+                    <Switch
+                        value={settings.dedupe.matchCard}
+                        onValueChange={(value) =>
+                            updateSetting("dedupe", {
+                                ...settings.dedupe,
+                                matchCard: value,
+                            })
+                        }
+                        trackColor={{
+                            false: theme.colors.border,
+                            true: theme.colors.primary,
+                        }}
+                        thumbColor={
+                            settings.dedupe.matchCard
+                                ? theme.colors.surface
+                                : "#f4f3f4"
+                        }
+                    />
+                </View>
+            </View>
+
+            {/* Data Settings */}
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                <Text
+                    style={[styles.sectionTitle, { color: theme.colors.text }]}
+                >
+                    Data
+                </Text>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/categories" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Categories
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/accounts" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Accounts
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/budgets" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Budgets
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/subscriptions" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Subscriptions
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/import" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Import Transactions
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                    onPress={() => router.push("/reconcile" as any)}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Reconcile Statement
+                    </Text>
+                    <Text
+                        style={[
+                            styles.arrow,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        ›
+                    </Text>
+                </TouchableOpacity>
+
+                <View
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Auto Backup
+                    </Text>
+                    <Switch
+                        value={settings.autoBackup}
+                        onValueChange={(value) =>
+                            updateSetting("autoBackup", value)
+                        }
+                        trackColor={{
+                            false: theme.colors.border,
+                            true: theme.colors.primary,
+                        }}
+                        thumbColor={
+                            settings.autoBackup
+                                ? theme.colors.surface
+                                : "#f4f3f4"
+                        }
+                    />
+                </View>
+
+                <View
+                    style={[
+                        styles.settingItem,
+                        { borderBottomColor: theme.colors.border },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.settingLabel,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Max Amount Alert
+                    </Text>
+                    <TouchableOpacity
+                        style={styles.amountButton}
+                        onPress={() => {
+                            Alert.prompt(
+                                "Max Amount Alert",
+                                "Set the maximum amount for spending alerts:",
+                                [
+                                    { text: "Cancel", style: "cancel" },
+                                    {
+                                        text: "Set",
+                                        onPress: (value) => {
+                                            const amount = parseAmount(
+                                                value || "0"
+                                            );
+                                            if (amount > 0) {
+                                                updateSetting(
+                                                    "maxAmount",
+                                                    amount
+                                                );
+                                            }
+                                        },
+                                    },
+                                ],
+                                "plain-text",
+                                settings.maxAmount.toString()
+                            );
+                        }}
+                    >
+                        <Text
+                            style={[
+                                styles.amountText,
+                                { color: theme.colors.primary },
+                            ]}
+                        >
+                            ${settings.maxAmount}
+                        </Text>
+                        <Text
+                            style={[
+                                styles.arrow,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            ›
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity
+                    style={[
+                        styles.backupButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={() => router.push("/backup" as any)}
+                >
+                    <Text style={styles.backupButtonText}>Manage Backups</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.dangerButton}
+                    onPress={clearAllData}
+                >
+                    <Text style={styles.dangerButtonText}>Clear All Data</Text>
+                </TouchableOpacity>
+            </View>
+
+            {/* Reset Settings */}
+            <View
+                style={[
+                    styles.section,
+                    { backgroundColor: theme.colors.surface },
+                ]}
+            >
+                <TouchableOpacity
+                    style={styles.resetButton}
+                    onPress={resetSettings}
+                >
+                    <Text style={styles.resetButtonText}>
+                        Reset to Defaults
+                    </Text>
+                </TouchableOpacity>
             </View>
 
             {/* Add App Modal */}
@@ -657,6 +1272,218 @@ export default function SettingsScreen() {
                     </View>
                 </View>
             </Modal>
+
+            {/* Parsing Rule Modal */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={ruleModalVisible}
+                onRequestClose={() => setRuleModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {draftRule.id ? "Edit Rule" : "Add Rule"}
+                        </Text>
+
+                        <TextInput
+                            style={[
+                                styles.modalInput,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="com.example.bank"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={draftRule.packageName}
+                            onChangeText={(text) =>
+                                setDraftRule({
+                                    ...draftRule,
+                                    packageName: text,
+                                })
+                            }
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+
+                        <TextInput
+                            style={[
+                                styles.modalInput,
+                                styles.patternInput,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="\$(?<amount>[\d,.]+) at (?<merchant>.+)"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={draftRule.pattern}
+                            onChangeText={(text) =>
+                                setDraftRule({ ...draftRule, pattern: text })
+                            }
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            multiline
+                        />
+
+                        <TextInput
+                            style={[
+                                styles.modalInput,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            placeholder="Sample notification text"
+                            placeholderTextColor={theme.colors.textSecondary}
+                            value={sampleText}
+                            onChangeText={setSampleText}
+                            multiline
+                        />
+
+                        <Text
+                            style={[
+                                styles.rulePreview,
+                                {
+                                    color: theme.colors.text,
+                                    backgroundColor: theme.colors.background,
+                                },
+                            ]}
+                        >
+                            {renderRulePreview()}
+                        </Text>
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelModalButton,
+                                ]}
+                                onPress={() => setRuleModalVisible(false)}
+                            >
+                                <Text style={styles.cancelModalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+
+                            {draftRule.id ? (
+                                <TouchableOpacity
+                                    style={[
+                                        styles.modalButton,
+                                        styles.deleteModalButton,
+                                    ]}
+                                    onPress={() => deleteParsingRule(draftRule)}
+                                >
+                                    <Text style={styles.addModalButtonText}>
+                                        Delete
+                                    </Text>
+                                </TouchableOpacity>
+                            ) : null}
+
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.addModalButton,
+                                ]}
+                                onPress={saveParsingRule}
+                            >
+                                <Text style={styles.addModalButtonText}>
+                                    Save
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+
+            {/* Duplicate Detection Value Modal */}
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={dedupeEdit !== null}
+                onRequestClose={() => setDedupeEdit(null)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View
+                        style={[
+                            styles.modalContent,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.modalTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            {dedupeEdit?.title}
+                        </Text>
+                        <Text
+                            style={[
+                                styles.modalDescription,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            {dedupeEdit?.message}
+                        </Text>
+
+                        <TextInput
+                            style={[
+                                styles.modalInput,
+                                {
+                                    borderColor: theme.colors.border,
+                                    backgroundColor: theme.colors.background,
+                                    color: theme.colors.text,
+                                },
+                            ]}
+                            value={dedupeText}
+                            onChangeText={setDedupeText}
+                            keyboardType="decimal-pad"
+                            autoFocus
+                        />
+
+                        <View style={styles.modalButtons}>
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.cancelModalButton,
+                                ]}
+                                onPress={() => setDedupeEdit(null)}
+                            >
+                                <Text style={styles.cancelModalButtonText}>
+                                    Cancel
+                                </Text>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={[
+                                    styles.modalButton,
+                                    styles.addModalButton,
+                                ]}
+                                onPress={saveDedupeNumber}
+                            >
+                                <Text style={styles.addModalButtonText}>
+                                    Set
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
         </ScrollView>
     );
 }
@@ -756,6 +1583,27 @@ const styles = StyleSheet.create({
         flex: 1,
         fontFamily: "monospace",
     },
+    ruleInfo: {
+        flex: 1,
+        marginRight: 8,
+    },
+    rulePattern: {
+        fontSize: 12,
+        color: "#7f8c8d",
+        fontFamily: "monospace",
+        marginTop: 2,
+    },
+    patternInput: {
+        fontFamily: "monospace",
+        fontSize: 14,
+    },
+    rulePreview: {
+        fontSize: 13,
+        fontFamily: "monospace",
+        padding: 12,
+        borderRadius: 8,
+        marginBottom: 20,
+    },
     removeButton: {
         paddingHorizontal: 8,
         paddingVertical: 4,
@@ -871,6 +1719,9 @@ const styles = StyleSheet.create({
     addModalButton: {
         backgroundColor: "#27ae60",
     },
+    deleteModalButton: {
+        backgroundColor: "#e74c3c",
+    },
     cancelModalButtonText: {
         color: "#ffffff",
         fontSize: 16,
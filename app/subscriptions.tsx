@@ -0,0 +1,889 @@
+import React, { useEffect, useState } from "react";
+import {
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { CategoryPicker } from "../components/CategoryPicker";
+import { CurrencyPicker } from "../components/CurrencyPicker";
+import { DirectionPicker } from "../components/DirectionPicker";
+import { useTheme } from "../contexts/ThemeContext";
+import { Category } from "../utils/Categorizer";
+import { ExchangeRate } from "../utils/Currency";
+import { Database } from "../utils/DatabaseManager";
+import { DataValidator } from "../utils/DataValidator";
+import { formatMoney } from "../utils/Money";
+import {
+    dayKey,
+    detectSubscriptions,
+    FREQUENCY_LABELS,
+    generateRecurringSpending,
+    nextOccurrence,
+    RECURRING_FREQUENCIES,
+    RecurringFrequency,
+    RecurringTemplate,
+    SubscriptionSuggestion,
+    upcomingCharges,
+} from "../utils/Recurring";
+import { getSettings } from "../utils/SettingsService";
+import { isCredit, netTotal, TransactionDirection } from "../utils/Spending";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const emptyDraft = (currency: string) => ({
+    details: "",
+    amount: "",
+    currency,
+    direction: "debit" as TransactionDirection,
+    categoryId: null as number | null,
+    frequency: "monthly" as RecurringFrequency,
+    startDate: dayKey(new Date()),
+    endDate: "",
+});
+
+export default function SubscriptionsScreen() {
+    const { theme } = useTheme();
+    const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+    const [suggestions, setSuggestions] = useState<SubscriptionSuggestion[]>(
+        []
+    );
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [homeCurrency, setHomeCurrency] = useState("USD");
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [modalVisible, setModalVisible] = useState(false);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [draft, setDraft] = useState(emptyDraft("USD"));
+
+    useEffect(() => {
+        loadSubscriptions();
+    }, []);
+
+    const loadSubscriptions = async () => {
+        try {
+            const recurring = await Database.getRecurringTemplates();
+            const spending = await Database.getAllSpending();
+            const { currency } = await getSettings();
+            setTemplates(recurring);
+            setSuggestions(detectSubscriptions(spending, recurring, currency));
+            setCategories(await Database.getCategories());
+            setHomeCurrency(currency);
+            setExchangeRates(await Database.getExchangeRates());
+        } catch (error) {
+            console.log("Error loading subscriptions:", error);
+            Alert.alert("Error", "Failed to load subscriptions");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openEditor = (template?: RecurringTemplate) => {
+        setEditingId(template ? template.id : null);
+        setDraft(
+            template
+                ? {
+                      details: template.details,
+                      amount: template.amount.toString(),
+                      currency: template.currency || homeCurrency,
+                      direction: template.direction,
+                      categoryId: template.category_id,
+                      frequency: template.frequency,
+                      startDate: template.start_date,
+                      endDate: template.end_date ?? "",
+                  }
+                : emptyDraft(homeCurrency)
+        );
+        setModalVisible(true);
+    };
+
+    const saveTemplate = async () => {
+        const amountValidation = DataValidator.validateAmount(
+            draft.amount,
+            draft.currency
+        );
+        const detailsValidation = DataValidator.validateDetails(draft.details);
+        const validationErrors = [
+            amountValidation.error,
+            detailsValidation.error,
+        ].filter(Boolean);
+
+        const startDate = draft.startDate.trim();
+        const endDate = draft.endDate.trim();
+        if (
+            !DAY_PATTERN.test(startDate) ||
+            isNaN(new Date(startDate).getTime())
+        ) {
+            validationErrors.push("Start date must be YYYY-MM-DD");
+        }
+        if (
+            endDate &&
+            (!DAY_PATTERN.test(endDate) || isNaN(new Date(endDate).getTime()))
+        ) {
+            validationErrors.push("End date must be YYYY-MM-DD or empty");
+        } else if (endDate && endDate < startDate) {
+            validationErrors.push("End date must be after the start date");
+        }
+
+        if (validationErrors.length > 0) {
+            Alert.alert("Validation Error", validationErrors.join("\n"));
+            return;
+        }
+
+        const template = {
+            details: detailsValidation.value!,
+            amount: amountValidation.value!,
+            currency: draft.currency,
+            direction: draft.direction,
+            category_id: draft.categoryId,
+            frequency: draft.frequency,
+            start_date: startDate,
+            end_date: endDate || null,
+        };
+
+        try {
+            if (editingId === null) {
+                await Database.addRecurringTemplate(template);
+            } else {
+                await Database.updateRecurringTemplate(editingId, template);
+            }
+            setModalVisible(false);
+            // A start date in the past creates the missed occurrences now
+            await generateRecurringSpending();
+            await loadSubscriptions();
+        } catch (error) {
+            console.log("Error saving recurring template:", error);
+            Alert.alert("Error", "Failed to save subscription");
+        }
+    };
+
+    const deleteTemplate = (template: RecurringTemplate) => {
+        Alert.alert(
+            "Delete Subscription",
+            `Stop tracking "${template.details}"? Transactions already created are kept.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Delete",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await Database.deleteRecurringTemplate(template.id);
+                            await loadSubscriptions();
+                        } catch (error) {
+                            console.log(
+                                "Error deleting recurring template:",
+                                error
+                            );
+                            Alert.alert(
+                                "Error",
+                                "Failed to delete subscription"
+                            );
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    // Start from the last charge seen so it isn't created a second time
+    const trackSuggestion = async (suggestion: SubscriptionSuggestion) => {
+        try {
+            await Database.addRecurringTemplate(
+                {
+                    details: suggestion.details,
+                    amount: suggestion.amount,
+                    currency: suggestion.currency || homeCurrency,
+                    direction: "debit",
+                    category_id: suggestion.category_id,
+                    frequency: suggestion.frequency,
+                    start_date: suggestion.lastDate,
+                    end_date: null,
+                },
+                suggestion.lastDate
+            );
+            await generateRecurringSpending();
+            await loadSubscriptions();
+        } catch (error) {
+            console.log("Error tracking subscription:", error);
+            Alert.alert("Error", "Failed to track subscription");
+        }
+    };
+
+    const formatTemplateAmount = (item: {
+        amount: number;
+        currency: string | null;
+        direction?: string | null;
+    }) => {
+        const amount = formatMoney(item.amount, item.currency || homeCurrency);
+        return isCredit(item) ? `+${amount}` : amount;
+    };
+
+    const formatDay = (day: string) =>
+        new Date(`${day}T00:00:00`).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+        });
+
+    const upcoming = upcomingCharges(templates);
+    const upcomingTotal = netTotal(
+        upcoming.map(({ template }) => template),
+        homeCurrency,
+        exchangeRates
+    ).total;
+
+    if (loading) {
+        return (
+            <View
+                style={[
+                    styles.container,
+                    styles.centered,
+                    { backgroundColor: theme.colors.background },
+                ]}
+            >
+                <Text
+                    style={[
+                        styles.loadingText,
+                        { color: theme.colors.textSecondary },
+                    ]}
+                >
+                    Loading subscriptions...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <View
+            style={[
+                styles.container,
+                { backgroundColor: theme.colors.background },
+            ]}
+        >
+            <ScrollView>
+                <View style={styles.header}>
+                    <Text style={[styles.title, { color: theme.colors.text }]}>
+                        Subscriptions
+                    </Text>
+                    <Text
+                        style={[
+                            styles.subtitle,
+                            { color: theme.colors.textSecondary },
+                        ]}
+                    >
+                        Recurring transactions are added automatically when they
+                        come due. Tap one to edit it, long-press to delete.
+                    </Text>
+                </View>
+
+                <TouchableOpacity
+                    style={[
+                        styles.addButton,
+                        { backgroundColor: theme.colors.primary },
+                    ]}
+                    onPress={() => openEditor()}
+                >
+                    <Text style={styles.addButtonText}>+ Add Recurring</Text>
+                </TouchableOpacity>
+
+                <View
+                    style={[
+                        styles.section,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <View style={styles.sectionHeader}>
+                        <Text
+                            style={[
+                                styles.sectionTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            Next 30 Days
+                        </Text>
+                        <Text
+                            style={[
+                                styles.sectionTotal,
+                                { color: theme.colors.primary },
+                            ]}
+                        >
+                            {formatMoney(upcomingTotal, homeCurrency)}
+                        </Text>
+                    </View>
+                    {upcoming.length === 0 ? (
+                        <Text
+                            style={[
+                                styles.emptyText,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            Nothing due
+                        </Text>
+                    ) : (
+                        upcoming.map(({ template, date }) => (
+                            <View
+                                key={`${template.id}-${date}`}
+                                style={[
+                                    styles.row,
+                                    { borderBottomColor: theme.colors.border },
+                                ]}
+                            >
+                                <View style={styles.rowMain}>
+                                    <Text
+                                        style={[
+                                            styles.rowTitle,
+                                            { color: theme.colors.text },
+                                        ]}
+                                    >
+                                        {template.details}
+                                    </Text>
+                                    <Text
+                                        style={[
+                                            styles.rowMeta,
+                                            {
+                                                color: theme.colors
+                                                    .textSecondary,
+                                            },
+                                        ]}
+                                    >
+                                        {formatDay(date)}
+                                    </Text>
+                                </View>
+                                <Text
+                                    style={[
+                                        styles.rowAmount,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    {formatTemplateAmount(template)}
+                                </Text>
+                            </View>
+                        ))
+                    )}
+                </View>
+
+                <View
+                    style={[
+                        styles.section,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.sectionTitle,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        Recurring
+                    </Text>
+                    {templates.length === 0 ? (
+                        <Text
+                            style={[
+                                styles.emptyText,
+                                { color: theme.colors.textSecondary },
+                            ]}
+                        >
+                            No recurring transactions yet
+                        </Text>
+                    ) : (
+                        templates.map((template) => {
+                            const next = nextOccurrence(
+                                template,
+                                template.last_generated ?? ""
+                            );
+                            const category = categories.find(
+                                (c) => c.id === template.category_id
+                            );
+                            return (
+                                <TouchableOpacity
+                                    key={template.id}
+                                    style={[
+                                        styles.row,
+                                        {
+                                            borderBottomColor:
+                                                theme.colors.border,
+                                        },
+                                    ]}
+                                    onPress={() => openEditor(template)}
+                                    onLongPress={() => deleteTemplate(template)}
+                                >
+                                    <View style={styles.rowMain}>
+                                        <Text
+                                            style={[
+                                                styles.rowTitle,
+                                                { color: theme.colors.text },
+                                            ]}
+                                        >
+                                            {category
+                                                ? `${category.icon} `
+                                                : ""}
+                                            {template.details}
+                                        </Text>
+                                        <Text
+                                            style={[
+                                                styles.rowMeta,
+                                                {
+                                                    color: theme.colors
+                                                        .textSecondary,
+                                                },
+                                            ]}
+                                        >
+                                            {FREQUENCY_LABELS[
+                                                template.frequency
+                                            ] +
+                                                (next
+                                                    ? ` · next ${formatDay(
+                                                          next
+                                                      )}`
+                                                    : " · ended")}
+                                        </Text>
+                                    </View>
+                                    <Text
+                                        style={[
+                                            styles.rowAmount,
+                                            {
+                                                color: isCredit(template)
+                                                    ? theme.colors.success
+                                                    : theme.colors.text,
+                                            },
+                                        ]}
+                                    >
+                                        {formatTemplateAmount(template)}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })
+                    )}
+                </View>
+
+                {suggestions.length > 0 ? (
+                    <View
+                        style={[
+                            styles.section,
+                            { backgroundColor: theme.colors.surface },
+                        ]}
+                    >
+                        <Text
+                            style={[
+                                styles.sectionTitle,
+                                { color: theme.colors.text },
+                            ]}
+                        >
+                            Possible Subscriptions
+                        </Text>
+                        {suggestions.map((suggestion) => (
+                            <View
+                                key={`${suggestion.details}-${suggestion.amount}-${suggestion.currency}`}
+                                style={[
+                                    styles.row,
+                                    { borderBottomColor: theme.colors.border },
+                                ]}
+                            >
+                                <View style={styles.rowMain}>
+                                    <Text
+                                        style={[
+                                            styles.rowTitle,
+                                            { color: theme.colors.text },
+                                        ]}
+                                    >
+                                        {suggestion.details}
+                                    </Text>
+                                    <Text
+                                        style={[
+                                            styles.rowMeta,
+                                            {
+                                                color: theme.colors
+                                                    .textSecondary,
+                                            },
+                                        ]}
+                                    >
+                                        {`${formatTemplateAmount(
+                                            suggestion
+                                        )} ${FREQUENCY_LABELS[
+                                            suggestion.frequency
+                                        ].toLowerCase()} · seen ${
+                                            suggestion.count
+                                        } times`}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity
+                                    style={[
+                                        styles.trackButton,
+                                        {
+                                            backgroundColor:
+                                                theme.colors.success,
+                                        },
+                                    ]}
+                                    onPress={() => trackSuggestion(suggestion)}
+                                >
+                                    <Text style={styles.trackButtonText}>
+                                        Track
+                                    </Text>
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                    </View>
+                ) : null}
+            </ScrollView>
+
+            <Modal
+                animationType="slide"
+                transparent={true}
+                visible={modalVisible}
+                onRequestClose={() => setModalVisible(false)}
+            >
+                <View style={styles.modalOverlay}>
+                    <ScrollView
+                        contentContainerStyle={styles.modalScroll}
+                        keyboardShouldPersistTaps="handled"
+                    >
+                        <View
+                            style={[
+                                styles.modalContent,
+                                { backgroundColor: theme.colors.surface },
+                            ]}
+                        >
+                            <Text
+                                style={[
+                                    styles.modalTitle,
+                                    { color: theme.colors.text },
+                                ]}
+                            >
+                                {editingId === null
+                                    ? "Add Recurring"
+                                    : "Edit Recurring"}
+                            </Text>
+
+                            <DirectionPicker
+                                value={draft.direction}
+                                onChange={(direction) =>
+                                    setDraft({ ...draft, direction })
+                                }
+                            />
+
+                            <CurrencyPicker
+                                value={draft.currency}
+                                onChange={(currency) =>
+                                    setDraft({ ...draft, currency })
+                                }
+                            />
+
+                            {(
+                                [
+                                    ["amount", "Amount", "numeric"],
+                                    ["details", "Details", "default"],
+                                ] as const
+                            ).map(([field, placeholder, keyboardType]) => (
+                                <TextInput
+                                    key={field}
+                                    style={[
+                                        styles.input,
+                                        {
+                                            borderColor: theme.colors.border,
+                                            backgroundColor:
+                                                theme.colors.background,
+                                            color: theme.colors.text,
+                                        },
+                                    ]}
+                                    placeholder={placeholder}
+                                    placeholderTextColor={
+                                        theme.colors.textSecondary
+                                    }
+                                    value={draft[field]}
+                                    onChangeText={(text) =>
+                                        setDraft({ ...draft, [field]: text })
+                                    }
+                                    keyboardType={keyboardType}
+                                />
+                            ))}
+
+                            <CategoryPicker
+                                categories={categories}
+                                value={draft.categoryId}
+                                onChange={(categoryId) =>
+                                    setDraft({ ...draft, categoryId })
+                                }
+                            />
+
+                            <View style={styles.frequencyRow}>
+                                {RECURRING_FREQUENCIES.map((frequency) => {
+                                    const selected =
+                                        frequency === draft.frequency;
+                                    return (
+                                        <TouchableOpacity
+                                            key={frequency}
+                                            style={[
+                                                styles.frequencyOption,
+                                                {
+                                                    borderColor:
+                                                        theme.colors.primary,
+                                                },
+                                                selected && {
+                                                    backgroundColor:
+                                                        theme.colors.primary,
+                                                },
+                                            ]}
+                                            onPress={() =>
+                                                setDraft({
+                                                    ...draft,
+                                                    frequency,
+                                                })
+                                            }
+                                        >
+                                            <Text
+                                                style={[
+                                                    styles.frequencyText,
+                                                    {
+                                                        color: selected
+                                                            ? "#ffffff"
+                                                            : theme.colors.text,
+                                                    },
+                                                ]}
+                                            >
+                                                {FREQUENCY_LABELS[frequency]}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+
+                            {(
+                                [
+                                    ["startDate", "Start date (YYYY-MM-DD)"],
+                                    [
+                                        "endDate",
+                                        "End date (YYYY-MM-DD, optional)",
+                                    ],
+                                ] as const
+                            ).map(([field, placeholder]) => (
+                                <TextInput
+                                    key={field}
+                                    style={[
+                                        styles.input,
+                                        {
+                                            borderColor: theme.colors.border,
+                                            backgroundColor:
+                                                theme.colors.background,
+                                            color: theme.colors.text,
+                                        },
+                                    ]}
+                                    placeholder={placeholder}
+                                    placeholderTextColor={
+                                        theme.colors.textSecondary
+                                    }
+                                    value={draft[field]}
+                                    onChangeText={(text) =>
+                                        setDraft({ ...draft, [field]: text })
+                                    }
+                                />
+                            ))}
+
+                            <View style={styles.modalButtons}>
+                                <TouchableOpacity
+                                    style={[
+                                        styles.modalButton,
+                                        styles.cancelButton,
+                                    ]}
+                                    onPress={() => setModalVisible(false)}
+                                >
+                                    <Text style={styles.modalButtonText}>
+                                        Cancel
+                                    </Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[
+                                        styles.modalButton,
+                                        {
+                                            backgroundColor:
+                                                theme.colors.primary,
+                                        },
+                                    ]}
+                                    onPress={saveTemplate}
+                                >
+                                    <Text style={styles.modalButtonText}>
+                                        Save
+                                    </Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    </ScrollView>
+                </View>
+            </Modal>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: "#f8f9fa",
+        padding: 16,
+    },
+    centered: {
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    loadingText: {
+        fontSize: 16,
+        color: "#7f8c8d",
+    },
+    header: {
+        marginBottom: 16,
+        paddingVertical: 10,
+    },
+    title: {
+        fontSize: 28,
+        fontWeight: "bold",
+        color: "#2c3e50",
+    },
+    subtitle: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        marginTop: 4,
+    },
+    addButton: {
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginBottom: 16,
+    },
+    addButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    section: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+    },
+    sectionHeader: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 8,
+    },
+    sectionTotal: {
+        fontSize: 16,
+        fontWeight: "600",
+        marginBottom: 8,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: "#7f8c8d",
+        fontStyle: "italic",
+        paddingVertical: 8,
+    },
+    row: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: "#ecf0f1",
+    },
+    rowMain: {
+        flex: 1,
+        marginRight: 8,
+    },
+    rowTitle: {
+        fontSize: 16,
+        color: "#2c3e50",
+    },
+    rowMeta: {
+        fontSize: 12,
+        color: "#7f8c8d",
+        marginTop: 2,
+    },
+    rowAmount: {
+        fontSize: 16,
+        fontWeight: "600",
+    },
+    trackButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 6,
+    },
+    trackButtonText: {
+        color: "#ffffff",
+        fontSize: 14,
+        fontWeight: "600",
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+    },
+    modalScroll: {
+        flexGrow: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        paddingVertical: 40,
+    },
+    modalContent: {
+        backgroundColor: "#ffffff",
+        borderRadius: 12,
+        padding: 20,
+        width: "90%",
+        maxWidth: 400,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#2c3e50",
+        marginBottom: 20,
+        textAlign: "center",
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: "#bdc3c7",
+        borderRadius: 8,
+        padding: 12,
+        fontSize: 16,
+        marginBottom: 16,
+    },
+    frequencyRow: {
+        flexDirection: "row",
+        marginBottom: 16,
+    },
+    frequencyOption: {
+        flex: 1,
+        paddingVertical: 8,
+        borderWidth: 1,
+        borderRadius: 6,
+        alignItems: "center",
+        marginHorizontal: 3,
+    },
+    frequencyText: {
+        fontSize: 14,
+        fontWeight: "500",
+    },
+    modalButtons: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+    },
+    modalButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        marginHorizontal: 4,
+    },
+    cancelButton: {
+        backgroundColor: "#95a5a6",
+    },
+    modalButtonText: {
+        color: "#ffffff",
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
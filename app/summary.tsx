@@ -1,15 +1,35 @@
-import * as SQLite from "expo-sqlite";
 import React, { useEffect, useState } from "react";
 import { ScrollView, StyleSheet, Text, View } from "react-native";
+import { AccountPicker } from "../components/AccountPicker";
 import { useTheme } from "../contexts/ThemeContext";
-
-// Database connection
-const db = SQLite.openDatabaseSync("spending.db");
+import {
+    Account,
+    accountLabel,
+    accountTotals,
+    AccountTotal,
+} from "../utils/Accounts";
+import { Category } from "../utils/Categorizer";
+import { ExchangeRate, toHomeAmount } from "../utils/Currency";
+import { formatMoney, sumAmounts } from "../utils/Money";
+import { Database, Spending } from "../utils/DatabaseManager";
+import { getSettings } from "../utils/SettingsService";
+import { isCredit, netTotal } from "../utils/Spending";
+import { categoryTotals, CategoryTotal, SpendingLine } from "../utils/Splits";
 
 export default function SummaryScreen() {
     const { theme } = useTheme();
-    const [spendingData, setSpendingData] = useState<any[]>([]);
+    const [allSpending, setAllSpending] = useState<Spending[]>([]);
+    const [monthLines, setMonthLines] = useState<SpendingLine[]>([]);
+    const [spendingData, setSpendingData] = useState<Spending[]>([]);
     const [loading, setLoading] = useState(true);
+    const [homeCurrency, setHomeCurrency] = useState("USD");
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [monthByCategory, setMonthByCategory] = useState<CategoryTotal[]>([]);
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [monthByAccount, setMonthByAccount] = useState<AccountTotal[]>([]);
+    // null shows every account
+    const [accountFilter, setAccountFilter] = useState<number | null>(null);
     const [stats, setStats] = useState({
         totalSpent: 0,
         averageSpending: 0,
@@ -24,14 +44,44 @@ export default function SummaryScreen() {
         loadSummaryData();
     }, []);
 
+    useEffect(() => {
+        const inAccount = <T extends { account_id?: number | null }>(
+            rows: T[]
+        ) =>
+            accountFilter === null
+                ? rows
+                : rows.filter((row) => row.account_id === accountFilter);
+
+        const data = inAccount(allSpending);
+        setSpendingData(data);
+        // Stats are in the home currency; rows keep their own for display
+        calculateStats(data, homeCurrency, exchangeRates);
+        // Split transactions count towards each of their lines' categories
+        setMonthByCategory(
+            categoryTotals(inAccount(monthLines), homeCurrency, exchangeRates)
+        );
+        // The account breakdown always covers every account
+        setMonthByAccount(
+            accountTotals(monthLines, homeCurrency, exchangeRates)
+        );
+    }, [accountFilter, allSpending, monthLines, homeCurrency, exchangeRates]);
+
     const loadSummaryData = async () => {
         try {
             setLoading(true);
-            const data = await db.getAllAsync(
-                "SELECT * FROM spending ORDER BY date DESC"
-            );
-            setSpendingData(data);
-            calculateStats(data);
+            // Only accepted transactions; pending captures are excluded
+            const data = await Database.getAllSpending();
+            const { currency } = await getSettings();
+            const now = new Date();
+            const monthStart = `${now.getFullYear()}-${String(
+                now.getMonth() + 1
+            ).padStart(2, "0")}-01`;
+            setCategories(await Database.getCategories());
+            setAccounts(await Database.getAccounts());
+            setExchangeRates(await Database.getExchangeRates());
+            setHomeCurrency(currency);
+            setMonthLines(await Database.getSpendingLines(monthStart));
+            setAllSpending(data);
         } catch (error) {
             console.log("Error loading summary data:", error);
         } finally {
@@ -39,7 +89,11 @@ export default function SummaryScreen() {
         }
     };
 
-    const calculateStats = (data: any[]) => {
+    const calculateStats = (
+        data: Spending[],
+        currency: string,
+        rates: ExchangeRate[]
+    ) => {
         if (data.length === 0) {
             setStats({
                 totalSpent: 0,
@@ -53,8 +107,12 @@ export default function SummaryScreen() {
             return;
         }
 
-        const amounts = data.map((item) => item.amount);
-        const totalSpent = amounts.reduce((sum, amount) => sum + amount, 0);
+        // Credits and refunds net against the totals but aren't spending
+        // in their own right, so they're left out of the per-item stats
+        const amounts = data
+            .filter((item) => !isCredit(item))
+            .map((item) => toHomeAmount(item, currency, rates));
+        const totalSpent = netTotal(data, currency, rates).total;
 
         const now = new Date();
         const thisMonth = now.getMonth();
@@ -78,28 +136,32 @@ export default function SummaryScreen() {
             );
         });
 
-        const thisMonthSpending = thisMonthData.reduce(
-            (sum, item) => sum + item.amount,
-            0
-        );
-        const lastMonthSpending = lastMonthData.reduce(
-            (sum, item) => sum + item.amount,
-            0
-        );
+        const thisMonthSpending = netTotal(
+            thisMonthData,
+            currency,
+            rates
+        ).total;
+        const lastMonthSpending = netTotal(
+            lastMonthData,
+            currency,
+            rates
+        ).total;
+
+        const debitTotal = sumAmounts(amounts, currency);
 
         setStats({
             totalSpent,
-            averageSpending: totalSpent / data.length,
-            highestSpending: Math.max(...amounts),
-            lowestSpending: Math.min(...amounts),
+            averageSpending: amounts.length ? debitTotal / amounts.length : 0,
+            highestSpending: amounts.length ? Math.max(...amounts) : 0,
+            lowestSpending: amounts.length ? Math.min(...amounts) : 0,
             totalTransactions: data.length,
             thisMonthSpending,
             lastMonthSpending,
         });
     };
 
-    const formatAmount = (amount: number) => {
-        return `$${amount.toFixed(2)}`;
+    const formatAmount = (amount: number, currency: string = homeCurrency) => {
+        return formatMoney(amount, currency);
     };
 
     const formatMonth = (month: number, year: number) => {
@@ -185,6 +247,15 @@ export default function SummaryScreen() {
                 </Text>
             </View>
 
+            {accounts.length > 0 && (
+                <AccountPicker
+                    accounts={accounts}
+                    value={accountFilter}
+                    onChange={setAccountFilter}
+                    noneLabel="All Accounts"
+                />
+            )}
+
             <View style={styles.statsContainer}>
                 <View
                     style={[
@@ -321,6 +392,110 @@ export default function SummaryScreen() {
                 </View>
             </View>
 
+            {monthByCategory.length > 0 && (
+                <View
+                    style={[
+                        styles.recentContainer,
+                        styles.breakdownContainer,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.sectionTitle,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        This Month by Category
+                    </Text>
+                    {monthByCategory.map((item) => {
+                        const category = categories.find(
+                            (c) => c.id === item.categoryId
+                        );
+                        return (
+                            <View
+                                key={item.categoryId ?? "none"}
+                                style={[
+                                    styles.recentItem,
+                                    { borderBottomColor: theme.colors.border },
+                                ]}
+                            >
+                                <Text
+                                    style={[
+                                        styles.recentDetails,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    {category
+                                        ? `${category.icon} ${category.name}`
+                                        : "Uncategorized"}
+                                </Text>
+                                <Text
+                                    style={[
+                                        styles.recentAmount,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    {formatAmount(item.total)}
+                                </Text>
+                            </View>
+                        );
+                    })}
+                </View>
+            )}
+
+            {accounts.length > 0 && monthByAccount.length > 0 && (
+                <View
+                    style={[
+                        styles.recentContainer,
+                        styles.breakdownContainer,
+                        { backgroundColor: theme.colors.surface },
+                    ]}
+                >
+                    <Text
+                        style={[
+                            styles.sectionTitle,
+                            { color: theme.colors.text },
+                        ]}
+                    >
+                        This Month by Account
+                    </Text>
+                    {monthByAccount.map((item) => {
+                        const account = accounts.find(
+                            (a) => a.id === item.accountId
+                        );
+                        return (
+                            <View
+                                key={item.accountId ?? "none"}
+                                style={[
+                                    styles.recentItem,
+                                    { borderBottomColor: theme.colors.border },
+                                ]}
+                            >
+                                <Text
+                                    style={[
+                                        styles.recentDetails,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    {account
+                                        ? accountLabel(account)
+                                        : "No Account"}
+                                </Text>
+                                <Text
+                                    style={[
+                                        styles.recentAmount,
+                                        { color: theme.colors.text },
+                                    ]}
+                                >
+                                    {formatAmount(item.total)}
+                                </Text>
+                            </View>
+                        );
+                    })}
+                </View>
+            )}
+
             <View
                 style={[
                     styles.recentContainer,
@@ -344,10 +519,18 @@ export default function SummaryScreen() {
                             <Text
                                 style={[
                                     styles.recentAmount,
-                                    { color: theme.colors.error },
+                                    {
+                                        color: isCredit(item)
+                                            ? theme.colors.success
+                                            : theme.colors.error,
+                                    },
                                 ]}
                             >
-                                {formatAmount(item.amount)}
+                                {isCredit(item) ? "+" : ""}
+                                {formatAmount(
+                                    item.amount,
+                                    item.currency || homeCurrency
+                                )}
                             </Text>
                             <Text
                                 style={[
@@ -465,6 +648,9 @@ const styles = StyleSheet.create({
         shadowRadius: 4,
         elevation: 3,
     },
+    breakdownContainer: {
+        marginBottom: 16,
+    },
     sectionTitle: {
         fontSize: 18,
         fontWeight: "bold",
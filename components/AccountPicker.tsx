@@ -0,0 +1,85 @@
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { Account, accountLabel } from "../utils/Accounts";
+
+interface Props {
+  accounts: Account[];
+  value: number | null;
+  onChange: (accountId: number | null) => void;
+  noneLabel?: string;
+}
+
+// Horizontal row of account chips, with "None" to leave a row unassigned
+export const AccountPicker: React.FC<Props> = ({
+  accounts,
+  value,
+  onChange,
+  noneLabel = "None",
+}) => {
+  const { theme } = useTheme();
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: theme.colors.primary },
+        selected && { backgroundColor: theme.colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          { color: selected ? "#ffffff" : theme.colors.text },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {renderChip("none", noneLabel, value === null, () => onChange(null))}
+        {accounts.map((account) =>
+          renderChip(
+            account.id.toString(),
+            accountLabel(account),
+            account.id === value,
+            () => onChange(account.id)
+          )
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,112 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { BudgetProgress } from "../utils/Budgets";
+import { Category } from "../utils/Categorizer";
+import { formatMoney } from "../utils/Money";
+
+interface Props {
+  progress: BudgetProgress[];
+  categories: Category[];
+  // Home currency the budgets are set in
+  currency: string;
+  onPress?: () => void;
+}
+
+// One progress bar per budget, colored by how much of it is used
+export const BudgetBars: React.FC<Props> = ({
+  progress,
+  categories,
+  currency,
+  onPress,
+}) => {
+  const { theme } = useTheme();
+
+  if (progress.length === 0) {
+    return null;
+  }
+
+  const barColor = (ratio: number) => {
+    if (ratio >= 1) return theme.colors.error;
+    if (ratio >= 0.8) return theme.colors.warning;
+    return theme.colors.success;
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, { backgroundColor: theme.colors.surface }]}
+      onPress={onPress}
+      disabled={!onPress}
+    >
+      {progress.map((item) => {
+        const category = categories.find(
+          (c) => c.id === item.budget.category_id
+        );
+        const label = category
+          ? `${category.icon} ${category.name}`
+          : "Overall";
+        return (
+          <View key={item.budget.id} style={styles.row}>
+            <View style={styles.labels}>
+              <Text style={[styles.label, { color: theme.colors.text }]}>
+                {label}
+              </Text>
+              <Text
+                style={[styles.amounts, { color: theme.colors.textSecondary }]}
+              >
+                {formatMoney(item.spent, currency)} /{" "}
+                {formatMoney(item.limit, currency)}
+                {item.carriedOver > 0
+                  ? ` (+${formatMoney(item.carriedOver, currency)} rolled over)`
+                  : ""}
+              </Text>
+            </View>
+            <View style={[styles.track, { backgroundColor: theme.colors.border }]}>
+              <View
+                style={[
+                  styles.fill,
+                  {
+                    width: `${Math.min(item.ratio, 1) * 100}%`,
+                    backgroundColor: barColor(item.ratio),
+                  },
+                ]}
+              />
+            </View>
+          </View>
+        );
+      })}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  row: {
+    marginBottom: 8,
+  },
+  labels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  amounts: {
+    fontSize: 12,
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  fill: {
+    height: 8,
+    borderRadius: 4,
+  },
+});
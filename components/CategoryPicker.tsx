@@ -0,0 +1,94 @@
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { Category } from "../utils/Categorizer";
+
+interface Props {
+  categories: Category[];
+  value: number | null;
+  onChange: (categoryId: number | null) => void;
+  // Label for the "no category" chip, e.g. "Auto" when rules will decide
+  noneLabel?: string;
+}
+
+// Horizontal row of category chips, with "None" to leave a row uncategorized
+export const CategoryPicker: React.FC<Props> = ({
+  categories,
+  value,
+  onChange,
+  noneLabel = "None",
+}) => {
+  const { theme } = useTheme();
+
+  const renderChip = (
+    key: string,
+    label: string,
+    color: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: color },
+        selected && { backgroundColor: color },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          { color: selected ? "#ffffff" : theme.colors.text },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {renderChip(
+          "none",
+          noneLabel,
+          theme.colors.textSecondary,
+          value === null,
+          () => onChange(null)
+        )}
+        {categories.map((category) =>
+          renderChip(
+            category.id.toString(),
+            `${category.icon} ${category.name}`,
+            category.color,
+            category.id === value,
+            () => onChange(category.id)
+          )
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,72 @@
+import React from "react";
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { CURRENCY_CODES } from "../utils/Money";
+
+interface Props {
+  value: string;
+  onChange: (currency: string) => void;
+}
+
+// Horizontal row of currency codes for a single transaction
+export const CurrencyPicker: React.FC<Props> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+
+  // Keep a code we don't list (e.g. from a parsed notification) selectable
+  const codes = CURRENCY_CODES.includes(value)
+    ? CURRENCY_CODES
+    : [value, ...CURRENCY_CODES];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {codes.map((code) => {
+          const selected = code === value;
+          return (
+            <TouchableOpacity
+              key={code}
+              style={[
+                styles.chip,
+                { borderColor: theme.colors.primary },
+                selected && { backgroundColor: theme.colors.primary },
+              ]}
+              onPress={() => onChange(code)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  { color: selected ? "#ffffff" : theme.colors.text },
+                ]}
+              >
+                {code}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
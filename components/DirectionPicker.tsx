@@ -0,0 +1,65 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import {
+  DIRECTION_LABELS,
+  TRANSACTION_DIRECTIONS,
+  TransactionDirection,
+} from "../utils/Spending";
+
+interface Props {
+  value: TransactionDirection;
+  onChange: (direction: TransactionDirection) => void;
+}
+
+// Segmented control for choosing spending, credit or refund
+export const DirectionPicker: React.FC<Props> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+
+  return (
+    <View style={styles.container}>
+      {TRANSACTION_DIRECTIONS.map((direction) => {
+        const selected = direction === value;
+        return (
+          <TouchableOpacity
+            key={direction}
+            style={[
+              styles.option,
+              { borderColor: theme.colors.primary },
+              selected && { backgroundColor: theme.colors.primary },
+            ]}
+            onPress={() => onChange(direction)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                { color: selected ? "#ffffff" : theme.colors.text },
+              ]}
+            >
+              {DIRECTION_LABELS[direction]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    marginBottom: 16,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: "center",
+    marginHorizontal: 3,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { Account, accountLabel } from "../utils/Accounts";
+import { Category } from "../utils/Categorizer";
+import {
+  draftFromFilter,
+  EMPTY_FILTER,
+  FILTER_SOURCES,
+  FilterDraft,
+  filterFromDraft,
+  SOURCE_LABELS,
+  SpendingFilter,
+} from "../utils/SpendingFilter";
+
+interface Props {
+  visible: boolean;
+  filter: SpendingFilter;
+  categories: Category[];
+  accounts: Account[];
+  onApply: (filter: SpendingFilter) => void;
+  onSaveView: (name: string, filter: SpendingFilter) => void;
+  onClose: () => void;
+}
+
+// Toggle a value in a multi-select list
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+
+// Date, amount, category, account, source and tag conditions, combined with
+// AND or OR
+export const FilterBuilder: React.FC<Props> = ({
+  visible,
+  filter,
+  categories,
+  accounts,
+  onApply,
+  onSaveView,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState<FilterDraft>(draftFromFilter(filter));
+  const [viewName, setViewName] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(draftFromFilter(filter));
+      setViewName("");
+    }
+  }, [visible, filter]);
+
+  const update = (changes: Partial<FilterDraft>) =>
+    setDraft({ ...draft, ...changes });
+
+  const build = (): SpendingFilter | null => {
+    const { filter: built, error } = filterFromDraft(draft);
+    if (error || !built) {
+      Alert.alert("Invalid Filter", error ?? "Check the filter values");
+      return null;
+    }
+    return built;
+  };
+
+  const apply = () => {
+    const built = build();
+    if (built) {
+      onApply(built);
+    }
+  };
+
+  const saveView = () => {
+    const name = viewName.trim();
+    if (!name) {
+      Alert.alert("Name Required", "Enter a name for the view");
+      return;
+    }
+    const built = build();
+    if (!built) {
+      return;
+    }
+    if (built.conditions.length === 0) {
+      Alert.alert("Empty Filter", "Add at least one condition to save a view");
+      return;
+    }
+    onSaveView(name, built);
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+    },
+  ];
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: theme.colors.primary },
+        selected && { backgroundColor: theme.colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          { color: selected ? "#ffffff" : theme.colors.text },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderLabel = (label: string) => (
+    <Text style={[styles.label, { color: theme.colors.textSecondary }]}>
+      {label}
+    </Text>
+  );
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View
+          style={[styles.content, { backgroundColor: theme.colors.surface }]}
+        >
+          <Text style={[styles.title, { color: theme.colors.text }]}>
+            Filter Spending
+          </Text>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            {renderLabel("Match")}
+            <View style={styles.chipRow}>
+              {renderChip("all", "All conditions", draft.match === "all", () =>
+                update({ match: "all" })
+              )}
+              {renderChip("any", "Any condition", draft.match === "any", () =>
+                update({ match: "any" })
+              )}
+            </View>
+
+            {renderLabel("Date")}
+            <View style={styles.pair}>
+              <TextInput
+                style={[inputStyle, styles.pairInput]}
+                placeholder="From (YYYY-MM-DD)"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={draft.dateFrom}
+                onChangeText={(text) => update({ dateFrom: text })}
+              />
+              <TextInput
+                style={[inputStyle, styles.pairInput]}
+                placeholder="To (YYYY-MM-DD)"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={draft.dateTo}
+                onChangeText={(text) => update({ dateTo: text })}
+              />
+            </View>
+
+            {renderLabel("Amount")}
+            <View style={styles.pair}>
+              <TextInput
+                style={[inputStyle, styles.pairInput]}
+                placeholder="Min"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={draft.amountMin}
+                onChangeText={(text) => update({ amountMin: text })}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[inputStyle, styles.pairInput]}
+                placeholder="Max"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={draft.amountMax}
+                onChangeText={(text) => update({ amountMax: text })}
+                keyboardType="numeric"
+              />
+            </View>
+
+            {renderLabel("Category")}
+            <View style={styles.chipRow}>
+              {renderChip(
+                "none",
+                "Uncategorized",
+                draft.categoryIds.includes(null),
+                () => update({ categoryIds: toggle(draft.categoryIds, null) })
+              )}
+              {categories.map((category) =>
+                renderChip(
+                  category.id.toString(),
+                  `${category.icon} ${category.name}`,
+                  draft.categoryIds.includes(category.id),
+                  () =>
+                    update({
+                      categoryIds: toggle(draft.categoryIds, category.id),
+                    })
+                )
+              )}
+            </View>
+
+            {accounts.length > 0 && (
+              <>
+                {renderLabel("Account")}
+                <View style={styles.chipRow}>
+                  {renderChip(
+                    "none",
+                    "No Account",
+                    draft.accountIds.includes(null),
+                    () => update({ accountIds: toggle(draft.accountIds, null) })
+                  )}
+                  {accounts.map((account) =>
+                    renderChip(
+                      account.id.toString(),
+                      accountLabel(account),
+                      draft.accountIds.includes(account.id),
+                      () =>
+                        update({
+                          accountIds: toggle(draft.accountIds, account.id),
+                        })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            {renderLabel("Source")}
+            <View style={styles.chipRow}>
+              {FILTER_SOURCES.map((source) =>
+                renderChip(
+                  source,
+                  SOURCE_LABELS[source],
+                  draft.sources.includes(source),
+                  () => update({ sources: toggle(draft.sources, source) })
+                )
+              )}
+            </View>
+
+            {renderLabel("Tags")}
+            <TextInput
+              style={inputStyle}
+              placeholder="Has any of (e.g., travel, work)"
+              placeholderTextColor={theme.colors.textSecondary}
+              value={draft.includeTags}
+              onChangeText={(text) => update({ includeTags: text })}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={inputStyle}
+              placeholder="Has none of"
+              placeholderTextColor={theme.colors.textSecondary}
+              value={draft.excludeTags}
+              onChangeText={(text) => update({ excludeTags: text })}
+              autoCapitalize="none"
+            />
+
+            {renderLabel("Save as View")}
+            <View style={styles.pair}>
+              <TextInput
+                style={[inputStyle, styles.pairInput]}
+                placeholder="View name"
+                placeholderTextColor={theme.colors.textSecondary}
+                value={viewName}
+                onChangeText={setViewName}
+              />
+              <TouchableOpacity
+                style={[styles.saveView, { borderColor: theme.colors.primary }]}
+                onPress={saveView}
+              >
+                <Text style={{ color: theme.colors.primary }}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.colors.error }]}
+              onPress={() => onApply(EMPTY_FILTER)}
+            >
+              <Text style={styles.buttonText}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.colors.primary }]}
+              onPress={apply}
+            >
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    width: "90%",
+    maxWidth: 400,
+    maxHeight: "85%",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  body: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  pair: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  pairInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  saveView: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  buttons: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginHorizontal: 4,
+  },
+  cancelButton: {
+    backgroundColor: "#95a5a6",
+  },
+  buttonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useTheme } from "../contexts/ThemeContext";
+import { Category } from "../utils/Categorizer";
+import { formatMoney } from "../utils/Money";
+import { SplitDraft, splitRemainder, validateSplits } from "../utils/Splits";
+import { CategoryPicker } from "./CategoryPicker";
+
+interface Props {
+  visible: boolean;
+  // Parent transaction amount and currency the lines must add up to
+  amount: number;
+  currency: string;
+  categories: Category[];
+  splits: SplitDraft[];
+  onSave: (splits: SplitDraft[]) => void;
+  onClose: () => void;
+}
+
+const emptyLine = (): SplitDraft => ({ amount: "", categoryId: null, note: "" });
+
+// Break one transaction into category lines that add up to its amount
+export const SplitEditor: React.FC<Props> = ({
+  visible,
+  amount,
+  currency,
+  categories,
+  splits,
+  onSave,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [lines, setLines] = useState<SplitDraft[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setLines(splits.length > 0 ? splits : [emptyLine(), emptyLine()]);
+    }
+  }, [visible, splits]);
+
+  const updateLine = (index: number, changes: Partial<SplitDraft>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Fill the last line with whatever is left
+  const fillRemainder = (index: number) => {
+    const others = lines.filter((_, i) => i !== index);
+    const remainder = splitRemainder(others, amount, currency);
+    if (remainder > 0) {
+      updateLine(index, { amount: remainder.toString() });
+    }
+  };
+
+  const save = () => {
+    const { error } = validateSplits(lines, amount, currency);
+    if (error) {
+      Alert.alert("Split Doesn't Add Up", error);
+      return;
+    }
+    onSave(lines);
+  };
+
+  const remainder = splitRemainder(lines, amount, currency);
+  const inputStyle = [
+    styles.input,
+    {
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+    },
+  ];
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.colors.surface }]}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>
+            Split {formatMoney(amount, currency)}
+          </Text>
+          <Text
+            style={[
+              styles.remainder,
+              {
+                color:
+                  remainder === 0 ? theme.colors.success : theme.colors.warning,
+              },
+            ]}
+          >
+            {remainder === 0
+              ? "Lines add up"
+              : remainder > 0
+                ? `${formatMoney(remainder, currency)} left to assign`
+                : `${formatMoney(-remainder, currency)} over`}
+          </Text>
+
+          <ScrollView style={styles.lines} keyboardShouldPersistTaps="handled">
+            {lines.map((line, index) => (
+              <View
+                key={index}
+                style={[styles.line, { borderBottomColor: theme.colors.border }]}
+              >
+                <View style={styles.lineHeader}>
+                  <TextInput
+                    style={[inputStyle, styles.amountInput]}
+                    placeholder="Amount"
+                    placeholderTextColor={theme.colors.textSecondary}
+                    value={line.amount}
+                    onChangeText={(text) => updateLine(index, { amount: text })}
+                    onFocus={() => !line.amount && fillRemainder(index)}
+                    keyboardType="numeric"
+                  />
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => setLines(lines.filter((_, i) => i !== index))}
+                  >
+                    <Text style={{ color: theme.colors.error }}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+                <TextInput
+                  style={inputStyle}
+                  placeholder="Note (optional)"
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={line.note}
+                  onChangeText={(text) => updateLine(index, { note: text })}
+                />
+                <CategoryPicker
+                  categories={categories}
+                  value={line.categoryId}
+                  onChange={(categoryId) => updateLine(index, { categoryId })}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.addLine, { borderColor: theme.colors.primary }]}
+            onPress={() => setLines([...lines, emptyLine()])}
+          >
+            <Text style={{ color: theme.colors.primary }}>+ Add Line</Text>
+          </TouchableOpacity>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            {splits.length > 0 ? (
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.colors.error }]}
+                onPress={() => onSave([])}
+              >
+                <Text style={styles.buttonText}>Unsplit</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.colors.primary }]}
+              onPress={save}
+            >
+              <Text style={styles.buttonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    borderRadius: 12,
+    padding: 20,
+    width: "90%",
+    maxWidth: 400,
+    maxHeight: "85%",
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  remainder: {
+    fontSize: 14,
+    textAlign: "center",
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  lines: {
+    flexGrow: 0,
+  },
+  line: {
+    borderBottomWidth: 1,
+    paddingBottom: 4,
+    marginBottom: 12,
+  },
+  lineHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  removeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  addLine: {
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  buttons: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginHorizontal: 4,
+  },
+  cancelButton: {
+    backgroundColor: "#95a5a6",
+  },
+  buttonText: {
+    color: "#ffffff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,6 @@
+import { TextDecoder } from 'util';
+
+// Expo's TextDecoder polyfill misreads views into WebAssembly memory, so the
+// SQLite build behind __mocks__/expo-sqlite would read longer strings back
+// empty. It keeps the decoder it finds when it loads; give it Node's.
+global.TextDecoder = TextDecoder as typeof global.TextDecoder;
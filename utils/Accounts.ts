@@ -0,0 +1,94 @@
+import { ExchangeRate } from './Currency';
+import { MoneyRow } from './Money';
+import { netTotal } from './Spending';
+
+export type AccountType = 'credit' | 'debit' | 'checking' | 'savings' | 'cash' | 'other';
+
+export const ACCOUNT_TYPES: AccountType[] = ['credit', 'debit', 'checking', 'savings', 'cash', 'other'];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  credit: 'Credit Card',
+  debit: 'Debit Card',
+  checking: 'Checking',
+  savings: 'Savings',
+  cash: 'Cash',
+  other: 'Other',
+};
+
+export interface Account {
+  id: number;
+  name: string;
+  type: AccountType;
+  institution: string | null;
+  last_four: string | null;
+  // Android package whose notifications belong to this account, e.g.
+  // "com.discoverfinancial.mobile"
+  source_package: string | null;
+}
+
+export type NewAccount = Omit<Account, 'id'>;
+
+export interface AccountTotal {
+  accountId: number | null;
+  total: number;
+}
+
+/**
+ * The account a captured transaction belongs to. Card digits decide first:
+ * the account with those digits in the same app, or the only account with
+ * them at all. Otherwise the app's one account is used, skipping accounts
+ * whose digits contradict the capture. Null when nothing fits or the match
+ * is ambiguous.
+ */
+export const matchAccount = (
+  accounts: Account[],
+  packageName: string,
+  cardLastFour?: string | null
+): Account | null => {
+  if (cardLastFour) {
+    const byCard = accounts.filter((account) => account.last_four === cardLastFour);
+    const sameApp = byCard.find((account) => account.source_package === packageName);
+    if (sameApp) {
+      return sameApp;
+    }
+    if (byCard.length === 1) {
+      return byCard[0];
+    }
+  }
+
+  const fromApp = accounts.filter(
+    (account) => account.source_package === packageName && (!cardLastFour || !account.last_four)
+  );
+  return fromApp.length === 1 ? fromApp[0] : null;
+};
+
+export const accountLabel = (account: Account): string =>
+  account.last_four ? `${account.name} ••${account.last_four}` : account.name;
+
+/**
+ * Net spending per account in the home currency, largest first. Rows with no
+ * account are grouped under null.
+ */
+export const accountTotals = (
+  rows: (MoneyRow & { direction?: string | null; account_id?: number | null })[],
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): AccountTotal[] => {
+  const groups = new Map<number | null, typeof rows>();
+  rows.forEach((row) => {
+    const key = row.account_id ?? null;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([accountId, group]) => ({
+      accountId,
+      total: netTotal(group, homeCurrency, rates).total,
+    }))
+    .sort((a, b) => b.total - a.total);
+};
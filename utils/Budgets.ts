@@ -0,0 +1,184 @@
+import * as Notifications from 'expo-notifications';
+import { ExchangeRate } from './Currency';
+import { Database } from './DatabaseManager';
+import { formatMoney, fromMinorUnits, sumAmounts } from './Money';
+import { getSettings } from './SettingsService';
+import { netTotal } from './Spending';
+import { SpendingLine } from './Splits';
+
+// category_id null is the overall monthly budget
+export interface Budget {
+  id: number;
+  category_id: number | null;
+  // Decimal mirror of monthly_limit_minor
+  monthly_limit: number;
+  monthly_limit_minor: number;
+  // The currency the limit was set in; null for limits set before this was
+  // recorded
+  currency: string | null;
+  rollover: number;
+}
+
+export interface BudgetProgress {
+  budget: Budget;
+  spent: number;
+  // Monthly limit plus anything carried over from last month
+  limit: number;
+  carriedOver: number;
+  ratio: number;
+}
+
+// Fractions of a budget that trigger an alert the first time they're crossed
+export const ALERT_THRESHOLDS = [0.8, 1];
+
+/**
+ * "YYYY-MM" for a date or a stored date string
+ */
+export const monthKey = (date: Date | string): string =>
+  typeof date === 'string'
+    ? date.slice(0, 7)
+    : `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const previousMonthKey = (month: string): string => {
+  const [year, mon] = month.split('-').map(Number);
+  return mon === 1 ? `${year - 1}-12` : `${year}-${String(mon - 1).padStart(2, '0')}`;
+};
+
+// Net spending against one budget in a month, in the home currency. Refunds
+// in the category bring it back down but never below zero.
+const spentIn = (
+  rows: SpendingLine[],
+  budget: Budget,
+  month: string,
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): number => {
+  const { total } = netTotal(
+    rows.filter(
+      (row) =>
+        monthKey(row.date) === month &&
+        (budget.category_id === null || row.category_id === budget.category_id)
+    ),
+    homeCurrency,
+    rates
+  );
+  return Math.max(0, total);
+};
+
+/**
+ * A budget's monthly limit, from its minor units
+ */
+export const budgetLimit = (budget: Budget): number => fromMinorUnits(budget.monthly_limit_minor, budget.currency);
+
+/**
+ * Progress of each budget for the month. Rollover carries last month's
+ * unspent amount forward one month; overspending is not carried.
+ */
+export const computeBudgetProgress = (
+  budgets: Budget[],
+  rows: SpendingLine[],
+  month: string,
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): BudgetProgress[] =>
+  budgets.map((budget) => {
+    const carriedOver = budget.rollover
+      ? Math.max(
+          0,
+          sumAmounts(
+            [budgetLimit(budget), -spentIn(rows, budget, previousMonthKey(month), homeCurrency, rates)],
+            homeCurrency
+          )
+        )
+      : 0;
+    const limit = sumAmounts([budgetLimit(budget), carriedOver], homeCurrency);
+    const spent = spentIn(rows, budget, month, homeCurrency, rates);
+    return {
+      budget,
+      spent,
+      limit,
+      carriedOver,
+      ratio: limit > 0 ? spent / limit : 0,
+    };
+  });
+
+/**
+ * Current month's progress for every budget
+ */
+export const getBudgetProgress = async (month: string = monthKey(new Date())): Promise<BudgetProgress[]> => {
+  const budgets = await Database.getBudgets();
+  if (budgets.length === 0) {
+    return [];
+  }
+  const rows = await Database.getBudgetSpending(`${previousMonthKey(month)}-01`);
+  const { currency } = await getSettings();
+  return computeBudgetProgress(budgets, rows, month, currency, await Database.getExchangeRates());
+};
+
+/**
+ * Show budget alerts while the app is open and ask for permission to post
+ * them. Safe to call more than once.
+ */
+export const setupBudgetAlerts = async (): Promise<void> => {
+  try {
+    Notifications.setNotificationHandler({
+      handleNotification: async () => ({
+        shouldShowBanner: true,
+        shouldShowList: true,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      }),
+    });
+
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      await Notifications.requestPermissionsAsync();
+    }
+  } catch (error) {
+    console.log('Error setting up budget alerts:', error);
+  }
+};
+
+/**
+ * Post a local notification for each budget that has newly crossed an alert
+ * threshold this month. Each threshold alerts at most once per month.
+ */
+export const checkBudgetAlerts = async (): Promise<void> => {
+  try {
+    const month = monthKey(new Date());
+    const progress = await getBudgetProgress(month);
+    if (progress.length === 0) {
+      return;
+    }
+
+    const categories = await Database.getCategories();
+    const { notificationSound, currency } = await getSettings();
+
+    for (const item of progress) {
+      // Only the highest threshold crossed is announced
+      const threshold = [...ALERT_THRESHOLDS].reverse().find((t) => item.ratio >= t);
+      if (threshold === undefined) {
+        continue;
+      }
+
+      const isNew = await Database.recordBudgetAlert(item.budget.id, month, threshold);
+      if (!isNew) {
+        continue;
+      }
+
+      const category = categories.find((c) => c.id === item.budget.category_id);
+      const name = category ? `${category.name} budget` : 'Monthly budget';
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: threshold >= 1 ? `${name} exceeded` : `${name} at ${Math.round(threshold * 100)}%`,
+          body: `${formatMoney(item.spent, currency)} of ${formatMoney(item.limit, currency)} spent this month`,
+          sound: notificationSound,
+        },
+        trigger: null,
+      });
+    }
+  } catch (error) {
+    // Alerts are best-effort; never block capture on them
+    console.log('Error checking budget alerts:', error);
+  }
+};
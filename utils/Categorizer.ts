@@ -0,0 +1,58 @@
+export interface Category {
+  id: number;
+  name: string;
+  color: string;
+  icon: string;
+}
+
+// A keyword that, found anywhere in the merchant text, assigns a category.
+// Lower priority values are checked first.
+export interface CategoryRule {
+  id: number;
+  pattern: string;
+  category_id: number;
+  priority: number;
+}
+
+// Seeded on first run; users can rename, recolor or delete them
+export const DEFAULT_CATEGORIES: Omit<Category, 'id'>[] = [
+  { name: 'Groceries', color: '#27ae60', icon: '🛒' },
+  { name: 'Dining', color: '#e67e22', icon: '🍽️' },
+  { name: 'Transport', color: '#2980b9', icon: '🚗' },
+  { name: 'Shopping', color: '#8e44ad', icon: '🛍️' },
+  { name: 'Bills', color: '#c0392b', icon: '🧾' },
+  { name: 'Entertainment', color: '#f1c40f', icon: '🎬' },
+  { name: 'Other', color: '#7f8c8d', icon: '📦' },
+];
+
+// Starter keywords for the seeded categories, keyed by category name
+export const DEFAULT_CATEGORY_RULES: { pattern: string; category: string }[] = [
+  { pattern: 'grocery', category: 'Groceries' },
+  { pattern: 'market', category: 'Groceries' },
+  { pattern: 'restaurant', category: 'Dining' },
+  { pattern: 'cafe', category: 'Dining' },
+  { pattern: 'coffee', category: 'Dining' },
+  { pattern: 'starbucks', category: 'Dining' },
+  { pattern: 'uber', category: 'Transport' },
+  { pattern: 'lyft', category: 'Transport' },
+  { pattern: 'fuel', category: 'Transport' },
+  { pattern: 'amazon', category: 'Shopping' },
+  { pattern: 'netflix', category: 'Entertainment' },
+  { pattern: 'spotify', category: 'Entertainment' },
+];
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const ruleMatches = (rule: CategoryRule, text: string): boolean => {
+  const pattern = normalize(rule.pattern);
+  return pattern.length > 0 && normalize(text).includes(pattern);
+};
+
+/**
+ * Category id of the first rule matching the merchant text, or null
+ */
+export const categorize = (text: string, rules: CategoryRule[]): number | null => {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority || a.id - b.id);
+  const match = ordered.find((rule) => ruleMatches(rule, text));
+  return match ? match.category_id : null;
+};
@@ -0,0 +1,73 @@
+import { ConnectionManager } from './Connection';
+
+const count = async (connection: ConnectionManager) =>
+  (await (await connection.get()).getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM accounts'))!.count;
+
+const addAccount = (name: string) => "INSERT INTO accounts (name, type) VALUES ('" + name + "', 'checking')";
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ConnectionManager', () => {
+  it('opens and migrates one shared connection', async () => {
+    const connection = new ConnectionManager(':memory:');
+    const [first, second] = await Promise.all([connection.get(), connection.get()]);
+    expect(first).toBe(second);
+    expect(await first.getFirstAsync('PRAGMA user_version')).not.toEqual({ user_version: 0 });
+  });
+
+  it('rolls back a transaction whose task throws', async () => {
+    const connection = new ConnectionManager(':memory:');
+    await expect(
+      connection.withTransaction(async (transaction) => {
+        await transaction.execAsync(addAccount('Checking'));
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(await count(connection)).toBe(0);
+  });
+
+  it("doesn't let a concurrent caller join an open transaction", async () => {
+    const connection = new ConnectionManager(':memory:');
+    const events: string[] = [];
+
+    const failing = connection.withTransaction(async (transaction) => {
+      events.push('import started');
+      await transaction.execAsync(addAccount('Imported'));
+      // Give the other caller every chance to run while this one is open
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      events.push('import failing');
+      throw new Error('bad row');
+    });
+    const capture = connection.withTransaction(async (transaction) => {
+      events.push('capture started');
+      await transaction.execAsync(addAccount('Captured'));
+    });
+
+    await expect(failing).rejects.toThrow('bad row');
+    await capture;
+
+    expect(events).toEqual(['import started', 'import failing', 'capture started']);
+    const names = await (await connection.get()).getAllAsync<{ name: string }>('SELECT name FROM accounts');
+    expect(names).toEqual([{ name: 'Captured' }]);
+  });
+
+  it('runs work passed the open handle inside that transaction', async () => {
+    const connection = new ConnectionManager(':memory:');
+    await expect(
+      connection.withTransaction(async (transaction) => {
+        await transaction.execAsync(addAccount('Outer'));
+        await connection.withTransaction(async (inner) => {
+          await inner.execAsync(addAccount('Inner'));
+        }, transaction);
+        throw new Error('undo both');
+      })
+    ).rejects.toThrow('undo both');
+    expect(await count(connection)).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import * as SQLite from 'expo-sqlite';
+import { runMigrations } from './Migrations';
+
+export const DATABASE_NAME = 'spending.db';
+
+// The connection as a transaction's task sees it. Passing it back to
+// withTransaction runs more work inside that same transaction.
+export type Transaction = SQLite.SQLiteDatabase;
+
+/**
+ * Owns the app's single SQLite connection. The database is opened and
+ * migrated on first use and the handle is shared by every repository, screen
+ * and background task, instead of each operation opening its own.
+ *
+ * Construct one with ':memory:' to run repositories against a throwaway
+ * database, e.g. in tests.
+ */
+export class ConnectionManager {
+  private database: SQLite.SQLiteDatabase | null = null;
+  private pending: Promise<SQLite.SQLiteDatabase> | null = null;
+  // Settles once the most recently queued transaction has finished
+  private lastTransaction: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly name: string = DATABASE_NAME) {}
+
+  /**
+   * The open, migrated connection. Concurrent first callers share one open;
+   * if migrating fails nothing is cached and the next call tries again.
+   */
+  async get(): Promise<SQLite.SQLiteDatabase> {
+    if (this.database) {
+      return this.database;
+    }
+
+    if (!this.pending) {
+      this.pending = this.open().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Run `task` in a transaction on the shared connection; it commits when
+   * the task resolves and rolls back when it throws. Transactions are
+   * queued and run one at a time, so an unrelated caller (a capture arriving
+   * mid-import) waits for the open one instead of writing inside it.
+   *
+   * To run work inside a transaction that is already open, pass its handle
+   * as `within`. Calling withTransaction from inside a task without it waits
+   * behind that task, which never finishes.
+   *
+   * Every write should go through here: a plain statement on the shared
+   * connection lands in whatever transaction happens to be open.
+   */
+  withTransaction<T>(task: (transaction: Transaction) => Promise<T>, within?: Transaction): Promise<T> {
+    if (within) {
+      return task(within);
+    }
+
+    const run = this.lastTransaction.then(async () => {
+      const database = await this.get();
+      let result: T;
+      await database.withTransactionAsync(async () => {
+        result = await task(database);
+      });
+      return result!;
+    });
+    // The next transaction starts once this one has committed or rolled back
+    this.lastTransaction = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Close the connection; the next get() opens it again
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = null;
+    if (database) {
+      await database.closeAsync();
+    }
+  }
+
+  private async open(): Promise<SQLite.SQLiteDatabase> {
+    console.log('Opening database connection...');
+    const database = await SQLite.openDatabaseAsync(this.name);
+    try {
+      const version = await runMigrations(database);
+      console.log('Database ready at schema version', version);
+    } catch (error) {
+      // Don't hand out a connection to a schema we couldn't bring up to date
+      console.log('Error migrating database:', error);
+      await database.closeAsync();
+      throw error;
+    }
+    this.database = database;
+    return database;
+  }
+}
+
+// The connection the app runs on
+export const connection = new ConnectionManager();
+
+export const getConnection = () => connection.get();
+
+export const withTransaction = <T>(task: (transaction: Transaction) => Promise<T>, within?: Transaction) =>
+  connection.withTransaction(task, within);
@@ -0,0 +1,104 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Category } from './Categorizer';
+import { ExchangeRate } from './Currency';
+import { fromMinorUnits, getCurrencyInfo, minorUnitsOf, MoneyRow } from './Money';
+import { DIRECTION_LABELS, isCredit, netTotal, TransactionDirection } from './Spending';
+
+export interface ExportRow extends MoneyRow {
+  details: string;
+  date: string;
+  direction?: string | null;
+  category_id?: number | null;
+}
+
+export interface CsvExportOptions {
+  homeCurrency: string;
+  rates: ExchangeRate[];
+  categories: Category[];
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a cell when it holds a delimiter, quote or line break, doubling any
+ * quotes inside. Text cells are also defused so a merchant name like
+ * "=HYPERLINK(...)" shows as text instead of running.
+ */
+export const escapeCsvCell = (value: string | number, text: boolean = false): string => {
+  let cell = String(value);
+  if (text && FORMULA_PREFIX.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) || cell !== cell.trim() ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+// Plain number with the currency's decimals, no symbol or grouping, so
+// spreadsheets read it as a number in any locale
+const plainAmount = (amount: number, code?: string | null): string =>
+  amount.toFixed(code ? getCurrencyInfo(code).decimals : 2);
+
+/**
+ * Rows whose day falls between `from` and `to` inclusive; either end may be
+ * empty for an open range
+ */
+export const rowsInRange = <T extends { date: string }>(rows: T[], from: string, to: string): T[] =>
+  rows.filter((row) => {
+    const day = row.date.slice(0, 10);
+    return (!from || day >= from) && (!to || day <= to);
+  });
+
+/**
+ * Build CSV text for the given rows, in the order given, followed by a
+ * totals row. Amounts are signed as net spending: credits and refunds are
+ * negative, so the totals row is the sum of the column above it.
+ */
+export const buildSpendingCsv = (rows: ExportRow[], options: CsvExportOptions): string => {
+  const { homeCurrency, rates, categories } = options;
+  const homeColumn = `Amount (${homeCurrency})`;
+  const lines = [['Date', 'Details', 'Category', 'Type', 'Amount', 'Currency', homeColumn].join(',')];
+
+  rows.forEach((row) => {
+    const category = categories.find((c) => c.id === row.category_id);
+    const direction = (row.direction ?? 'debit') as TransactionDirection;
+    const amount = fromMinorUnits(minorUnitsOf(row), row.currency) * (isCredit(row) ? -1 : 1);
+    lines.push(
+      [
+        escapeCsvCell(row.date.slice(0, 10)),
+        escapeCsvCell(row.details, true),
+        escapeCsvCell(category?.name ?? '', true),
+        escapeCsvCell(DIRECTION_LABELS[direction] ?? direction),
+        plainAmount(amount, row.currency),
+        row.currency || homeCurrency,
+        // Same per-row rounding as the totals so the column adds up exactly
+        plainAmount(netTotal([row], homeCurrency, rates).total, homeCurrency),
+      ].join(',')
+    );
+  });
+
+  const { total } = netTotal(rows, homeCurrency, rates);
+  lines.push(['Total', '', '', '', '', '', plainAmount(total, homeCurrency)].join(','));
+
+  // The byte order mark makes Excel open the file as UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Write rows to a CSV file in the cache directory and return its uri, ready
+ * to hand to expo-sharing
+ */
+export const exportSpendingCsv = async (
+  rows: ExportRow[],
+  options: CsvExportOptions,
+  name: string = 'spending'
+): Promise<string> => {
+  try {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const fileUri = `${FileSystem.cacheDirectory}${name}-${stamp}.csv`;
+    await FileSystem.writeAsStringAsync(fileUri, buildSpendingCsv(rows, options));
+    return fileUri;
+  } catch (error) {
+    console.log('Error exporting CSV:', error);
+    throw new Error('Failed to export CSV');
+  }
+};
@@ -0,0 +1,260 @@
+import { Category } from './Categorizer';
+import { SpendingImportRow } from './DatabaseManager';
+import { DataValidator } from './DataValidator';
+import { parseAmount } from './Money';
+import { TransactionDirection } from './Spending';
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY';
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'];
+
+// Which sign in the amount column means money left the account. Banks
+// disagree, so the user picks.
+export type SignConvention = 'negative-is-spending' | 'positive-is-spending';
+
+export const SIGN_CONVENTIONS: SignConvention[] = ['negative-is-spending', 'positive-is-spending'];
+
+export const SIGN_CONVENTION_LABELS: Record<SignConvention, string> = {
+  'negative-is-spending': 'Negative = spending',
+  'positive-is-spending': 'Positive = spending',
+};
+
+export type ImportField = 'amount' | 'details' | 'date' | 'category';
+
+// Column index for each field; category is optional
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface CsvImportOptions {
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+  dateFormat: DateFormat;
+  sign: SignConvention;
+  currency: string;
+}
+
+export interface PreviewRow {
+  // 1-based line in the file, for error messages
+  line: number;
+  amount: number | null;
+  details: string;
+  date: string | null;
+  direction: TransactionDirection;
+  // undefined leaves it to the category rules
+  categoryId: number | null | undefined;
+  // Set for statement files, which carry the bank's own id
+  bankTxnId?: string;
+  errors: string[];
+}
+
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  amount: /amount|sum|value|betrag|montant|debit|charge/i,
+  details: /desc|detail|memo|payee|merchant|narrative|name|reference/i,
+  date: /date|posted|booking|datum/i,
+  category: /categ/i,
+};
+
+// Pick whichever of comma, semicolon or tab appears most outside quotes in
+// the first line
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/)[0] ?? '';
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const char of firstLine) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char in counts) {
+      counts[char]++;
+    }
+  }
+  return Object.keys(counts).reduce((best, key) => (counts[key] > counts[best] ? key : best), ',');
+};
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes ("") and line breaks; blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value !== ''));
+};
+
+/**
+ * Guess the column for each field from the header names
+ */
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  const find = (field: ImportField): number | null => {
+    const index = header.findIndex((name, i) => !used.has(i) && HEADER_HINTS[field].test(name));
+    if (index === -1) {
+      return null;
+    }
+    used.add(index);
+    return index;
+  };
+
+  // Category first so "Category" isn't taken as a details column
+  const category = find('category');
+  const date = find('date');
+  const amount = find('amount');
+  const details = find('details');
+  return { amount, details, date, category };
+};
+
+/**
+ * Read a date cell in the given format as a "YYYY-MM-DD" day, or null if it
+ * doesn't fit the format or isn't a real date
+ */
+export const parseDateCell = (raw: string, format: DateFormat): string | null => {
+  const parts = raw.trim().split(/[-/.\sT]/).filter(Boolean);
+  if (parts.length < 3) {
+    return null;
+  }
+
+  let year: number;
+  let month: number;
+  let day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts.map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts.map(Number);
+      break;
+    case 'DD/MM/YYYY':
+    case 'DD.MM.YYYY':
+      [day, month, year] = parts.map(Number);
+      break;
+  }
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Turn parsed CSV rows into transactions, collecting every validation error
+ * per row so the preview can show them all at once
+ */
+export const buildImportRows = (
+  table: string[][],
+  options: CsvImportOptions,
+  categories: Category[]
+): PreviewRow[] => {
+  const { mapping, hasHeader, dateFormat, sign, currency } = options;
+  const cell = (cells: string[], index: number | null) => (index === null ? '' : (cells[index] ?? ''));
+
+  return table.slice(hasHeader ? 1 : 0).map((cells, i) => {
+    const errors: string[] = [];
+    const line = i + (hasHeader ? 2 : 1);
+
+    // "(12.50)" is how some banks write a negative amount
+    const rawAmount = cell(cells, mapping.amount);
+    const negative = /^\s*[-−]|^\s*\(.*\)\s*$/.test(rawAmount);
+    const unsigned = rawAmount.replace(/[-−()]/g, '');
+    const signed = negative ? -parseAmount(unsigned) : parseAmount(unsigned);
+    const amountValidation = DataValidator.validateAmount(unsigned, currency);
+    if (mapping.amount === null) {
+      errors.push('No amount column');
+    } else if (amountValidation.error) {
+      errors.push(amountValidation.error);
+    }
+
+    const detailsValidation = DataValidator.validateDetails(cell(cells, mapping.details));
+    if (mapping.details === null) {
+      errors.push('No details column');
+    } else if (detailsValidation.error) {
+      errors.push(detailsValidation.error);
+    }
+
+    let date: string | null = null;
+    if (mapping.date === null) {
+      errors.push('No date column');
+    } else {
+      date = parseDateCell(cell(cells, mapping.date), dateFormat);
+      const dateValidation = date
+        ? DataValidator.validateDate(date, true)
+        : { error: `Date doesn't match ${dateFormat}` };
+      if (dateValidation.error) {
+        errors.push(dateValidation.error);
+        date = null;
+      }
+    }
+
+    const spending = sign === 'negative-is-spending' ? signed < 0 : signed > 0;
+    const categoryName = cell(cells, mapping.category).toLowerCase();
+    const category = categoryName ? categories.find((c) => c.name.toLowerCase() === categoryName) : undefined;
+
+    return {
+      line,
+      amount: amountValidation.value ?? null,
+      details: detailsValidation.value ?? '',
+      date,
+      direction: spending ? 'debit' : 'credit',
+      categoryId: category ? category.id : undefined,
+      errors,
+    };
+  });
+};
+
+/**
+ * The rows without errors, ready for Database.importSpending
+ */
+export const toSpendingImportRows = (rows: PreviewRow[], currency: string): SpendingImportRow[] =>
+  rows
+    .filter((row) => row.errors.length === 0)
+    .map((row) => ({
+      amount: row.amount!,
+      details: row.details,
+      date: row.date!,
+      options: {
+        source: 'import',
+        direction: row.direction,
+        categoryId: row.categoryId,
+        currency,
+        bankTxnId: row.bankTxnId ?? null,
+      },
+    }));
@@ -0,0 +1,122 @@
+import { fromMinorUnits, minorUnitsOf, MoneyRow, toMinorUnits } from './Money';
+
+// 1 unit of `currency` is worth `rate` units of `base`
+export interface ExchangeRate {
+  currency: string;
+  base: string;
+  rate: number;
+  updated_at: string;
+}
+
+export interface ConvertedTotal {
+  total: number;
+  // Currencies that had no rate to the home currency; their rows are
+  // counted at face value
+  unconverted: string[];
+}
+
+/**
+ * Rate to turn one unit of `from` into `to`: direct, inverse, or crossed
+ * through a shared base currency. Null when no path exists.
+ */
+export const findRate = (from: string, to: string, rates: ExchangeRate[]): number | null => {
+  if (from === to) {
+    return 1;
+  }
+
+  const direct = rates.find((r) => r.currency === from && r.base === to);
+  if (direct) {
+    return direct.rate;
+  }
+  const inverse = rates.find((r) => r.currency === to && r.base === from);
+  if (inverse && inverse.rate > 0) {
+    return 1 / inverse.rate;
+  }
+
+  for (const fromRate of rates.filter((r) => r.currency === from)) {
+    const toRate = rates.find((r) => r.currency === to && r.base === fromRate.base);
+    if (toRate && toRate.rate > 0) {
+      return fromRate.rate / toRate.rate;
+    }
+  }
+
+  return null;
+};
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRate[]
+): number | null => {
+  const rate = findRate(from, to, rates);
+  return rate === null ? null : amount * rate;
+};
+
+/**
+ * A row's amount in the home currency. Rows without a currency predate
+ * multi-currency support and are already in the home currency; rows with no
+ * known rate are counted at face value.
+ */
+export const toHomeAmount = (
+  row: MoneyRow,
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): number => convertAmount(row.amount, row.currency || homeCurrency, homeCurrency, rates) ?? row.amount;
+
+/**
+ * Sum rows in the home currency, using `sign` to net credits against debits
+ */
+export const convertedTotal = <T extends MoneyRow>(
+  rows: T[],
+  homeCurrency: string,
+  rates: ExchangeRate[],
+  sign: (row: T) => number = () => 1
+): ConvertedTotal => {
+  const unconverted = new Set<string>();
+  // Each row is rounded to the home currency's minor units once, then the
+  // integers are summed so long lists don't drift
+  const totalMinor = rows.reduce((sum, row) => {
+    const currency = row.currency || homeCurrency;
+    const amount = fromMinorUnits(minorUnitsOf(row), row.currency);
+    const converted = convertAmount(amount, currency, homeCurrency, rates);
+    if (converted === null) {
+      unconverted.add(currency);
+    }
+    return sum + sign(row) * toMinorUnits(converted ?? amount, homeCurrency);
+  }, 0);
+  return { total: fromMinorUnits(totalMinor, homeCurrency), unconverted: Array.from(unconverted) };
+};
+
+/**
+ * Parse exchange rates from CSV lines of "currency,base,rate", e.g.
+ * "EUR,USD,1.08". A header row and blank lines are skipped.
+ */
+export const parseExchangeRatesCsv = (
+  text: string
+): { rates: Omit<ExchangeRate, 'updated_at'>[]; errors: string[] } => {
+  const rates: Omit<ExchangeRate, 'updated_at'>[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const [currency, base, rawRate] = trimmed.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    if (index === 0 && isNaN(parseFloat(rawRate))) {
+      return;
+    }
+
+    const rate = parseFloat(rawRate);
+    if (!/^[A-Za-z]{3}$/.test(currency ?? '') || !/^[A-Za-z]{3}$/.test(base ?? '') || isNaN(rate) || rate <= 0) {
+      errors.push(`Line ${index + 1}: expected "currency,base,rate"`);
+      return;
+    }
+
+    rates.push({ currency: currency.toUpperCase(), base: base.toUpperCase(), rate });
+  });
+
+  return { rates, errors };
+};
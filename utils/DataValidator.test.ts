@@ -0,0 +1,46 @@
+import { DataValidator } from './DataValidator';
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date(2026, 9, 19, 12) });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('DataValidator.validateDate', () => {
+  it('only takes dates from the last year unless old ones are allowed', () => {
+    expect(DataValidator.validateDate('2026-03-01').isValid).toBe(true);
+    expect(DataValidator.validateDate('2025-03-01').isValid).toBe(false);
+    expect(DataValidator.validateDate('2025-03-01', true).isValid).toBe(true);
+  });
+
+  it('never takes dates more than a month ahead', () => {
+    expect(DataValidator.validateDate('2027-01-01').isValid).toBe(false);
+    expect(DataValidator.validateDate('2027-01-01', true).isValid).toBe(false);
+  });
+});
+
+describe('DataValidator.validateEditedDate', () => {
+  it('lets an old row keep its date', () => {
+    expect(DataValidator.validateEditedDate('2024-05-02', '2024-05-02T14:30:00.000Z')).toEqual({
+      isValid: true,
+      value: '2024-05-02',
+    });
+  });
+
+  it('lets a row that was already older than a year move to another old date', () => {
+    expect(DataValidator.validateEditedDate('2024-05-01', '2024-05-02T14:30:00.000Z').isValid).toBe(true);
+  });
+
+  it('keeps a recent row from moving back more than a year', () => {
+    expect(DataValidator.validateEditedDate('2024-05-01', '2026-10-01T09:00:00.000Z')).toMatchObject({
+      isValid: false,
+      error: 'Date must be within the last year and not more than a month in the future',
+    });
+  });
+
+  it('still refuses dates more than a month ahead', () => {
+    expect(DataValidator.validateEditedDate('2027-01-01', '2024-05-02T14:30:00.000Z').isValid).toBe(false);
+  });
+});
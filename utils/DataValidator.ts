@@ -0,0 +1,143 @@
+import {
+    fromMinorUnits,
+    getCurrencyInfo,
+    parseAmount,
+    toMinorUnits,
+} from "./Money";
+import { checkNewSpending, NewSpendingCandidate } from "./SpendingSchema";
+
+// Start of today's date a year ago; older dates need allowOld
+const oneYearAgo = (): Date => {
+    const now = new Date();
+    return new Date(now.getFullYear() - 1, now.getMonth(), now.getDate());
+};
+
+// Data validation utilities shared by the add/edit and review screens
+export const DataValidator = {
+    // Accepts amounts typed in any locale ("1,234.56", "1.234,56", "12,50"),
+    // or in `locale`'s format when one is given
+    validateAmount: (
+        amount: string,
+        currency: string = "USD",
+        locale?: string
+    ): { isValid: boolean; value?: number; error?: string } => {
+        if (!amount || amount.trim() === "") {
+            return { isValid: false, error: "Amount is required" };
+        }
+
+        const numAmount = parseAmount(amount, locale);
+        if (isNaN(numAmount)) {
+            return { isValid: false, error: "Amount must be a valid number" };
+        }
+
+        if (numAmount <= 0) {
+            return { isValid: false, error: "Amount must be greater than 0" };
+        }
+
+        if (numAmount > 999999.99) {
+            return { isValid: false, error: "Amount seems unrealistic" };
+        }
+
+        // Check the amount fits the currency's minor units
+        const { decimals } = getCurrencyInfo(currency);
+        if (
+            fromMinorUnits(toMinorUnits(numAmount, currency), currency) !==
+            numAmount
+        ) {
+            return {
+                isValid: false,
+                error:
+                    decimals === 0
+                        ? `${currency} amounts cannot have decimal places`
+                        : `Amount cannot have more than ${decimals} decimal places`,
+            };
+        }
+
+        return { isValid: true, value: numAmount };
+    },
+
+    validateDetails: (
+        details: string
+    ): { isValid: boolean; value?: string; error?: string } => {
+        if (!details || details.trim() === "") {
+            return { isValid: false, error: "Details are required" };
+        }
+
+        const sanitized = details.trim();
+        if (sanitized.length > 200) {
+            return {
+                isValid: false,
+                error: "Details cannot exceed 200 characters",
+            };
+        }
+
+        // Basic XSS protection
+        const dangerousChars = /<script|javascript:|on\w+\s*=/i;
+        if (dangerousChars.test(sanitized)) {
+            return { isValid: false, error: "Invalid characters in details" };
+        }
+
+        return { isValid: true, value: sanitized };
+    },
+
+    // Imported history may be older than a year; allowOld skips that limit
+    validateDate: (
+        dateString: string,
+        allowOld: boolean = false
+    ): { isValid: boolean; value?: string; error?: string } => {
+        if (!dateString || dateString.trim() === "") {
+            return { isValid: false, error: "Date is required" };
+        }
+
+        const date = new Date(dateString);
+        if (isNaN(date.getTime())) {
+            return { isValid: false, error: "Invalid date format" };
+        }
+
+        const now = new Date();
+        const oneMonthFromNow = new Date(
+            now.getFullYear(),
+            now.getMonth() + 1,
+            now.getDate()
+        );
+
+        if (allowOld && date > oneMonthFromNow) {
+            return {
+                isValid: false,
+                error: "Date cannot be more than a month in the future",
+            };
+        }
+
+        if (!allowOld && (date < oneYearAgo() || date > oneMonthFromNow)) {
+            return {
+                isValid: false,
+                error: "Date must be within the last year and not more than a month in the future",
+            };
+        }
+
+        return { isValid: true, value: dateString };
+    },
+
+    // An edited row's date. Keeping the date it had, or moving a row that
+    // was already older than a year, may leave it older than a year.
+    validateEditedDate: (
+        dateString: string,
+        originalDate: string
+    ): { isValid: boolean; value?: string; error?: string } =>
+        DataValidator.validateDate(
+            dateString,
+            dateString === originalDate.split("T")[0] ||
+                new Date(originalDate) < oneYearAgo()
+        ),
+
+    // A whole transaction built by code rather than typed, e.g. by a
+    // notification parser; the rules live in SpendingSchema
+    validateNewSpending: (
+        candidate: NewSpendingCandidate
+    ): { isValid: boolean; error?: string } => {
+        const errors = checkNewSpending(candidate);
+        return errors.length > 0
+            ? { isValid: false, error: errors.join("; ") }
+            : { isValid: true };
+    },
+};
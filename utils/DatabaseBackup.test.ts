@@ -0,0 +1,157 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { connection, getConnection } from './Connection';
+import { restoreFromBackup } from './DatabaseBackup';
+
+// Backup files kept in memory, keyed by uri
+jest.mock('expo-file-system/legacy', () => {
+  const files = new Map<string, string>();
+  return {
+    documentDirectory: 'file:///documents/',
+    cacheDirectory: 'file:///cache/',
+    getInfoAsync: async (uri: string) => ({
+      exists: files.has(uri) || uri.endsWith('/'),
+      size: files.get(uri)?.length ?? 0,
+    }),
+    makeDirectoryAsync: async () => {},
+    readAsStringAsync: async (uri: string) => files.get(uri)!,
+    writeAsStringAsync: async (uri: string, content: string) => {
+      files.set(uri, content);
+    },
+    readDirectoryAsync: async (directory: string) =>
+      [...files.keys()].filter((uri) => uri.startsWith(directory)).map((uri) => uri.slice(directory.length)),
+    deleteAsync: async (uri: string) => {
+      files.delete(uri);
+    },
+  };
+});
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const BACKUP_ID = '2026-10-01T08-00-00-000Z';
+
+const writeBackup = (sections: Record<string, unknown>) =>
+  FileSystem.writeAsStringAsync(
+    `${FileSystem.documentDirectory}backups/budget_backup_${BACKUP_ID}.json`,
+    JSON.stringify({
+      version: '1.1.0',
+      timestamp: '2026-10-01T08:00:00.000Z',
+      spending: [{ id: 1, amount: 12.5, details: 'Grocer', date: '2026-09-30T10:00:00.000Z', category_id: 2 }],
+      metadata: { totalRecords: 1, dateRange: { earliest: '', latest: '' }, totalAmount: 12.5 },
+      ...sections,
+    })
+  );
+
+// The backup's categories, numbered differently from the seeded ones
+const CATEGORIES = [
+  { id: 1, name: 'Dining', color: '#e67e22', icon: '🍽️' },
+  { id: 2, name: 'Groceries', color: '#27ae60', icon: '🛒' },
+];
+
+const budgetsByCategory = async () =>
+  (await getConnection()).getAllAsync<{ name: string | null; monthly_limit: number }>(
+    'SELECT categories.name, budgets.monthly_limit FROM budgets LEFT JOIN categories ON categories.id = budgets.category_id ORDER BY budgets.id'
+  );
+
+const setBudget = async (categoryName: string | null, monthlyLimit: number) =>
+  (await getConnection()).runAsync(
+    'INSERT INTO budgets (category_id, monthly_limit) VALUES ((SELECT id FROM categories WHERE name = ?), ?)',
+    [categoryName, monthlyLimit]
+  );
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  // A fresh in-memory database for each test
+  await connection.close();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('restoreFromBackup', () => {
+  it('restores the budgets and alerts in the backup', async () => {
+    await setBudget('Transport', 80);
+    await writeBackup({
+      categories: CATEGORIES,
+      budgets: [
+        { id: 1, category_id: null, monthly_limit: 2000, rollover: 0 },
+        { id: 2, category_id: 2, monthly_limit: 400, rollover: 1 },
+      ],
+      budgetAlerts: [{ budget_id: 2, month: '2026-09', threshold: 0.8, sent_at: '2026-09-20T10:00:00.000Z' }],
+    });
+
+    const report = await restoreFromBackup(BACKUP_ID);
+
+    expect(report.restored).toMatchObject({ budgets: 2, budgetAlerts: 1 });
+    expect(await budgetsByCategory()).toEqual([
+      { name: null, monthly_limit: 2000 },
+      { name: 'Groceries', monthly_limit: 400 },
+    ]);
+    const database = await getConnection();
+    expect(await database.getAllAsync('SELECT budget_id, month FROM budget_alerts')).toEqual([
+      { budget_id: 2, month: '2026-09' },
+    ]);
+  });
+
+  it('keeps budgets on the same categories when an older backup renumbers them', async () => {
+    await setBudget(null, 1500);
+    await setBudget('Groceries', 300);
+    await setBudget('Transport', 80);
+
+    await writeBackup({ categories: CATEGORIES });
+    const report = await restoreFromBackup(BACKUP_ID);
+
+    expect(report.rolledBack).toBe(false);
+    expect(await budgetsByCategory()).toEqual([
+      { name: null, monthly_limit: 1500 },
+      { name: 'Groceries', monthly_limit: 300 },
+    ]);
+  });
+
+  it('skips malformed records, reporting their row in the backup', async () => {
+    await writeBackup({
+      spending: [
+        { id: 1, amount: 12.5, details: 'Grocer', date: '2026-09-30T10:00:00.000Z' },
+        { id: 2, amount: 'lots', details: 'Broken', date: '2026-09-30T11:00:00.000Z' },
+        { id: 3, amount: 4, details: 'Bakery', date: '2026-09-30T12:00:00.000Z' },
+      ],
+      categories: [...CATEGORIES, { id: 3, name: 'Transport' }],
+      accounts: [
+        { id: 1, name: 'Visa', type: 'credit' },
+        { id: 2, type: 'credit' },
+      ],
+      spendingSplits: [
+        { id: 1, spending_id: 3, amount: 3, position: 0 },
+        { id: 2, spending_id: 3, amount: 1, position: 1 },
+        { id: 3, spending_id: 2, amount: 1, position: 0 },
+      ],
+    });
+
+    const report = await restoreFromBackup(BACKUP_ID);
+
+    expect(report.skipped).toEqual([
+      { section: 'categories', index: 2, id: 3, reason: 'Row 3 (id 3): color must be text; icon must be text' },
+      { section: 'accounts', index: 1, id: 2, reason: 'Row 2 (id 2): name must be text' },
+      {
+        section: 'spending',
+        index: 1,
+        id: 2,
+        reason: 'Row 2 (id 2): amount must be a number of at least 0',
+      },
+      {
+        section: 'spendingSplits',
+        index: 2,
+        id: 3,
+        reason: "Row 3 (id 3): its transaction 2 isn't being restored",
+      },
+    ]);
+    expect(report.restored).toMatchObject({ categories: 2, accounts: 1, spending: 2, spendingSplits: 2 });
+    const database = await getConnection();
+    expect(await database.getAllAsync('SELECT id, amount_minor FROM spending_splits ORDER BY id')).toEqual([
+      { id: 1, amount_minor: 300 },
+      { id: 2, amount_minor: 100 },
+    ]);
+  });
+});
@@ -1,11 +1,41 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system/legacy';
-import { initializeDatabase } from './DatabaseManager';
+import { SQLiteBindValue } from 'expo-sqlite';
+import { Account, ACCOUNT_TYPES } from './Accounts';
+import { Budget } from './Budgets';
+import { Category, CategoryRule } from './Categorizer';
+import { getConnection, withTransaction } from './Connection';
+import { ExchangeRate } from './Currency';
+import { fromMinorUnits, sumAmounts, toMinorUnits } from './Money';
+import { LockedPeriod } from './Reconciliation';
+import { RECURRING_FREQUENCIES, RecurringTemplate } from './Recurring';
+import { invalidateSettings } from './SettingsService';
+import { TRANSACTION_DIRECTIONS } from './Spending';
+import {
+  fields,
+  formatSpendingIssue,
+  parseRecord,
+  parseSpending,
+  parseSpendingRows,
+  RecordSchema,
+  reportSpendingIssues,
+} from './SpendingSchema';
+import { SpendingSplit } from './Splits';
 
 interface BackupData {
   version: string;
   timestamp: string;
   spending: any[];
+  categories?: any[];
+  categoryRules?: any[];
+  budgets?: any[];
+  budgetAlerts?: any[];
+  exchangeRates?: any[];
+  recurringTemplates?: any[];
+  lockedPeriods?: any[];
+  accounts?: any[];
+  savedViews?: any[];
+  spendingSplits?: any[];
   settings?: any;
   metadata: {
     totalRecords: number;
@@ -27,9 +57,197 @@ interface BackupInfo {
   isVerified: boolean;
 }
 
+// What a restore writes, in the order it writes them
+type RestoreSection =
+  | 'categories'
+  | 'categoryRules'
+  | 'budgets'
+  | 'budgetAlerts'
+  | 'exchangeRates'
+  | 'recurringTemplates'
+  | 'lockedPeriods'
+  | 'accounts'
+  | 'savedViews'
+  | 'spending'
+  | 'spendingSplits'
+  | 'settings';
+
+const RESTORE_SECTIONS: Record<RestoreSection, string> = {
+  categories: 'categories',
+  categoryRules: 'category rules',
+  budgets: 'budgets',
+  budgetAlerts: 'budget alerts',
+  exchangeRates: 'exchange rates',
+  recurringTemplates: 'recurring templates',
+  lockedPeriods: 'locked periods',
+  accounts: 'accounts',
+  savedViews: 'saved views',
+  spending: 'transactions',
+  spendingSplits: 'split lines',
+  settings: 'settings',
+};
+
+// A backup record that was left out or couldn't be written
+export interface RestoreRecordProblem {
+  section: RestoreSection;
+  // Position in the backup's list for that section
+  index: number;
+  id: unknown;
+  reason: string;
+}
+
+export interface RestoreReport {
+  backupTimestamp: string;
+  // The data the restore replaced; restoring it undoes the restore
+  safetyBackup: BackupInfo;
+  // Rows written per section. After a rollback none of them were kept.
+  restored: Partial<Record<RestoreSection, number>>;
+  skipped: RestoreRecordProblem[];
+  failed: RestoreRecordProblem[];
+  rolledBack: boolean;
+  settingsRestored: boolean;
+}
+
+/**
+ * Thrown when a restore was rolled back; the report says which record failed
+ */
+export class RestoreError extends Error {
+  constructor(
+    message: string,
+    readonly report: RestoreReport
+  ) {
+    super(message);
+    this.name = 'RestoreError';
+  }
+}
+
+const messageOf = (error: unknown): string => (error instanceof Error ? error.message : 'Unknown error occurred');
+
+const {
+  text,
+  id,
+  amount,
+  minorUnits,
+  number,
+  wholeNumber,
+  date,
+  currencyCode,
+  flag,
+  oneOf,
+  nullable,
+  withDefault,
+  rule,
+} = fields;
+
+// Rows as the backup stores them; minor units are missing from older backups
+type WithOptionalMinor<T, K extends keyof T> = Omit<T, K> & { [P in K]: number | null };
+type BudgetAlertRow = { budget_id: number; month: string; threshold: number; sent_at: string };
+type SavedViewRow = { id: number; name: string; filter: string };
+
+const CATEGORY_SCHEMA: RecordSchema<Category> = {
+  id: rule(id, 'must be a positive whole number'),
+  name: rule(text, 'must be text'),
+  color: rule(text, 'must be text'),
+  icon: rule(text, 'must be text'),
+};
+
+const CATEGORY_RULE_SCHEMA: RecordSchema<CategoryRule> = {
+  id: rule(id, 'must be a positive whole number'),
+  pattern: rule(text, 'must be text'),
+  category_id: rule(id, 'must be a category id'),
+  priority: rule(withDefault(wholeNumber, 0), 'must be a whole number'),
+};
+
+const BUDGET_SCHEMA: RecordSchema<WithOptionalMinor<Budget, 'monthly_limit_minor'>> = {
+  id: rule(id, 'must be a positive whole number'),
+  category_id: rule(nullable(id), 'must be a category id'),
+  monthly_limit: rule(amount, 'must be a number of at least 0'),
+  monthly_limit_minor: rule(nullable(minorUnits), 'must be a whole number of at least 0'),
+  currency: rule(nullable(currencyCode), 'must be a three-letter currency code'),
+  rollover: rule(withDefault(flag, 0), 'must be 0 or 1'),
+};
+
+const BUDGET_ALERT_SCHEMA: RecordSchema<BudgetAlertRow> = {
+  budget_id: rule(id, 'must be a budget id'),
+  month: rule(text, 'must be text'),
+  threshold: rule(amount, 'must be a number of at least 0'),
+  sent_at: rule(date, 'must be a date'),
+};
+
+const EXCHANGE_RATE_SCHEMA: RecordSchema<ExchangeRate> = {
+  currency: rule(currencyCode, 'must be a three-letter currency code'),
+  base: rule(currencyCode, 'must be a three-letter currency code'),
+  rate: rule(amount, 'must be a number of at least 0'),
+  updated_at: rule(date, 'must be a date'),
+};
+
+const RECURRING_TEMPLATE_SCHEMA: RecordSchema<WithOptionalMinor<RecurringTemplate, 'amount_minor'>> = {
+  id: rule(id, 'must be a positive whole number'),
+  details: rule(text, 'must be text'),
+  amount: rule(amount, 'must be a number of at least 0'),
+  amount_minor: rule(nullable(minorUnits), 'must be a whole number of at least 0'),
+  currency: rule(nullable(currencyCode), 'must be a three-letter currency code'),
+  direction: rule(
+    withDefault(oneOf(TRANSACTION_DIRECTIONS), 'debit'),
+    `must be one of ${TRANSACTION_DIRECTIONS.join(', ')}`
+  ),
+  category_id: rule(nullable(id), 'must be a category id'),
+  frequency: rule(oneOf(RECURRING_FREQUENCIES), `must be one of ${RECURRING_FREQUENCIES.join(', ')}`),
+  start_date: rule(date, 'must be a date'),
+  end_date: rule(nullable(date), 'must be a date'),
+  last_generated: rule(nullable(date), 'must be a date'),
+};
+
+const LOCKED_PERIOD_SCHEMA: RecordSchema<LockedPeriod> = {
+  id: rule(id, 'must be a positive whole number'),
+  start_date: rule(date, 'must be a date'),
+  end_date: rule(date, 'must be a date'),
+  closing_total: rule(number, 'must be a number'),
+  currency: rule(currencyCode, 'must be a three-letter currency code'),
+  locked_at: rule(date, 'must be a date'),
+};
+
+const ACCOUNT_SCHEMA: RecordSchema<Account> = {
+  id: rule(id, 'must be a positive whole number'),
+  name: rule(text, 'must be text'),
+  type: rule(withDefault(oneOf(ACCOUNT_TYPES), 'other'), `must be one of ${ACCOUNT_TYPES.join(', ')}`),
+  institution: rule(nullable(text), 'must be text'),
+  last_four: rule(nullable(text), 'must be text'),
+  source_package: rule(nullable(text), 'must be text'),
+};
+
+const SAVED_VIEW_SCHEMA: RecordSchema<SavedViewRow> = {
+  id: rule(id, 'must be a positive whole number'),
+  name: rule(text, 'must be text'),
+  filter: rule(text, 'must be text'),
+};
+
+const SPLIT_SCHEMA: RecordSchema<WithOptionalMinor<SpendingSplit, 'amount_minor'>> = {
+  id: rule(id, 'must be a positive whole number'),
+  spending_id: rule(id, 'must be a transaction id'),
+  amount: rule(amount, 'must be a number of at least 0'),
+  amount_minor: rule(nullable(minorUnits), 'must be a whole number of at least 0'),
+  category_id: rule(nullable(id), 'must be a category id'),
+  note: rule(nullable(text), 'must be text'),
+  position: rule(withDefault(wholeNumber, 0), 'must be a whole number'),
+};
+
+// A record that passed its section's checks, with its place in the backup
+interface BackupRecord<T> {
+  index: number;
+  record: T;
+}
+
+// The first few problems, for an error message
+const summarizeProblems = (problems: string[]): string => {
+  const shown = problems.slice(0, 3).join('\n');
+  return problems.length > 3 ? `${shown}\n...and ${problems.length - 3} more` : shown;
+};
+
 class DatabaseBackupManager {
   private backupDir: string;
-  private readonly BACKUP_VERSION = '1.0.0';
+  // 1.1.0 adds amount_minor to spending rows
+  private readonly BACKUP_VERSION = '1.1.0';
   private readonly MAX_BACKUPS = 10; // Keep only last 10 backups
 
   constructor() {
@@ -50,37 +268,49 @@ class DatabaseBackupManager {
   }
 
   /**
-   * Create a backup of the current database
+   * Create a backup of the current database. `keep` names a backup the
+   * old-backup cleanup must leave alone. With `strict` a table that can't be
+   * read fails the backup instead of leaving it empty, which is what a
+   * safety backup needs.
    */
-  async createBackup(): Promise<BackupInfo> {
+  async createBackup(options: { keep?: string; strict?: boolean } = {}): Promise<BackupInfo> {
     try {
       console.log('Starting database backup...');
       
       // Try to get spending data with multiple fallback methods
       let spending: any[] = [];
+      let categories: any[] = [];
+      let categoryRules: any[] = [];
+      let budgets: any[] = [];
+      let budgetAlerts: any[] = [];
+      let exchangeRates: any[] = [];
+      let recurringTemplates: any[] = [];
+      let lockedPeriods: any[] = [];
+      let accounts: any[] = [];
+      let savedViews: any[] = [];
+      let spendingSplits: any[] = [];
       
       try {
-        // Method 1: Use shared database manager
-        await initializeDatabase();
-        const { getDatabase } = await import('./DatabaseManager');
-        const db = await getDatabase();
+        const db = await getConnection();
         spending = await db.getAllAsync('SELECT * FROM spending ORDER BY date DESC');
-        console.log(`Method 1 successful: Retrieved ${spending.length} spending records`);
-      } catch (method1Error) {
-        console.log('Method 1 failed:', method1Error);
-        
-        try {
-          // Method 2: Try direct database connection
-          const directDb = (await import('expo-sqlite')).default.openDatabaseSync('spending.db');
-          spending = await directDb.getAllAsync('SELECT * FROM spending ORDER BY date DESC');
-          console.log(`Method 2 successful: Retrieved ${spending.length} spending records`);
-        } catch (method2Error) {
-          console.log('Method 2 failed:', method2Error);
-          
-          // Method 3: Create empty backup if database fails
-          console.log('All database methods failed, creating empty backup');
-          spending = [];
+        categories = await db.getAllAsync('SELECT * FROM categories');
+        categoryRules = await db.getAllAsync('SELECT * FROM category_rules');
+        budgets = await db.getAllAsync('SELECT * FROM budgets');
+        budgetAlerts = await db.getAllAsync('SELECT * FROM budget_alerts');
+        exchangeRates = await db.getAllAsync('SELECT * FROM exchange_rates');
+        recurringTemplates = await db.getAllAsync('SELECT * FROM recurring_templates');
+        lockedPeriods = await db.getAllAsync('SELECT * FROM locked_periods');
+        accounts = await db.getAllAsync('SELECT * FROM accounts');
+        savedViews = await db.getAllAsync('SELECT * FROM saved_views');
+        spendingSplits = await db.getAllAsync('SELECT * FROM spending_splits');
+        console.log(`Retrieved ${spending.length} spending records`);
+      } catch (error) {
+        if (options.strict) {
+          throw error;
         }
+        // Still write a backup of the settings if the database can't be read
+        console.log('Error reading database for backup, creating empty backup:', error);
+        spending = [];
       }
 
       // Get settings if they exist
@@ -102,6 +332,16 @@ class DatabaseBackupManager {
         version: this.BACKUP_VERSION,
         timestamp: new Date().toISOString(),
         spending,
+        categories,
+        categoryRules,
+        budgets,
+        budgetAlerts,
+        exchangeRates,
+        recurringTemplates,
+        lockedPeriods,
+        accounts,
+        savedViews,
+        spendingSplits,
         settings,
         metadata,
       };
@@ -129,7 +369,7 @@ class DatabaseBackupManager {
       console.log(`Backup created successfully: ${filename}`);
       
       // Clean up old backups
-      await this.cleanupOldBackups();
+      await this.cleanupOldBackups(options.keep);
 
       return backupInfo;
     } catch (error) {
@@ -140,12 +380,18 @@ class DatabaseBackupManager {
   }
 
   /**
-   * Restore database from a backup file
+   * Restore database from a backup file. A safety backup of the current data
+   * is taken first, then every table is replaced in one transaction: if any
+   * record fails to insert the whole restore rolls back and a RestoreError
+   * carrying the report is thrown. Records that fail their section's schema,
+   * and split lines of a skipped transaction, are skipped and reported by
+   * their row in the backup rather than failing the restore.
    */
-  async restoreFromBackup(backupId: string): Promise<void> {
+  async restoreFromBackup(backupId: string): Promise<RestoreReport> {
+    let backupData: BackupData;
     try {
       console.log(`Restoring from backup: ${backupId}`);
-      
+
       const backupFile = await this.findBackupFile(backupId);
       if (!backupFile) {
         throw new Error('Backup file not found');
@@ -153,116 +399,400 @@ class DatabaseBackupManager {
 
       // Read backup data
       const backupContent = await FileSystem.readAsStringAsync(backupFile);
-      const backupData: BackupData = JSON.parse(backupContent);
+      backupData = JSON.parse(backupContent);
 
-      // Verify backup integrity
-      if (!this.verifyBackupIntegrity(backupData)) {
-        throw new Error('Backup file is corrupted or invalid');
+      // Malformed transactions are reported as skipped below; only a file
+      // that isn't a backup at all stops the restore here
+      const problem = this.findStructureProblem(backupData);
+      if (problem) {
+        throw new Error(`Backup file is corrupted or invalid. ${problem}`);
       }
+    } catch (error) {
+      console.log('Error reading backup for restore:', error);
+      throw new Error(`Failed to restore backup: ${messageOf(error)}`);
+    }
 
-      console.log(`Backup data verified: ${backupData.spending?.length || 0} records to restore`);
-
-      // Initialize database and get connection
-      console.log('Initializing database...');
-      await initializeDatabase();
-      console.log('Database initialization completed');
-      
-      let db;
-      try {
-        // Try the shared database manager first
-        const { getDatabase } = await import('./DatabaseManager');
-        db = await getDatabase();
-        console.log('Using shared database manager for restore');
-      } catch (error) {
-        console.log('Shared database manager failed, trying direct connection:', error);
-        // Fallback to direct database connection
-        const SQLite = await import('expo-sqlite');
-        db = SQLite.default.openDatabaseSync('spending.db');
-        console.log('Using direct database connection for restore');
+    let safetyBackup: BackupInfo;
+    try {
+      // Keep the backup being restored out of the old-backup cleanup
+      safetyBackup = await this.createBackup({ keep: backupId, strict: true });
+      // The restore deletes every transaction, so the safety backup must
+      // hold all of them
+      const db = await getConnection();
+      const current = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM spending');
+      if (safetyBackup.recordCount !== (current?.count ?? 0)) {
+        throw new Error(
+          `The safety backup has ${safetyBackup.recordCount} transactions but there are ${current?.count ?? 0}`
+        );
       }
-      
-      if (!db) {
-        throw new Error('Failed to establish database connection');
+      console.log(`Safety backup taken: ${safetyBackup.filename}`);
+    } catch (error) {
+      console.log('Error taking safety backup:', error);
+      throw new Error(`Failed to restore backup: couldn't back up the current data first. ${messageOf(error)}`);
+    }
+
+    const report: RestoreReport = {
+      backupTimestamp: backupData.timestamp,
+      safetyBackup,
+      restored: {},
+      skipped: [],
+      failed: [],
+      rolledBack: false,
+      settingsRestored: false,
+    };
+
+    // Check every section before touching the database. Records that fail
+    // are skipped and reported by their row in the backup; a missing
+    // section (an older backup) leaves the current data in place.
+    const section = <T>(
+      name: RestoreSection,
+      values: unknown[] | undefined,
+      parse: (value: unknown) => { record?: T; errors: string[] }
+    ): BackupRecord<T>[] | undefined => {
+      if (!values) {
+        return undefined;
       }
-      
-      console.log('Database connection established for restore');
+      const parsed: BackupRecord<T>[] = [];
+      values.forEach((value, index) => {
+        const { record, errors } = parse(value);
+        if (record) {
+          parsed.push({ index, record });
+        } else {
+          const issue = { index, id: (value as { id?: unknown } | null)?.id, errors };
+          console.log(`Skipping ${RESTORE_SECTIONS[name]} in the backup: ${formatSpendingIssue(issue)}`);
+          report.skipped.push({ section: name, index, id: issue.id, reason: formatSpendingIssue(issue) });
+        }
+      });
+      return parsed;
+    };
+    const schema =
+      <T>(recordSchema: RecordSchema<T>, description: string) =>
+      (value: unknown) =>
+        parseRecord(recordSchema, value, description);
 
-      try {
-        // Test database connection first
-        console.log('Testing database connection...');
-        await db.getAllAsync('SELECT 1');
-        console.log('Database connection test successful');
-
-        // Clear existing data
-        console.log('Clearing existing spending data...');
-        await db.execAsync('DELETE FROM spending');
-        console.log('Existing data cleared');
-
-        // Restore spending data
-        if (backupData.spending && backupData.spending.length > 0) {
-          console.log(`Restoring ${backupData.spending.length} spending records...`);
-          
-          for (let i = 0; i < backupData.spending.length; i++) {
-            const record = backupData.spending[i];
-            try {
-              // Validate record data before insertion
-              if (!record.id || record.amount === undefined || !record.details || !record.date) {
-                console.log(`Skipping invalid record ${i}:`, record);
-                continue;
-              }
-
-              await db.runAsync(
-                'INSERT INTO spending (id, amount, details, date) VALUES (?, ?, ?, ?)',
-                [record.id, record.amount, record.details, record.date]
-              );
-              
-              if (i % 10 === 0) {
-                console.log(`Restored ${i + 1}/${backupData.spending.length} records`);
-              }
-            } catch (recordError) {
-              console.log(`Error inserting record ${i}:`, recordError);
-              console.log(`Record data:`, record);
-              // Continue with other records even if one fails
-            }
+    const categories = section('categories', backupData.categories, schema(CATEGORY_SCHEMA, 'category'));
+    const categoryRules = section('categoryRules', backupData.categoryRules, schema(CATEGORY_RULE_SCHEMA, 'rule'));
+    const budgets = section('budgets', backupData.budgets, (value) => {
+      const { record, errors } = parseRecord(BUDGET_SCHEMA, value, 'budget');
+      return record
+        ? {
+            record: {
+              ...record,
+              monthly_limit_minor: record.monthly_limit_minor ?? toMinorUnits(record.monthly_limit, record.currency),
+            },
+            errors,
+          }
+        : { errors };
+    });
+    const budgetAlerts = section('budgetAlerts', backupData.budgetAlerts, schema(BUDGET_ALERT_SCHEMA, 'budget alert'));
+    const exchangeRates = section('exchangeRates', backupData.exchangeRates, schema(EXCHANGE_RATE_SCHEMA, 'rate'));
+    const recurringTemplates = section('recurringTemplates', backupData.recurringTemplates, (value) => {
+      const { record, errors } = parseRecord(RECURRING_TEMPLATE_SCHEMA, value, 'recurring template');
+      return record
+        ? {
+            record: { ...record, amount_minor: record.amount_minor ?? toMinorUnits(record.amount, record.currency) },
+            errors,
+          }
+        : { errors };
+    });
+    const lockedPeriods = section('lockedPeriods', backupData.lockedPeriods, schema(LOCKED_PERIOD_SCHEMA, 'period'));
+    const accounts = section('accounts', backupData.accounts, schema(ACCOUNT_SCHEMA, 'account'));
+    const savedViews = section('savedViews', backupData.savedViews, schema(SAVED_VIEW_SCHEMA, 'saved view'));
+    const records =
+      section('spending', backupData.spending, (value) => {
+        const result = parseSpending(value);
+        return result.spending ? { record: result.spending, errors: [] } : { errors: result.errors };
+      }) ?? [];
+
+    // Split lines of a skipped transaction would point at a missing row
+    const restoredCurrencies = new Map(records.map(({ record }) => [record.id, record.currency]));
+    const splits =
+      section('spendingSplits', backupData.spendingSplits, (value) => {
+        const { record, errors } = parseRecord(SPLIT_SCHEMA, value, 'split line');
+        if (!record) {
+          return { errors };
+        }
+        if (!restoredCurrencies.has(record.spending_id)) {
+          return { errors: [`its transaction ${record.spending_id} isn't being restored`] };
+        }
+        const currency = restoredCurrencies.get(record.spending_id) ?? null;
+        return {
+          record: { ...record, amount_minor: record.amount_minor ?? toMinorUnits(record.amount, currency) },
+          errors,
+        };
+      }) ?? [];
+
+    try {
+      await withTransaction(async (db) => {
+        // Record the failing row for the report; throwing rolls back
+        const insert = async (
+          name: RestoreSection,
+          index: number,
+          recordId: unknown,
+          sql: string,
+          params: SQLiteBindValue[]
+        ) => {
+          try {
+            await db.runAsync(sql, params);
+          } catch (error) {
+            report.failed.push({ section: name, index, id: recordId, reason: messageOf(error) });
+            throw new Error(`Couldn't restore ${RESTORE_SECTIONS[name]} row ${index + 1}: ${messageOf(error)}`);
+          }
+          report.restored[name] = (report.restored[name] ?? 0) + 1;
+        };
+
+        await db.execAsync('DELETE FROM spending_splits; DELETE FROM spending;');
+
+        // Backups from before budgets were backed up keep the current
+        // budgets; replacing the categories renumbers them, so they're
+        // matched back up by category name below
+        const keptBudgets =
+          categories && !budgets
+            ? await db.getAllAsync<{ id: number; name: string }>(
+                'SELECT budgets.id, categories.name FROM budgets JOIN categories ON categories.id = budgets.category_id'
+              )
+            : [];
+
+        // Older backups have no categories; keep the current ones so the
+        // restored rows' category ids still resolve
+        if (categories) {
+          console.log(`Restoring ${categories.length} categories...`);
+          await db.execAsync('DELETE FROM category_rules; DELETE FROM categories;');
+          for (const { index, record: category } of categories) {
+            await insert(
+              'categories',
+              index,
+              category.id,
+              'INSERT INTO categories (id, name, color, icon) VALUES (?, ?, ?, ?)',
+              [category.id, category.name, category.color, category.icon]
+            );
+          }
+          for (const { index, record: categoryRule } of categoryRules ?? []) {
+            await insert(
+              'categoryRules',
+              index,
+              categoryRule.id,
+              'INSERT INTO category_rules (id, pattern, category_id, priority) VALUES (?, ?, ?, ?)',
+              [categoryRule.id, categoryRule.pattern, categoryRule.category_id, categoryRule.priority]
+            );
+          }
+        }
+
+        if (budgets) {
+          console.log(`Restoring ${budgets.length} budgets...`);
+          await db.execAsync('DELETE FROM budget_alerts; DELETE FROM budgets;');
+          for (const { index, record: budget } of budgets) {
+            await insert(
+              'budgets',
+              index,
+              budget.id,
+              'INSERT INTO budgets (id, category_id, monthly_limit, monthly_limit_minor, currency, rollover) VALUES (?, ?, ?, ?, ?, ?)',
+              [
+                budget.id,
+                budget.category_id,
+                fromMinorUnits(budget.monthly_limit_minor, budget.currency),
+                budget.monthly_limit_minor,
+                budget.currency,
+                budget.rollover,
+              ]
+            );
+          }
+          for (const { index, record: alert } of budgetAlerts ?? []) {
+            await insert(
+              'budgetAlerts',
+              index,
+              alert.budget_id,
+              'INSERT INTO budget_alerts (budget_id, month, threshold, sent_at) VALUES (?, ?, ?, ?)',
+              [alert.budget_id, alert.month, alert.threshold, alert.sent_at]
+            );
           }
-          
-          console.log('All spending records processed');
         } else {
-          console.log('No spending records to restore');
+          // A budget whose category isn't in the backup has nothing to track
+          for (const budget of keptBudgets) {
+            const category = await db.getFirstAsync<{ id: number }>('SELECT id FROM categories WHERE name = ?', [
+              budget.name,
+            ]);
+            if (!category) {
+              await db.runAsync('DELETE FROM budget_alerts WHERE budget_id = ?', [budget.id]);
+              await db.runAsync('DELETE FROM budgets WHERE id = ?', [budget.id]);
+            }
+          }
+          // Move the rest in two steps so no two budgets briefly share a
+          // category
+          for (const budget of keptBudgets) {
+            await db.runAsync('UPDATE budgets SET category_id = ? WHERE id = ?', [-budget.id, budget.id]);
+          }
+          for (const budget of keptBudgets) {
+            await db.runAsync(
+              'UPDATE budgets SET category_id = (SELECT id FROM categories WHERE name = ?) WHERE id = ?',
+              [budget.name, budget.id]
+            );
+          }
+        }
+
+        if (exchangeRates) {
+          console.log(`Restoring ${exchangeRates.length} exchange rates...`);
+          await db.execAsync('DELETE FROM exchange_rates');
+          for (const { index, record: rate } of exchangeRates) {
+            await insert(
+              'exchangeRates',
+              index,
+              rate.currency,
+              'INSERT OR REPLACE INTO exchange_rates (currency, base, rate, updated_at) VALUES (?, ?, ?, ?)',
+              [rate.currency, rate.base, rate.rate, rate.updated_at]
+            );
+          }
         }
 
-        // Restore settings if they exist
-        if (backupData.settings) {
-          console.log('Restoring settings...');
-          await AsyncStorage.setItem('app_settings', JSON.stringify(backupData.settings));
-          console.log('Settings restored');
+        if (recurringTemplates) {
+          console.log(`Restoring ${recurringTemplates.length} recurring templates...`);
+          await db.execAsync('DELETE FROM recurring_templates');
+          for (const { index, record: template } of recurringTemplates) {
+            await insert(
+              'recurringTemplates',
+              index,
+              template.id,
+              'INSERT INTO recurring_templates (id, details, amount, amount_minor, currency, direction, category_id, frequency, start_date, end_date, last_generated) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [
+                template.id,
+                template.details,
+                fromMinorUnits(template.amount_minor, template.currency),
+                template.amount_minor,
+                template.currency,
+                template.direction,
+                template.category_id,
+                template.frequency,
+                template.start_date,
+                template.end_date,
+                template.last_generated,
+              ]
+            );
+          }
         }
 
-        // Verify the restore was successful
-        console.log('Verifying restore...');
-        const restoredRecords = await db.getAllAsync('SELECT COUNT(*) as count FROM spending');
-        const recordCount = (restoredRecords[0] as any)?.count || 0;
+        if (lockedPeriods) {
+          console.log(`Restoring ${lockedPeriods.length} locked periods...`);
+          await db.execAsync('DELETE FROM locked_periods');
+          for (const { index, record: period } of lockedPeriods) {
+            await insert(
+              'lockedPeriods',
+              index,
+              period.id,
+              'INSERT INTO locked_periods (id, start_date, end_date, closing_total, currency, locked_at) VALUES (?, ?, ?, ?, ?, ?)',
+              [period.id, period.start_date, period.end_date, period.closing_total, period.currency, period.locked_at]
+            );
+          }
+        }
+
+        if (accounts) {
+          console.log(`Restoring ${accounts.length} accounts...`);
+          await db.execAsync('DELETE FROM accounts');
+          for (const { index, record: account } of accounts) {
+            await insert(
+              'accounts',
+              index,
+              account.id,
+              'INSERT INTO accounts (id, name, type, institution, last_four, source_package) VALUES (?, ?, ?, ?, ?, ?)',
+              [account.id, account.name, account.type, account.institution, account.last_four, account.source_package]
+            );
+          }
+        }
+
+        if (savedViews) {
+          console.log(`Restoring ${savedViews.length} saved views...`);
+          await db.execAsync('DELETE FROM saved_views');
+          for (const { index, record: view } of savedViews) {
+            await insert('savedViews', index, view.id, 'INSERT INTO saved_views (id, name, filter) VALUES (?, ?, ?)', [
+              view.id,
+              view.name,
+              view.filter,
+            ]);
+          }
+        }
+
+        // Restore spending data; the schema fills in columns older backups
+        // don't have
+        console.log(`Restoring ${records.length} spending records...`);
+        for (const { index, record } of records) {
+          await insert(
+            'spending',
+            index,
+            record.id,
+            'INSERT INTO spending (id, amount, amount_minor, details, date, direction, status, source, raw_notification, card_last_four, duplicate_of, category_id, currency, recurring_id, bank_txn_id, reconciled, account_id, tags, notes, merchant) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            [
+              record.id,
+              fromMinorUnits(record.amount_minor, record.currency),
+              record.amount_minor,
+              record.details,
+              record.date,
+              record.direction,
+              record.status,
+              record.source,
+              record.raw_notification,
+              record.card_last_four,
+              record.duplicate_of,
+              record.category_id,
+              record.currency,
+              record.recurring_id,
+              record.bank_txn_id,
+              record.reconciled,
+              record.account_id,
+              record.tags,
+              record.notes,
+              record.merchant,
+            ]
+          );
+        }
+
+        console.log(`Restoring ${splits.length} split lines...`);
+        for (const { index, record: split } of splits) {
+          await insert(
+            'spendingSplits',
+            index,
+            split.id,
+            'INSERT INTO spending_splits (id, spending_id, amount, amount_minor, category_id, note, position) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            [
+              split.id,
+              split.spending_id,
+              split.amount,
+              split.amount_minor,
+              split.category_id,
+              split.note,
+              split.position,
+            ]
+          );
+        }
+
+        // Verify before committing
+        const restoredRecords = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM spending');
+        const recordCount = restoredRecords?.count ?? 0;
         console.log(`Verification: ${recordCount} records now in database`);
-        
-        if (backupData.spending && backupData.spending.length > 0 && recordCount === 0) {
-          throw new Error('Restore failed: No records were restored to the database');
+        if (recordCount !== records.length) {
+          throw new Error(`Expected ${records.length} transactions after restoring but found ${recordCount}`);
         }
-        
-        console.log(`Restore completed successfully from ${backupData.timestamp}`);
+      });
+    } catch (error) {
+      console.log('Error during restore, rolled back:', error);
+      report.rolledBack = true;
+      throw new RestoreError(`Failed to restore backup: ${messageOf(error)}. Your data was not changed.`, report);
+    }
+
+    // Settings live outside the database, so only replace them once the
+    // data has committed
+    if (backupData.settings) {
+      try {
+        await AsyncStorage.setItem('app_settings', JSON.stringify(backupData.settings));
+        invalidateSettings();
+        report.settingsRestored = true;
+        console.log('Settings restored');
       } catch (error) {
-        console.log('Error during restore operation:', error);
-        console.log('Error details:', {
-          name: error instanceof Error ? error.name : 'Unknown',
-          message: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : 'No stack trace'
-        });
-        throw error;
+        console.log('Error restoring settings:', error);
+        report.failed.push({ section: 'settings', index: 0, id: null, reason: messageOf(error) });
       }
-    } catch (error) {
-      console.log('Error restoring backup:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      throw new Error(`Failed to restore backup: ${errorMessage}`);
     }
+
+    console.log(`Restore completed successfully from ${backupData.timestamp}`);
+    return report;
   }
 
   /**
@@ -361,8 +891,9 @@ class DatabaseBackupManager {
       const backupData: BackupData = JSON.parse(content);
 
       // Verify backup integrity
-      if (!this.verifyBackupIntegrity(backupData)) {
-        throw new Error('Invalid backup file');
+      const problems = this.findBackupProblems(backupData);
+      if (problems.length > 0) {
+        throw new Error(`Invalid backup file. ${summarizeProblems(problems)}`);
       }
 
       // Save to backup directory
@@ -388,7 +919,8 @@ class DatabaseBackupManager {
       return backupInfo;
     } catch (error) {
       console.log('Error importing backup:', error);
-      throw new Error('Failed to import backup');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error(`Failed to import backup: ${errorMessage}`);
     }
   }
 
@@ -429,35 +961,50 @@ class DatabaseBackupManager {
    * Verify backup integrity
    */
   private verifyBackupIntegrity(backupData: any): boolean {
+    return this.findBackupProblems(backupData).length === 0;
+  }
+
+  /**
+   * What's wrong with a backup file's contents, if anything: missing
+   * sections, then each transaction that fails the spending schema
+   */
+  private findBackupProblems(backupData: any): string[] {
     try {
-      // Check required fields
-      if (!backupData.version || !backupData.timestamp || !backupData.spending) {
-        return false;
+      const problem = this.findStructureProblem(backupData);
+      if (problem) {
+        return [problem];
       }
 
-      // Check version compatibility
-      if (backupData.version !== this.BACKUP_VERSION) {
-        console.log(`Backup version mismatch: ${backupData.version} vs ${this.BACKUP_VERSION}`);
-        // Allow different versions but log warning
-      }
+      const { issues } = parseSpendingRows(backupData.spending);
+      reportSpendingIssues('the backup', issues);
+      return issues.map(formatSpendingIssue);
+    } catch (error) {
+      console.log('Error verifying backup integrity:', error);
+      return ['The file could not be checked'];
+    }
+  }
 
-      // Check spending data structure
-      if (!Array.isArray(backupData.spending)) {
-        return false;
-      }
+  /**
+   * Why a file's contents aren't a backup at all, or null if they are
+   */
+  private findStructureProblem(backupData: any): string | null {
+    // Check required fields
+    if (!backupData?.version || !backupData.timestamp || !Array.isArray(backupData.spending)) {
+      return 'The file is missing its version, timestamp or transactions';
+    }
 
-      // Validate each spending record
-      for (const record of backupData.spending) {
-        if (!record.id || !record.amount || !record.details || !record.date) {
-          return false;
-        }
-      }
+    const sections = Object.keys(RESTORE_SECTIONS).filter((section) => section !== 'settings');
+    const malformed = sections.find((section) => backupData[section] != null && !Array.isArray(backupData[section]));
+    if (malformed) {
+      return `The file's ${RESTORE_SECTIONS[malformed as RestoreSection]} are not a list`;
+    }
 
-      return true;
-    } catch (error) {
-      console.log('Error verifying backup integrity:', error);
-      return false;
+    // Check version compatibility
+    if (backupData.version !== this.BACKUP_VERSION) {
+      console.log(`Backup version mismatch: ${backupData.version} vs ${this.BACKUP_VERSION}`);
+      // Allow different versions but log warning
     }
+    return null;
   }
 
   /**
@@ -475,7 +1022,7 @@ class DatabaseBackupManager {
     const amounts = spending.map(s => s.amount);
     const dates = spending.map(s => new Date(s.date).getTime());
     
-    const totalAmount = amounts.reduce((sum, amount) => sum + amount, 0);
+    const totalAmount = sumAmounts(amounts);
     const earliestDate = new Date(Math.min(...dates)).toISOString();
     const latestDate = new Date(Math.max(...dates)).toISOString();
 
@@ -504,12 +1051,12 @@ class DatabaseBackupManager {
   /**
    * Clean up old backups (keep only the most recent ones)
    */
-  private async cleanupOldBackups(): Promise<void> {
+  private async cleanupOldBackups(keep?: string): Promise<void> {
     try {
       const backups = await this.getAvailableBackups();
       
       if (backups.length > this.MAX_BACKUPS) {
-        const backupsToDelete = backups.slice(this.MAX_BACKUPS);
+        const backupsToDelete = backups.slice(this.MAX_BACKUPS).filter((backup) => backup.id !== keep);
         
         for (const backup of backupsToDelete) {
           await this.deleteBackup(backup.id);
@@ -557,3 +1104,36 @@ export const importBackup = (fileUri: string) => backupManager.importBackup(file
 export const getBackupStats = () => backupManager.getBackupStats();
 export const formatFileSize = (bytes: number) => backupManager.formatFileSize(bytes);
 export const formatBackupDate = (dateString: string) => backupManager.formatDate(dateString);
+
+/**
+ * Summary of a restore for an alert: counts per section, then what was
+ * skipped or failed, a few records each
+ */
+export const formatRestoreReport = (report: RestoreReport): string => {
+  const lines: string[] = [];
+  if (!report.rolledBack) {
+    const restored = (Object.keys(report.restored) as RestoreSection[]).map(
+      (section) => `${report.restored[section]} ${RESTORE_SECTIONS[section]}`
+    );
+    lines.push(restored.length > 0 ? `Restored ${restored.join(', ')}.` : 'The backup had no records to restore.');
+    if (report.settingsRestored) {
+      lines.push('Settings restored.');
+    }
+  }
+  if (report.failed.length > 0) {
+    lines.push(
+      `Failed (${report.failed.length}):\n${summarizeProblems(
+        report.failed.map((problem) => `${RESTORE_SECTIONS[problem.section]}: ${problem.reason}`)
+      )}`
+    );
+  }
+  if (report.skipped.length > 0) {
+    lines.push(
+      `Skipped (${report.skipped.length}):\n${summarizeProblems(
+        report.skipped.map((problem) => `${RESTORE_SECTIONS[problem.section]}: ${problem.reason}`)
+      )}`
+    );
+  }
+  lines.push(`Your previous data was saved to ${report.safetyBackup.filename}.`);
+  return lines.join('\n\n');
+};
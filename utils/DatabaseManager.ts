@@ -1,157 +1,263 @@
-import * as SQLite from 'expo-sqlite';
+import { connection, Transaction } from "./Connection";
+import { Account, NewAccount } from "./Accounts";
+import { SavedView, SpendingFilter } from "./SpendingFilter";
+import { CurrencyNet, PAGE_SIZE, SpendingCursor, SpendingListQuery, SpendingPage } from "./SpendingQuery";
+import { Budget } from "./Budgets";
+import { Category, CategoryRule } from "./Categorizer";
+import { ExchangeRate } from "./Currency";
+import { NewRecurringTemplate, RecurringTemplate } from "./Recurring";
+import { LockedPeriod, NewLockedPeriod } from "./Reconciliation";
+import {
+    AddSpendingOptions,
+    ImportResult,
+    NotificationLogEntry,
+    repositories,
+    SpendingImportRow,
+} from "./repositories";
+import { getSettings } from "./SettingsService";
+import { Spending, SpendingListRow, SpendingStatus, TransactionDirection } from "./Spending";
+import { SpendingLine, SpendingSplit, SplitLine } from "./Splits";
 
-// Track if database is already initialized to avoid multiple initializations
-let databaseInitialized = false;
+export type { AddSpendingOptions, ImportResult, NotificationLogEntry, SpendingImportRow } from "./repositories";
+export type { Spending, SpendingListRow, SpendingSource, SpendingStatus } from "./Spending";
 
-// Simple database operations without complex connection management
-const createDatabase = () => {
+const {
+    spending,
+    categories,
+    accounts,
+    budgets,
+    notificationLog,
+    exchangeRates,
+    recurring,
+    savedViews,
+    lockedPeriods,
+} = repositories;
+
+// Reads log and fall back to an empty result so screens can still render
+const read = async <T>(failure: string, fallback: T, task: () => Promise<T>): Promise<T> => {
     try {
-        console.log("Creating new database connection...");
-        const db = SQLite.openDatabaseSync("spending.db");
-        console.log("Database connection established successfully");
-        return db;
+        return await task();
     } catch (error) {
-        console.log("Error establishing database connection:", error);
-        throw error;
+        console.log(`Error ${failure}:`, error);
+        return fallback;
     }
 };
 
-export const initializeDatabase = async (): Promise<void> => {
-    if (databaseInitialized) {
-        console.log("Database already initialized, skipping...");
-        return;
-    }
-    
+// Writes log and rethrow so the screen can tell the user
+const write = async <T>(failure: string, task: () => Promise<T>): Promise<T> => {
     try {
-        console.log("Executing database schema creation...");
-        const database = createDatabase();
-        
-        // Use the simplest possible approach
-        await database.execAsync(`
-            CREATE TABLE IF NOT EXISTS spending (
-                id INTEGER PRIMARY KEY AUTOINCREMENT,
-                amount REAL,
-                details TEXT,
-                date TEXT
-            )
-        `);
-        console.log("Database initialized successfully");
-        databaseInitialized = true;
+        return await task();
     } catch (error) {
-        console.log("Error initializing database:", error);
-        // If initialization fails, assume table already exists
-        console.log("Assuming table already exists, continuing...");
-        databaseInitialized = true;
+        console.log(`Error ${failure}:`, error);
+        throw error;
     }
 };
 
-// Export the getDatabase function for use in backup operations
-export const getDatabase = async () => {
-    await initializeDatabase();
-    return createDatabase();
+/**
+ * Open and migrate the shared connection. Screens don't need to call this
+ * first; every query waits for it.
+ */
+export const initializeDatabase = async (): Promise<void> => {
+    await connection.get();
 };
 
+/**
+ * The app's data access, as used by screens and background tasks. Each
+ * method hands off to a repository and decides what a failure means for
+ * the caller.
+ */
 export const Database = {
     init: initializeDatabase,
 
-    getAllSpending: async () => {
-        try {
-            // Ensure database is initialized
-            await initializeDatabase();
-            
-            // Create a fresh database connection for this operation
-            const database = createDatabase();
-            const result = await database.getAllAsync(
-                "SELECT * FROM spending ORDER BY date DESC"
-            );
-            return result;
-        } catch (error) {
-            console.log("Error fetching spending:", error);
-            return [];
-        }
-    },
-
-    addSpending: async (amount: number, details: string, date: string) => {
-        try {
-            console.log("Database.addSpending called with:", { amount, details, date });
-            
-            // Ensure database is initialized
-            await initializeDatabase();
-            console.log("Database initialization check completed");
-            
-            // Check for potential duplicates (same amount and details within 5 minutes)
-            const fiveMinutesAgo = new Date(
-                Date.now() - 5 * 60 * 1000
-            ).toISOString();
-            console.log("Checking for duplicates since:", fiveMinutesAgo);
-            
-            // Create a fresh database connection for this operation
-            const database = createDatabase();
-            console.log("Fresh database connection created for addSpending");
-            
-            // Check for duplicates first
-            const existing = await database.getAllAsync(
-                "SELECT * FROM spending WHERE amount = ? AND details = ? AND date > ?",
-                [amount, details, fiveMinutesAgo]
-            );
-
-            if (existing.length > 0) {
-                console.log("Duplicate transaction detected, skipping");
-                return { lastInsertRowId: (existing[0] as any).id, changes: 0 };
-            }
-
-            console.log("Inserting new spending record...");
-            const result = await database.runAsync(
-                "INSERT INTO spending (amount, details, date) VALUES (?, ?, ?)",
-                [amount, details, date]
-            );
-            console.log("Successfully inserted spending record:", result);
-            return result;
-        } catch (error) {
-            console.log("Error adding spending:", error);
-            console.log("Error details:", {
-                name: error instanceof Error ? error.name : 'Unknown',
-                message: error instanceof Error ? error.message : 'Unknown error',
-                stack: error instanceof Error ? error.stack : 'No stack trace'
-            });
-            throw error;
-        }
-    },
-
-    updateSpending: async (
+    getAllSpending: (): Promise<Spending[]> => read("fetching spending", [], () => spending.getAccepted()),
+
+    getSpendingPage: (
+        query: SpendingListQuery,
+        cursor: SpendingCursor | null = null,
+        limit: number = PAGE_SIZE
+    ): Promise<SpendingPage<SpendingListRow>> =>
+        read("fetching spending page", { rows: [], nextCursor: null, malformed: 0 }, () =>
+            spending.getPage(query, cursor, limit)
+        ),
+
+    // Every row a list query matches, in order; for exports
+    getSpendingList: (query: SpendingListQuery): Promise<Spending[]> =>
+        read("fetching spending list", [], () => spending.getList(query)),
+
+    getSpendingNets: (query: SpendingListQuery): Promise<CurrencyNet[]> =>
+        read("totalling spending", [], () => spending.getNets(query)),
+
+    getPendingSpending: (): Promise<Spending[]> => read("fetching pending spending", [], () => spending.getPending()),
+
+    getPendingCount: (): Promise<number> => read("counting pending spending", 0, () => spending.countPending()),
+
+    addSpending: (
+        amount: number,
+        details: string,
+        date: string,
+        options: AddSpendingOptions = {},
+        within?: Transaction
+    ) =>
+        write("adding spending", async () => {
+            const { dedupe } = await getSettings();
+            return spending.add(amount, details, date, options, dedupe, within);
+        }),
+
+    importSpending: (rows: SpendingImportRow[], skipDuplicates: boolean): Promise<ImportResult> =>
+        write("importing spending", async () => {
+            const { dedupe } = await getSettings();
+            return spending.import(rows, skipDuplicates, dedupe);
+        }),
+
+    // undefined leaves the category, account, tags and notes alone; null
+    // clears them
+    updateSpending: (
         id: number,
         amount: number,
         details: string,
-        date: string
-    ) => {
-        try {
-            await initializeDatabase();
-            // Create a fresh database connection for this operation
-            const database = createDatabase();
-            const result = await database.runAsync(
-                "UPDATE spending SET amount = ?, details = ?, date = ? WHERE id = ?",
-                [amount, details, date, id]
-            );
-            return result;
-        } catch (error) {
-            console.log("Error updating spending:", error);
-            throw error;
-        }
-    },
-
-    deleteSpending: async (id: number) => {
-        try {
-            await initializeDatabase();
-            // Create a fresh database connection for this operation
-            const database = createDatabase();
-            const result = await database.runAsync(
-                "DELETE FROM spending WHERE id = ?",
-                [id]
-            );
-            return result;
-        } catch (error) {
-            console.log("Error deleting spending:", error);
-            throw error;
-        }
-    },
+        date: string,
+        direction?: TransactionDirection,
+        categoryId?: number | null,
+        currency?: string,
+        accountId?: number | null,
+        tags?: string | null,
+        notes?: string | null
+    ) =>
+        write("updating spending", () =>
+            spending.update(id, {
+                amount,
+                details,
+                date,
+                direction,
+                categoryId,
+                currency,
+                accountId,
+                tags,
+                notes,
+            })
+        ),
+
+    // Accepted spending as category lines, for breakdowns
+    getSpendingLines: (fromDay: string = ""): Promise<SpendingLine[]> =>
+        read("fetching spending lines", [], () => spending.getLines(fromDay)),
+
+    getSplits: (spendingId: number): Promise<SpendingSplit[]> =>
+        read("fetching splits", [], () => spending.getSplits(spendingId)),
+
+    saveSplits: (spendingId: number, lines: SplitLine[], currency: string | null) =>
+        write("saving splits", () => spending.saveSplits(spendingId, lines, currency)),
+
+    setSpendingStatus: (ids: number[], status: SpendingStatus) =>
+        write("updating spending status", () => spending.setStatus(ids, status)),
+
+    findSpendingNear: (
+        amount: number,
+        date: string,
+        windowMinutes: number,
+        direction: TransactionDirection = "debit"
+    ) => read("searching for nearby spending", null, () => spending.findNear(amount, date, windowMinutes, direction)),
+
+    // Logging is diagnostic only; never block capture on it
+    addNotificationLog: (
+        packageName: string,
+        title: string | null,
+        text: string | null,
+        receivedAt: string
+    ): Promise<number | null> =>
+        read("writing notification log", null, () => notificationLog.add(packageName, title, text, receivedAt)),
+
+    updateNotificationLog: (id: number, parserId: string | null, spendingId: number | null) =>
+        read("updating notification log", undefined, () => notificationLog.update(id, parserId, spendingId)),
+
+    getNotificationLog: (limit: number = 200): Promise<NotificationLogEntry[]> =>
+        read("fetching notification log", [], () => notificationLog.getRecent(limit)),
+
+    getUnlinkedNotificationLog: (): Promise<NotificationLogEntry[]> =>
+        read("fetching unlinked notification log", [], () => notificationLog.getUnlinked()),
+
+    clearNotificationLog: () => write("clearing notification log", () => notificationLog.clear()),
+
+    mergeDuplicate: (id: number) => write("merging duplicate", () => spending.mergeDuplicate(id)),
+
+    keepBothDuplicates: (id: number) => write("clearing duplicate link", () => spending.keepBothDuplicates(id)),
+
+    getCategories: (): Promise<Category[]> => read("fetching categories", [], () => categories.getAll()),
+
+    addCategory: (name: string, color: string, icon: string) =>
+        write("adding category", () => categories.add(name, color, icon)),
+
+    updateCategory: (id: number, name: string, color: string, icon: string) =>
+        write("updating category", () => categories.update(id, name, color, icon)),
+
+    deleteCategory: (id: number) => write("deleting category", () => categories.delete(id)),
+
+    getCategoryRules: (): Promise<CategoryRule[]> => read("fetching category rules", [], () => categories.getRules()),
+
+    addCategoryRule: (pattern: string, categoryId: number, priority: number = 0) =>
+        write("adding category rule", () => categories.addRule(pattern, categoryId, priority)),
+
+    deleteCategoryRule: (id: number) => write("deleting category rule", () => categories.deleteRule(id)),
+
+    getBudgets: (): Promise<Budget[]> => read("fetching budgets", [], () => budgets.getAll()),
+
+    setBudget: (categoryId: number | null, monthlyLimit: number, currency: string, rollover: boolean) =>
+        write("saving budget", () => budgets.set(categoryId, monthlyLimit, currency, rollover)),
+
+    deleteBudget: (id: number) => write("deleting budget", () => budgets.delete(id)),
+
+    getBudgetSpending: (fromDay: string): Promise<SpendingLine[]> =>
+        read("fetching budget spending", [], () => spending.getBudgetLines(fromDay)),
+
+    recordBudgetAlert: (budgetId: number, month: string, threshold: number): Promise<boolean> =>
+        read("recording budget alert", false, () => budgets.recordAlert(budgetId, month, threshold)),
+
+    getExchangeRates: (): Promise<ExchangeRate[]> => read("fetching exchange rates", [], () => exchangeRates.getAll()),
+
+    saveExchangeRates: (rates: { currency: string; base: string; rate: number }[]) =>
+        write("saving exchange rates", () => exchangeRates.save(rates)),
+
+    deleteExchangeRate: (currency: string, base: string) =>
+        write("deleting exchange rate", () => exchangeRates.delete(currency, base)),
+
+    getRecurringTemplates: (): Promise<RecurringTemplate[]> =>
+        read("fetching recurring templates", [], () => recurring.getAll()),
+
+    addRecurringTemplate: (template: NewRecurringTemplate, lastGenerated: string | null = null) =>
+        write("adding recurring template", () => recurring.add(template, lastGenerated)),
+
+    updateRecurringTemplate: (id: number, template: NewRecurringTemplate) =>
+        write("updating recurring template", () => recurring.update(id, template)),
+
+    deleteRecurringTemplate: (id: number) => write("deleting recurring template", () => recurring.delete(id)),
+
+    markRecurringGenerated: (id: number, day: string, within?: Transaction) =>
+        write("updating recurring template", () => recurring.markGenerated(id, day, within)),
+
+    getAccounts: (): Promise<Account[]> => read("fetching accounts", [], () => accounts.getAll()),
+
+    addAccount: (account: NewAccount) => write("adding account", () => accounts.add(account)),
+
+    updateAccount: (id: number, account: NewAccount) => write("updating account", () => accounts.update(id, account)),
+
+    deleteAccount: (id: number) => write("deleting account", () => accounts.delete(id)),
+
+    getSavedViews: (): Promise<SavedView[]> => read("fetching saved views", [], () => savedViews.getAll()),
+
+    saveView: (name: string, filter: SpendingFilter) => write("saving view", () => savedViews.save(name, filter)),
+
+    deleteSavedView: (id: number) => write("deleting saved view", () => savedViews.delete(id)),
+
+    getLockedPeriods: (): Promise<LockedPeriod[]> => read("fetching locked periods", [], () => lockedPeriods.getAll()),
+
+    lockPeriod: (period: NewLockedPeriod) => write("locking period", () => lockedPeriods.lock(period)),
+
+    unlockPeriod: (id: number) => write("unlocking period", () => lockedPeriods.unlock(id)),
+
+    markReconciled: (ids: number[]) => write("marking spending reconciled", () => spending.markReconciled(ids)),
+
+    deleteSpending: (id: number) => write("deleting spending", () => spending.delete(id)),
+
+    // Every transaction, split and locked period; categories, accounts and
+    // the rest are kept
+    clearAllSpending: () => write("clearing spending", () => spending.deleteAll()),
 };
@@ -0,0 +1,186 @@
+export interface DedupeOptions {
+  // Rows further apart than this are never duplicates
+  timeWindowHours: number;
+  // Minimum merchant similarity (0-1) for two rows to match
+  merchantSimilarity: number;
+  // Largest amount difference still treated as the same charge (e.g. tips)
+  amountTolerance: number;
+  // When both rows carry card digits, require them to agree
+  matchCard: boolean;
+}
+
+export const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+  // Posted notifications can trail the authorization by a day or two
+  timeWindowHours: 48,
+  merchantSimilarity: 0.6,
+  amountTolerance: 0,
+  matchCard: true,
+};
+
+export interface DedupeCandidate {
+  amount: number;
+  details: string;
+  date: string;
+  direction?: string | null;
+  card_last_four?: string | null;
+}
+
+export interface DedupeMatch<T> {
+  row: T;
+  score: number;
+}
+
+// Words banks add around the merchant name that say nothing about it
+const NOISE_WORDS = new Set([
+  'POS',
+  'DEBIT',
+  'CREDIT',
+  'PURCHASE',
+  'AUTHORIZED',
+  'AUTHORIZATION',
+  'PENDING',
+  'POSTED',
+  'CARD',
+  'SQ',
+  'TST',
+  'PAYPAL',
+  'THE',
+  'AT',
+  'ON',
+]);
+
+/**
+ * Reduce merchant text to its distinguishing words
+ */
+export const normalizeMerchant = (text: string): string =>
+  text
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !NOISE_WORDS.has(word))
+    .join(' ');
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalized merchant text.
+ * Returns 1 when one name contains the other ("AMAZON" vs "AMAZON MKTPLACE").
+ */
+export const merchantSimilarity = (a: string, b: string): number => {
+  const left = normalizeMerchant(a);
+  const right = normalizeMerchant(b);
+
+  if (!left || !right) {
+    return left === right ? 1 : 0;
+  }
+  if (left === right || left.includes(right) || right.includes(left)) {
+    return 1;
+  }
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+
+  let overlap = 0;
+  rightBigrams.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+};
+
+/**
+ * Score how likely two rows are the same transaction; null when they can't be
+ */
+export const scoreDuplicate = (
+  candidate: DedupeCandidate,
+  existing: DedupeCandidate,
+  options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): number | null => {
+  // A refund never duplicates the purchase it reverses
+  if ((candidate.direction ?? 'debit') !== (existing.direction ?? 'debit')) {
+    return null;
+  }
+
+  if (Math.abs(candidate.amount - existing.amount) > options.amountTolerance + 0.001) {
+    return null;
+  }
+
+  const timeDiff = Math.abs(new Date(candidate.date).getTime() - new Date(existing.date).getTime());
+  if (isNaN(timeDiff) || timeDiff > options.timeWindowHours * 60 * 60 * 1000) {
+    return null;
+  }
+
+  if (
+    options.matchCard &&
+    candidate.card_last_four &&
+    existing.card_last_four &&
+    candidate.card_last_four !== existing.card_last_four
+  ) {
+    return null;
+  }
+
+  const similarity = merchantSimilarity(candidate.details, existing.details);
+  if (similarity < options.merchantSimilarity) {
+    return null;
+  }
+
+  return similarity;
+};
+
+/**
+ * Find the most likely existing row the candidate duplicates
+ */
+export const findDuplicate = <T extends DedupeCandidate>(
+  candidate: DedupeCandidate,
+  rows: T[],
+  options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): DedupeMatch<T> | null => {
+  let best: DedupeMatch<T> | null = null;
+
+  for (const row of rows) {
+    const score = scoreDuplicate(candidate, row, options);
+    if (score !== null && (!best || score > best.score)) {
+      best = { row, score };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Find an existing row with the same amount, direction, details and day.
+ * For rows typed in or imported, where a similar purchase a day later is
+ * usually a second real purchase rather than a repeat.
+ */
+export const findExactDuplicate = <T extends DedupeCandidate>(
+  candidate: DedupeCandidate,
+  rows: T[]
+): DedupeMatch<T> | null => {
+  const details = candidate.details.trim().toUpperCase();
+  const row = rows.find(
+    (existing) =>
+      (candidate.direction ?? 'debit') === (existing.direction ?? 'debit') &&
+      Math.abs(candidate.amount - existing.amount) < 0.001 &&
+      candidate.date.slice(0, 10) === existing.date.slice(0, 10) &&
+      existing.details.trim().toUpperCase() === details &&
+      !(candidate.card_last_four && existing.card_last_four && candidate.card_last_four !== existing.card_last_four)
+  );
+  return row ? { row, score: 1 } : null;
+};
@@ -0,0 +1,135 @@
+import * as SQLite from 'expo-sqlite';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, runMigrations, SchemaTooNewError } from './Migrations';
+
+// The table as the first release created it, before versioning
+const createV1Database = async () => {
+  const database = await SQLite.openDatabaseAsync(':memory:');
+  await database.execAsync(`
+    CREATE TABLE spending (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      amount REAL,
+      details TEXT,
+      date TEXT
+    );
+    PRAGMA user_version = 0;
+  `);
+  await database.runAsync('INSERT INTO spending (amount, details, date) VALUES (?, ?, ?)', [
+    12.5,
+    'COFFEE SHOP',
+    '2024-03-01T08:30:00.000Z',
+  ]);
+  await database.runAsync('INSERT INTO spending (amount, details, date) VALUES (?, ?, ?)', [
+    0.1,
+    'PARKING',
+    '2024-03-02T10:00:00.000Z',
+  ]);
+  await database.runAsync('INSERT INTO spending (amount, details, date) VALUES (?, ?, ?)', [
+    1999.99,
+    'LAPTOP',
+    '2024-03-03T12:00:00.000Z',
+  ]);
+  return database;
+};
+
+const columnsOf = async (database: SQLite.SQLiteDatabase, table: string) =>
+  (await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`)).map((column) => column.name);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('runMigrations', () => {
+  it('upgrades a v1 database to the latest version', async () => {
+    const database = await createV1Database();
+
+    await expect(runMigrations(database)).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(database)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('adds the new columns and tables', async () => {
+    const database = await createV1Database();
+    await runMigrations(database);
+
+    expect(await columnsOf(database, 'spending')).toEqual(
+      expect.arrayContaining([
+        'status',
+        'source',
+        'raw_notification',
+        'card_last_four',
+        'duplicate_of',
+        'direction',
+        'category_id',
+        'currency',
+        'amount_minor',
+        'recurring_id',
+        'bank_txn_id',
+        'reconciled',
+        'account_id',
+        'tags',
+        'notes',
+        'merchant',
+      ])
+    );
+    expect(await columnsOf(database, 'spending_splits')).toContain('amount_minor');
+    expect(await columnsOf(database, 'notification_log')).toContain('spending_id');
+    expect(await columnsOf(database, 'budgets')).toEqual(expect.arrayContaining(['monthly_limit_minor', 'currency']));
+  });
+
+  it('keeps existing rows and fills in their defaults', async () => {
+    const database = await createV1Database();
+    await runMigrations(database);
+
+    const rows = await database.getAllAsync<{ details: string; status: string; source: string; direction: string }>(
+      'SELECT details, status, source, direction FROM spending ORDER BY id'
+    );
+    expect(rows).toEqual([
+      { details: 'COFFEE SHOP', status: 'accepted', source: 'manual', direction: 'debit' },
+      { details: 'PARKING', status: 'accepted', source: 'manual', direction: 'debit' },
+      { details: 'LAPTOP', status: 'accepted', source: 'manual', direction: 'debit' },
+    ]);
+  });
+
+  it('backfills amount_minor from the stored amounts', async () => {
+    const database = await createV1Database();
+    await runMigrations(database);
+
+    const rows = await database.getAllAsync<{ amount_minor: number }>('SELECT amount_minor FROM spending ORDER BY id');
+    expect(rows.map((row) => row.amount_minor)).toEqual([1250, 10, 199999]);
+  });
+
+  it('indexes the migrated rows for search', async () => {
+    const database = await createV1Database();
+    await runMigrations(database);
+
+    const matches = await database.getAllAsync<{ rowid: number }>(
+      "SELECT rowid FROM spending_fts WHERE spending_fts MATCH 'coffee'"
+    );
+    expect(matches).toEqual([{ rowid: 1 }]);
+  });
+
+  it('does nothing on a database that is already current', async () => {
+    const database = await createV1Database();
+    await runMigrations(database);
+
+    await expect(runMigrations(database)).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(await database.getFirstAsync('SELECT COUNT(*) AS count FROM spending')).toEqual({ count: 3 });
+  });
+
+  it('refuses a database written by a newer build', async () => {
+    const database = await createV1Database();
+    await database.execAsync(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+
+    const attempt = runMigrations(database);
+    await expect(attempt).rejects.toBeInstanceOf(SchemaTooNewError);
+    await expect(attempt).rejects.toMatchObject({
+      databaseVersion: LATEST_SCHEMA_VERSION + 1,
+      knownVersion: LATEST_SCHEMA_VERSION,
+    });
+    expect(await getSchemaVersion(database)).toBe(LATEST_SCHEMA_VERSION + 1);
+    expect(await columnsOf(database, 'spending')).toEqual(['id', 'amount', 'details', 'date']);
+  });
+});
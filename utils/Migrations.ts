@@ -0,0 +1,398 @@
+import * as SQLite from 'expo-sqlite';
+import { DEFAULT_CATEGORIES, DEFAULT_CATEGORY_RULES } from './Categorizer';
+import { toMinorUnits } from './Money';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (database: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * Thrown when spending.db was written by a newer build than this one. Opening
+ * it anyway could corrupt columns this build doesn't know about.
+ */
+export class SchemaTooNewError extends Error {
+  constructor(public databaseVersion: number, public knownVersion: number) {
+    super(
+      `The spending database is at schema version ${databaseVersion}, but this version of the app only knows up to ${knownVersion}. Please update the app.`
+    );
+    this.name = 'SchemaTooNewError';
+  }
+}
+
+// Add a column to an existing table if it isn't there yet. Databases created
+// before versioning already have some of these columns with user_version 0.
+const addColumn = async (
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+) => {
+  const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some((c) => c.name === column)) {
+    await database.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+// Ordered up-migrations. Never edit or reorder a released entry; add a new
+// one with the next version number instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create spending table',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS spending (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          amount REAL,
+          details TEXT,
+          date TEXT
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Track review status and notification source',
+    up: async (database) => {
+      await addColumn(database, 'spending', 'status', "TEXT NOT NULL DEFAULT 'accepted'");
+      await addColumn(database, 'spending', 'source', "TEXT NOT NULL DEFAULT 'manual'");
+      await addColumn(database, 'spending', 'raw_notification', 'TEXT');
+      await addColumn(database, 'spending', 'card_last_four', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    description: 'Create notification log',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS notification_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          package TEXT NOT NULL,
+          title TEXT,
+          text TEXT,
+          received_at TEXT NOT NULL,
+          parser_id TEXT,
+          spending_id INTEGER
+        )
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Link suspected duplicates',
+    up: async (database) => {
+      await addColumn(database, 'spending', 'duplicate_of', 'INTEGER');
+    },
+  },
+  {
+    version: 5,
+    description: 'Add transaction direction',
+    up: async (database) => {
+      await addColumn(database, 'spending', 'direction', "TEXT NOT NULL DEFAULT 'debit'");
+    },
+  },
+  {
+    version: 6,
+    description: 'Add categories and categorization rules',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          color TEXT NOT NULL,
+          icon TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS category_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pattern TEXT NOT NULL,
+          category_id INTEGER NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+      await addColumn(database, 'spending', 'category_id', 'INTEGER');
+
+      for (const category of DEFAULT_CATEGORIES) {
+        await database.runAsync(
+          'INSERT OR IGNORE INTO categories (name, color, icon) VALUES (?, ?, ?)',
+          [category.name, category.color, category.icon]
+        );
+      }
+      for (const rule of DEFAULT_CATEGORY_RULES) {
+        await database.runAsync(
+          'INSERT INTO category_rules (pattern, category_id) SELECT ?, id FROM categories WHERE name = ?',
+          [rule.pattern, rule.category]
+        );
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Add monthly budgets',
+    up: async (database) => {
+      // category_id NULL is the overall monthly budget
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS budgets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category_id INTEGER UNIQUE,
+          monthly_limit REAL NOT NULL,
+          rollover INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE TABLE IF NOT EXISTS budget_alerts (
+          budget_id INTEGER NOT NULL,
+          month TEXT NOT NULL,
+          threshold REAL NOT NULL,
+          sent_at TEXT NOT NULL,
+          PRIMARY KEY (budget_id, month, threshold)
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add transaction currency and exchange rates',
+    up: async (database) => {
+      // NULL currency means the home currency; rows written before this
+      // migration were all entered in it
+      await addColumn(database, 'spending', 'currency', 'TEXT');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS exchange_rates (
+          currency TEXT NOT NULL,
+          base TEXT NOT NULL,
+          rate REAL NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (currency, base)
+        )
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Store amounts as integer minor units',
+    up: async (database) => {
+      // amount_minor is what totals are summed from; amount is kept as its
+      // decimal mirror for range queries and older backups
+      await addColumn(database, 'spending', 'amount_minor', 'INTEGER');
+      const rows = await database.getAllAsync<{ id: number; amount: number; currency: string | null }>(
+        'SELECT id, amount, currency FROM spending WHERE amount_minor IS NULL'
+      );
+      for (const row of rows) {
+        await database.runAsync('UPDATE spending SET amount_minor = ? WHERE id = ?', [
+          toMinorUnits(row.amount, row.currency),
+          row.id,
+        ]);
+      }
+    },
+  },
+  {
+    version: 10,
+    description: 'Add recurring transaction templates',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS recurring_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          details TEXT NOT NULL,
+          amount REAL NOT NULL,
+          amount_minor INTEGER NOT NULL,
+          currency TEXT,
+          direction TEXT NOT NULL DEFAULT 'debit',
+          category_id INTEGER,
+          frequency TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT,
+          last_generated TEXT
+        )
+      `);
+      // Occurrences point back at the template that created them
+      await addColumn(database, 'spending', 'recurring_id', 'INTEGER');
+    },
+  },
+  {
+    version: 11,
+    description: 'Add split lines for spending rows',
+    up: async (database) => {
+      // Line amounts use the parent row's currency
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS spending_splits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          spending_id INTEGER NOT NULL,
+          amount REAL NOT NULL,
+          amount_minor INTEGER NOT NULL,
+          category_id INTEGER,
+          note TEXT,
+          position INTEGER NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS idx_spending_splits_spending ON spending_splits (spending_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: 'Add bank transaction ids and a reconciled flag',
+    up: async (database) => {
+      // The id the bank gave the transaction (OFX FITID); unique so
+      // importing the same statement twice adds nothing
+      await addColumn(database, 'spending', 'bank_txn_id', 'TEXT');
+      // Set once a row has been matched against a bank statement
+      await addColumn(database, 'spending', 'reconciled', 'INTEGER NOT NULL DEFAULT 0');
+      await database.execAsync(
+        'CREATE UNIQUE INDEX IF NOT EXISTS idx_spending_bank_txn_id ON spending (bank_txn_id) WHERE bank_txn_id IS NOT NULL'
+      );
+    },
+  },
+  {
+    version: 13,
+    description: 'Add locked statement periods',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS locked_periods (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          closing_total REAL NOT NULL,
+          currency TEXT NOT NULL,
+          locked_at TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Add accounts and link spending to them',
+    up: async (database) => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS accounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL DEFAULT 'other',
+          institution TEXT,
+          last_four TEXT,
+          source_package TEXT
+        )
+      `);
+      await addColumn(database, 'spending', 'account_id', 'INTEGER');
+      await database.execAsync('CREATE INDEX IF NOT EXISTS idx_spending_account ON spending (account_id)');
+    },
+  },
+  {
+    version: 15,
+    description: 'Add spending tags and saved filter views',
+    up: async (database) => {
+      // Comma-separated, lowercase
+      await addColumn(database, 'spending', 'tags', 'TEXT');
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS saved_views (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          filter TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 16,
+    description: 'Add notes, merchant and a full-text index over spending',
+    up: async (database) => {
+      await addColumn(database, 'spending', 'notes', 'TEXT');
+      await addColumn(database, 'spending', 'merchant', 'TEXT');
+      // External content table: the text lives in spending, the triggers
+      // keep the index in step with it
+      await database.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS spending_fts USING fts5(
+          details, notes, merchant, tags,
+          content='spending', content_rowid='id',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS spending_fts_insert AFTER INSERT ON spending BEGIN
+          INSERT INTO spending_fts (rowid, details, notes, merchant, tags)
+          VALUES (new.id, new.details, new.notes, new.merchant, new.tags);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS spending_fts_delete AFTER DELETE ON spending BEGIN
+          INSERT INTO spending_fts (spending_fts, rowid, details, notes, merchant, tags)
+          VALUES ('delete', old.id, old.details, old.notes, old.merchant, old.tags);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS spending_fts_update AFTER UPDATE OF details, notes, merchant, tags ON spending BEGIN
+          INSERT INTO spending_fts (spending_fts, rowid, details, notes, merchant, tags)
+          VALUES ('delete', old.id, old.details, old.notes, old.merchant, old.tags);
+          INSERT INTO spending_fts (rowid, details, notes, merchant, tags)
+          VALUES (new.id, new.details, new.notes, new.merchant, new.tags);
+        END;
+
+        INSERT INTO spending_fts (spending_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 17,
+    description: 'Index spending for paged list queries',
+    up: async (database) => {
+      // Cover the list's sort orders, with id as the cursor tiebreaker
+      await database.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_spending_status_date ON spending (status, date, id);
+        CREATE INDEX IF NOT EXISTS idx_spending_status_amount ON spending (status, amount, id);
+      `);
+    },
+  },
+  {
+    version: 18,
+    description: 'Store budget limits as integer minor units',
+    up: async (database) => {
+      // Like spending, monthly_limit stays as the decimal mirror and a NULL
+      // currency means the limit was set with two decimals
+      await addColumn(database, 'budgets', 'monthly_limit_minor', 'INTEGER');
+      await addColumn(database, 'budgets', 'currency', 'TEXT');
+      const budgets = await database.getAllAsync<{ id: number; monthly_limit: number }>(
+        'SELECT id, monthly_limit FROM budgets WHERE monthly_limit_minor IS NULL'
+      );
+      for (const budget of budgets) {
+        await database.runAsync('UPDATE budgets SET monthly_limit_minor = ? WHERE id = ?', [
+          toMinorUnits(budget.monthly_limit, null),
+          budget.id,
+        ]);
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (database: SQLite.SQLiteDatabase): Promise<number> => {
+  const row = await database.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+/**
+ * Bring the database up to the latest schema version. Each migration runs in
+ * its own transaction together with the user_version bump, so a failure
+ * leaves the database at the last version that fully applied.
+ */
+export const runMigrations = async (
+  database: SQLite.SQLiteDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> => {
+  const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+  const current = await getSchemaVersion(database);
+
+  if (current > latest) {
+    throw new SchemaTooNewError(current, latest);
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= current) {
+      continue;
+    }
+
+    console.log(`Applying migration ${migration.version}: ${migration.description}`);
+    await database.withTransactionAsync(async () => {
+      await migration.up(database);
+      // PRAGMA doesn't accept bound parameters; version is always a number
+      await database.execAsync(`PRAGMA user_version = ${Math.floor(migration.version)}`);
+    });
+  }
+
+  return Math.max(current, latest);
+};
@@ -0,0 +1,32 @@
+import { formatMoney, parseAmount } from './Money';
+
+describe('parseAmount', () => {
+  it("reads the locale's separators", () => {
+    expect(parseAmount('1.234,56', 'de-DE')).toBe(1234.56);
+    expect(parseAmount('12,50', 'de-DE')).toBe(12.5);
+    expect(parseAmount('1,234', 'de-DE')).toBe(1.234);
+    expect(parseAmount('1,234.56', 'en-US')).toBe(1234.56);
+    expect(parseAmount('1.234', 'en-US')).toBe(1.234);
+    expect(parseAmount('1 234,5', 'fr-FR')).toBe(1234.5);
+  });
+
+  it('reads back what formatMoney wrote for the same locale', () => {
+    expect(parseAmount(formatMoney(-1234.5, 'EUR', 'de-DE'), 'de-DE')).toBe(-1234.5);
+    expect(parseAmount(formatMoney(98765.43, 'USD', 'en-US'), 'en-US')).toBe(98765.43);
+  });
+
+  it('rejects text with no digits or two decimal separators for a locale', () => {
+    expect(parseAmount('€', 'de-DE')).toBeNaN();
+    expect(parseAmount('1,2,3', 'de-DE')).toBeNaN();
+  });
+
+  it('guesses the separators without a locale', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('12,50')).toBe(12.5);
+    expect(parseAmount('1,234')).toBe(1234);
+    expect(parseAmount("1'234.50")).toBe(1234.5);
+    expect(parseAmount('$12')).toBe(12);
+    expect(parseAmount('abc')).toBeNaN();
+  });
+});
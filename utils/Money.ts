@@ -0,0 +1,213 @@
+export interface CurrencyInfo {
+  symbol: string;
+  decimals: number;
+}
+
+// A stored amount. amount_minor is the integer source of truth; rows that
+// haven't been through the database yet only have the decimal amount.
+export interface MoneyRow {
+  amount: number;
+  amount_minor?: number | null;
+  currency?: string | null;
+}
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  USD: { symbol: '$', decimals: 2 },
+  EUR: { symbol: '€', decimals: 2 },
+  GBP: { symbol: '£', decimals: 2 },
+  JPY: { symbol: '¥', decimals: 0 },
+  CAD: { symbol: 'CA$', decimals: 2 },
+  AUD: { symbol: 'A$', decimals: 2 },
+  CHF: { symbol: 'CHF ', decimals: 2 },
+  INR: { symbol: '₹', decimals: 2 },
+  MXN: { symbol: 'MX$', decimals: 2 },
+  CNY: { symbol: 'CN¥', decimals: 2 },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES);
+
+// Bare symbols as they appear in notifications. "$" and "¥" are shared, so
+// they resolve to the home currency when it uses the same sign.
+const SYMBOL_CURRENCIES: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+export const getCurrencyInfo = (code: string): CurrencyInfo =>
+  CURRENCIES[code] ?? { symbol: `${code} `, decimals: 2 };
+
+// Rows without a currency predate multi-currency support and were always
+// entered with two decimals, whatever the home currency is now
+const decimalsFor = (code?: string | null): number => (code ? getCurrencyInfo(code).decimals : 2);
+
+/**
+ * Convert a decimal amount to integer minor units (cents, pence, yen)
+ */
+export const toMinorUnits = (amount: number, code?: string | null): number =>
+  Math.round(amount * Math.pow(10, decimalsFor(code)));
+
+export const fromMinorUnits = (minor: number, code?: string | null): number =>
+  minor / Math.pow(10, decimalsFor(code));
+
+/**
+ * A row's amount in minor units of its own currency
+ */
+export const minorUnitsOf = (row: MoneyRow): number =>
+  row.amount_minor ?? toMinorUnits(row.amount, row.currency);
+
+/**
+ * Add amounts in one currency without floating point drift
+ */
+export const sumAmounts = (amounts: number[], code?: string | null): number =>
+  fromMinorUnits(
+    amounts.reduce((sum, amount) => sum + toMinorUnits(amount, code), 0),
+    code
+  );
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+/**
+ * Digit grouping and decimal separators for a locale, defaulting to the
+ * device's. Falls back to "1,234.56" where Intl isn't available.
+ */
+export const getSeparators = (locale?: string): { group: string; decimal: string } => {
+  const key = locale ?? '';
+  const cached = separatorCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let separators = { group: ',', decimal: '.' };
+  try {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    separators = {
+      group: parts.find((p) => p.type === 'group')?.value ?? ',',
+      decimal: parts.find((p) => p.type === 'decimal')?.value ?? '.',
+    };
+  } catch (error) {
+    console.log('Number formatting unavailable, using defaults:', error);
+  }
+  separatorCache.set(key, separators);
+  return separators;
+};
+
+/**
+ * Format an amount with the currency's symbol and number of decimals, grouped
+ * and punctuated for the locale: "$1,234.56", or "$1.234,56" in de-DE
+ */
+export const formatMoney = (amount: number, code: string, locale?: string): string => {
+  const { symbol, decimals } = getCurrencyInfo(code);
+  const { group, decimal } = getSeparators(locale);
+  const minor = Math.abs(toMinorUnits(amount, code));
+  const scale = Math.pow(10, decimals);
+
+  const whole = Math.floor(minor / scale)
+    .toString()
+    .replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  const fraction = decimals > 0 ? `${decimal}${String(minor % scale).padStart(decimals, '0')}` : '';
+  const formatted = `${symbol}${whole}${fraction}`;
+  return amount < 0 && minor > 0 ? `-${formatted}` : formatted;
+};
+
+/**
+ * Parse an amount with a locale's separators: "1.234,56" in de-DE, "1,234.56"
+ * in en-US. Without a locale the separators are guessed, so any of
+ * "1,234.56", "1.234,56", "12,50", "1 234", "1'234.50" or "$12" reads; a
+ * lone separator followed by exactly three digits is then a thousands
+ * separator. NaN when there are no digits, or when a locale is given and the
+ * text has more than one decimal separator.
+ */
+export const parseAmount = (raw: string, locale?: string): number => {
+  const negative = /^\s*[-−]/.test(raw);
+  if (locale !== undefined) {
+    const { group, decimal } = getSeparators(locale);
+    const parts = raw
+      .split(group)
+      .join('')
+      .replace(new RegExp(`[^\\d${escapeRegExp(decimal)}]`, 'g'), '')
+      .split(decimal);
+    if (!/\d/.test(parts.join('')) || parts.length > 2) {
+      return NaN;
+    }
+    const value = parseFloat(parts.join('.'));
+    return negative ? -value : value;
+  }
+
+  const text = raw.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) {
+    return NaN;
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  let decimalSeparator: string | null = null;
+  if (lastComma !== -1 && lastDot !== -1) {
+    decimalSeparator = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const separator = lastComma !== -1 ? ',' : '.';
+    const occurrences = text.split(separator).length - 1;
+    const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+    if (occurrences === 1 && digitsAfter !== 3) {
+      decimalSeparator = separator;
+    }
+  }
+
+  const normalized = decimalSeparator
+    ? text
+        .split(decimalSeparator)
+        .map((part, i, parts) => (i === parts.length - 1 ? part : part.replace(/[.,]/g, '')))
+        .join('.')
+    : text.replace(/[.,]/g, '');
+  const value = parseFloat(normalized);
+  return negative ? -value : value;
+};
+
+const NUMBER = String.raw`\d{1,3}(?:[.,\s']\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?`;
+const MARKER = `${Object.keys(SYMBOL_CURRENCIES).map(escapeRegExp).join('|')}|\\b(?:${CURRENCY_CODES.join('|')})\\b`;
+
+// An amount with its currency marker on either side: "$12.50", "€12,50",
+// "12,50 €", "EUR 1.234,56", "1,234.56 GBP"
+export const MONEY_PATTERN = new RegExp(
+  `(?:(${MARKER})\\s?(${NUMBER}))|(?:(${NUMBER})\\s?(${MARKER}))`
+);
+
+/**
+ * Resolve a currency marker to a code, preferring the home currency for
+ * symbols several currencies share
+ */
+export const currencyForMarker = (marker: string, homeCurrency: string): string | null => {
+  if (CURRENCIES[marker]) {
+    return marker;
+  }
+  if (getCurrencyInfo(homeCurrency).symbol.trim().endsWith(marker)) {
+    return homeCurrency;
+  }
+  return SYMBOL_CURRENCIES[marker] ?? null;
+};
+
+/**
+ * Find the first amount with a currency marker in the text
+ */
+export const findMoney = (
+  text: string,
+  homeCurrency: string = 'USD'
+): { amount: number; currency: string | null } | null => {
+  const match = text.match(MONEY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const marker = match[1] ?? match[4];
+  const number = match[2] ?? match[3];
+  const amount = parseAmount(number);
+  if (isNaN(amount)) {
+    return null;
+  }
+  return { amount, currency: currencyForMarker(marker, homeCurrency) };
+};
@@ -0,0 +1,218 @@
+import { matchAccount } from './Accounts';
+import { checkBudgetAlerts } from './Budgets';
+import { ExchangeRate, toHomeAmount } from './Currency';
+import { Database } from './DatabaseManager';
+import { DataValidator } from './DataValidator';
+import { parseNotification, ParsedNotification } from './NotificationParsers';
+import { applyParsingRules, loadParsingRules } from './NotificationRules';
+import { getSettings, Settings } from './SettingsService';
+import { directionFromTransactionType } from './Spending';
+import { NewSpendingCandidate } from './SpendingSchema';
+
+// How far apart a replayed notification and an existing row may be and still
+// count as the same transaction
+const REPLAY_DUPLICATE_WINDOW_MINUTES = 10;
+
+export interface IncomingNotification {
+  app: string;
+  title?: string;
+  text?: string;
+}
+
+export interface ReplayResult {
+  processed: number;
+  created: number;
+  linkedToExisting: number;
+  unmatched: number;
+  skipped: number;
+}
+
+/**
+ * Parse notification text with the current user rules, then the built-in
+ * parser for the package
+ */
+export const parseWithCurrentParsers = async (
+  packageName: string,
+  text: string,
+  homeCurrency: string = 'USD'
+): Promise<ParsedNotification | null> => {
+  const rules = await loadParsingRules();
+  return (
+    applyParsingRules(rules, packageName, text, homeCurrency) ??
+    parseNotification(packageName, text, homeCurrency)
+  );
+};
+
+/**
+ * Whether a parsed notification should become a spending row
+ */
+const shouldCapture = (
+  parsed: ParsedNotification,
+  settings: Settings,
+  rates: ExchangeRate[]
+): boolean => {
+  // maxAmount is in the home currency
+  const amount = toHomeAmount(parsed, settings.currency, rates);
+  if (amount > settings.maxAmount) {
+    console.log('Skipping notification above max amount:', amount, settings.maxAmount);
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Whether what a parser produced makes a valid transaction. A parser can
+ * match and still misread the text (no amount, an unreadable date); those
+ * are logged rather than stored.
+ */
+const isCapturable = (candidate: NewSpendingCandidate, parserId: string): boolean => {
+  const { isValid, error } = DataValidator.validateNewSpending(candidate);
+  if (!isValid) {
+    console.log(`Parser ${parserId} produced an invalid transaction:`, error);
+  }
+  return isValid;
+};
+
+/**
+ * Log, parse and store a notification delivered to the headless task
+ */
+export const ingestNotification = async (notification: IncomingNotification): Promise<void> => {
+  const settings = await getSettings();
+  if (!settings.allowedApps.includes(notification.app)) {
+    return;
+  }
+
+  const text = notification.text || '';
+  const receivedAt = new Date().toISOString();
+  const logId = await Database.addNotificationLog(
+    notification.app,
+    notification.title ?? null,
+    text,
+    receivedAt
+  );
+
+  // User-defined rules take priority over the built-in parser for the source
+  // app; anything neither understands is logged but not captured
+  const parsed = await parseWithCurrentParsers(notification.app, text, settings.currency);
+  if (!parsed) {
+    console.log('No parser matched notification from:', notification.app);
+    return;
+  }
+  console.log('Parsed notification:', parsed);
+
+  if (logId !== null) {
+    await Database.updateNotificationLog(logId, parsed.parserId, null);
+  }
+
+  if (!shouldCapture(parsed, settings, await Database.getExchangeRates())) {
+    return;
+  }
+
+  const candidate = {
+    amount: parsed.amount,
+    details: parsed.merchant || text,
+    date: parsed.date || receivedAt,
+    direction: directionFromTransactionType(parsed.transactionType),
+    currency: parsed.currency ?? settings.currency,
+  };
+  if (!isCapturable(candidate, parsed.parserId)) {
+    return;
+  }
+
+  const result = await Database.addSpending(candidate.amount, candidate.details, candidate.date, {
+    // Held for review until accepted on the review screen
+    status: 'pending',
+    source: 'notification',
+    rawNotification: JSON.stringify(notification),
+    cardLastFour: parsed.cardLastFour,
+    direction: candidate.direction,
+    currency: candidate.currency,
+    accountId: matchAccount(await Database.getAccounts(), notification.app, parsed.cardLastFour)?.id ?? null,
+    merchant: parsed.merchant,
+  });
+
+  if (logId !== null) {
+    await Database.updateNotificationLog(logId, parsed.parserId, result?.lastInsertRowId ?? null);
+  }
+
+  await checkBudgetAlerts();
+};
+
+/**
+ * Re-run the current parsers over every logged notification that never
+ * produced a transaction. Entries matching an existing row (same amount,
+ * close in time) are linked to it instead of creating a duplicate.
+ */
+export const replayNotificationLog = async (): Promise<ReplayResult> => {
+  const settings = await getSettings();
+  const entries = await Database.getUnlinkedNotificationLog();
+  const rates = await Database.getExchangeRates();
+  const accounts = await Database.getAccounts();
+  const result: ReplayResult = {
+    processed: 0,
+    created: 0,
+    linkedToExisting: 0,
+    unmatched: 0,
+    skipped: 0,
+  };
+
+  for (const entry of entries) {
+    result.processed++;
+
+    const parsed = await parseWithCurrentParsers(entry.package, entry.text || '', settings.currency);
+    if (!parsed) {
+      result.unmatched++;
+      continue;
+    }
+
+    if (!shouldCapture(parsed, settings, rates)) {
+      await Database.updateNotificationLog(entry.id, parsed.parserId, null);
+      result.skipped++;
+      continue;
+    }
+
+    const candidate = {
+      amount: parsed.amount,
+      details: parsed.merchant || entry.text || '',
+      date: parsed.date || entry.received_at,
+      direction: directionFromTransactionType(parsed.transactionType),
+      currency: parsed.currency ?? settings.currency,
+    };
+    if (!isCapturable(candidate, parsed.parserId)) {
+      await Database.updateNotificationLog(entry.id, parsed.parserId, null);
+      result.skipped++;
+      continue;
+    }
+
+    const existing = await Database.findSpendingNear(
+      candidate.amount,
+      candidate.date,
+      REPLAY_DUPLICATE_WINDOW_MINUTES,
+      candidate.direction
+    );
+    if (existing) {
+      await Database.updateNotificationLog(entry.id, parsed.parserId, existing.id);
+      result.linkedToExisting++;
+      continue;
+    }
+
+    const inserted = await Database.addSpending(candidate.amount, candidate.details, candidate.date, {
+      status: 'pending',
+      source: 'notification',
+      rawNotification: JSON.stringify({ app: entry.package, title: entry.title, text: entry.text }),
+      cardLastFour: parsed.cardLastFour,
+      direction: candidate.direction,
+      currency: candidate.currency,
+      accountId: matchAccount(accounts, entry.package, parsed.cardLastFour)?.id ?? null,
+      merchant: parsed.merchant,
+    });
+    await Database.updateNotificationLog(entry.id, parsed.parserId, inserted?.lastInsertRowId ?? null);
+    if (inserted) {
+      result.created++;
+    }
+  }
+
+  console.log('Notification log replay finished:', result);
+  return result;
+};
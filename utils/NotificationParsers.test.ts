@@ -0,0 +1,121 @@
+import { getParserForPackage, parseNotification } from './NotificationParsers';
+
+const DISCOVER = 'com.discoverfinancial.mobile';
+const CREDIT_UNION = 'com.mfoundry.mb.android.mb_731';
+const CHROME = 'com.android.chrome';
+
+describe('parseNotification', () => {
+  describe('Discover', () => {
+    it('reads a purchase', () => {
+      expect(
+        parseNotification(DISCOVER, 'A transaction of $12.50 has been initiated at STARBUCKS STORE 1234 on 10/18/2026.')
+      ).toMatchObject({
+        parserId: 'discover',
+        amount: 12.5,
+        merchant: 'STARBUCKS STORE 1234',
+        cardLastFour: null,
+        transactionType: 'purchase',
+      });
+    });
+
+    it('reads the card digits and a thousands separator', () => {
+      expect(
+        parseNotification(
+          DISCOVER,
+          'Discover Card ending in 7710: A transaction of $1,249.99 has been initiated at BEST BUY 00123 on 03/02/2026.'
+        )
+      ).toMatchObject({
+        amount: 1249.99,
+        merchant: 'BEST BUY 00123',
+        cardLastFour: '7710',
+        transactionType: 'purchase',
+      });
+    });
+
+    it('reads a refund', () => {
+      expect(
+        parseNotification(
+          DISCOVER,
+          'A refund of $23.19 has been issued at TARGET T-1234 on 10/20/2026 to your card ending in 7710.'
+        )
+      ).toMatchObject({
+        amount: 23.19,
+        merchant: 'TARGET T-1234',
+        cardLastFour: '7710',
+        transactionType: 'refund',
+      });
+    });
+  });
+
+  describe('credit union', () => {
+    it('reads a debit card purchase', () => {
+      expect(
+        parseNotification(CREDIT_UNION, 'Your debit card ending in 4821 was used for $45.00 at SHELL OIL 5744.')
+      ).toMatchObject({
+        parserId: 'credit-union',
+        amount: 45,
+        merchant: 'SHELL OIL 5744',
+        cardLastFour: '4821',
+        transactionType: 'purchase',
+      });
+    });
+
+    it('reads an ATM withdrawal', () => {
+      expect(
+        parseNotification(
+          CREDIT_UNION,
+          'A withdrawal of $100.00 was made with your debit card ending in 4821 at ATM MAIN ST BRANCH on 10/18.'
+        )
+      ).toMatchObject({
+        amount: 100,
+        merchant: 'ATM MAIN ST BRANCH',
+        cardLastFour: '4821',
+        transactionType: 'withdrawal',
+      });
+    });
+
+    it('reads a merchant credit', () => {
+      expect(
+        parseNotification(CREDIT_UNION, 'Your debit card ending in 4821 was credited $15.00 at SHELL OIL 5744.')
+      ).toMatchObject({
+        amount: 15,
+        merchant: 'SHELL OIL 5744',
+        cardLastFour: '4821',
+        transactionType: 'credit',
+      });
+    });
+  });
+
+  describe('Chrome web push', () => {
+    it('reads the charge, not the card number', () => {
+      expect(parseNotification(CHROME, 'Your card ending 4821 was charged $12.50 at Amazon.com')).toMatchObject({
+        parserId: 'chrome',
+        amount: 12.5,
+        merchant: 'Amazon.com',
+        cardLastFour: '4821',
+        transactionType: 'purchase',
+      });
+    });
+
+    it('reads a refund', () => {
+      expect(
+        parseNotification(CHROME, 'Your card ending 4821 was refunded $30.00 at Target on 10/18/2026')
+      ).toMatchObject({
+        amount: 30,
+        merchant: 'Target',
+        cardLastFour: '4821',
+        transactionType: 'refund',
+      });
+    });
+  });
+
+  it('returns null for a package with no parser', () => {
+    expect(getParserForPackage('com.whatsapp')).toBeUndefined();
+    expect(parseNotification('com.whatsapp', 'Your card ending 4821 was charged $12.50 at Amazon.com')).toBeNull();
+  });
+
+  it('returns null when the text has no amount', () => {
+    expect(parseNotification(CHROME, 'Your statement is ready to view')).toBeNull();
+    expect(parseNotification(DISCOVER, '')).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { findMoney, MONEY_PATTERN, parseAmount } from './Money';
+
+export type TransactionType = 'purchase' | 'refund' | 'payment' | 'credit' | 'withdrawal';
+
+export interface NotificationParser {
+  id: string;
+  name: string;
+  packageName: string;
+  // The match must contain the amount, ideally with its currency symbol or
+  // code ("$12.50", "12,50 €"); without one the home currency is assumed
+  amountPattern: RegExp;
+  // Tried in order; the first capture group of the first match is the merchant
+  merchantPatterns: RegExp[];
+  // The first capture group must hold the last four card digits
+  cardLastFourPattern?: RegExp;
+  // Tried in order; anything that matches none of them is a purchase
+  transactionTypePatterns: { type: TransactionType; pattern: RegExp }[];
+}
+
+export interface ParsedNotification {
+  parserId: string;
+  amount: number;
+  // ISO code when the text names a currency, otherwise null (home currency)
+  currency: string | null;
+  merchant: string | null;
+  cardLastFour: string | null;
+  transactionType: TransactionType;
+  // ISO date when the notification text carries one, otherwise null
+  date: string | null;
+}
+
+const CARD_ENDING = /ending(?:\s+in)?\s+(\d{4})\b/i;
+
+const COMMON_TYPE_PATTERNS: NotificationParser['transactionTypePatterns'] = [
+  { type: 'refund', pattern: /\b(refund(?:ed)?|return(?:ed)?|reversal)\b/i },
+  { type: 'payment', pattern: /\bpayment\b.*\b(received|posted|applied)\b/i },
+  { type: 'credit', pattern: /\b(credited|credit of|deposit(?:ed)?)\b/i },
+  { type: 'withdrawal', pattern: /\b(withdrawal|ATM)\b/i },
+];
+
+/**
+ * Discover Mobile
+ * e.g. "A transaction of $12.50 has been initiated at STARBUCKS STORE 1234 on 10/18/2026."
+ */
+const discoverParser: NotificationParser = {
+  id: 'discover',
+  name: 'Discover',
+  packageName: 'com.discoverfinancial.mobile',
+  amountPattern: MONEY_PATTERN,
+  merchantPatterns: [
+    // "... at MERCHANT NAME on ..."
+    /\bat\s+([A-Z0-9][A-Z0-9&'*.\-\s]*[A-Z0-9])\s+on\b/,
+    // Fallback: any run of capitalized words
+    /\b([A-Z][A-Z&'*\s]{2,}[A-Z])\b/,
+  ],
+  cardLastFourPattern: CARD_ENDING,
+  transactionTypePatterns: COMMON_TYPE_PATTERNS,
+};
+
+/**
+ * Credit union mobile banking (mfoundry)
+ * e.g. "Your debit card ending in 4821 was used for $45.00 at SHELL OIL 5744."
+ */
+const creditUnionParser: NotificationParser = {
+  id: 'credit-union',
+  name: 'Credit Union',
+  packageName: 'com.mfoundry.mb.android.mb_731',
+  amountPattern: MONEY_PATTERN,
+  merchantPatterns: [
+    /\bat\s+(.+?)(?:\s+on\s+\d|\.?\s*$)/i,
+    /\bto\s+(.+?)(?:\s+on\s+\d|\.?\s*$)/i,
+  ],
+  cardLastFourPattern: CARD_ENDING,
+  transactionTypePatterns: COMMON_TYPE_PATTERNS,
+};
+
+/**
+ * Web push notifications from bank sites delivered through Chrome
+ * e.g. "Your card ending 4821 was charged $12.50 at Amazon.com"
+ */
+const chromeParser: NotificationParser = {
+  id: 'chrome',
+  name: 'Chrome (web push)',
+  packageName: 'com.android.chrome',
+  amountPattern: MONEY_PATTERN,
+  merchantPatterns: [/\bat\s+(.+?)(?:\s+on\s+\d|\.?\s*$)/i],
+  cardLastFourPattern: CARD_ENDING,
+  transactionTypePatterns: COMMON_TYPE_PATTERNS,
+};
+
+export const detectTransactionType = (
+  text: string,
+  patterns: NotificationParser['transactionTypePatterns'] = COMMON_TYPE_PATTERNS
+): TransactionType => {
+  const matched = patterns.find(({ pattern }) => pattern.test(text));
+  return matched ? matched.type : 'purchase';
+};
+
+const parserRegistry = new Map<string, NotificationParser>();
+
+export const registerParser = (parser: NotificationParser): void => {
+  parserRegistry.set(parser.packageName, parser);
+};
+
+export const getParserForPackage = (
+  packageName: string
+): NotificationParser | undefined => parserRegistry.get(packageName);
+
+export const getRegisteredParsers = (): NotificationParser[] =>
+  Array.from(parserRegistry.values());
+
+[discoverParser, creditUnionParser, chromeParser].forEach(registerParser);
+
+const firstGroup = (text: string, pattern: RegExp): string | null => {
+  const match = text.match(pattern);
+  return match && match[1] ? match[1].trim() : null;
+};
+
+// Amount and currency from the parser's amount match. Patterns without a
+// currency marker fall back to their first group as a plain number.
+const readAmount = (
+  parser: NotificationParser,
+  text: string,
+  homeCurrency: string
+): { amount: number; currency: string | null } | null => {
+  const match = text.match(parser.amountPattern);
+  if (!match) {
+    return null;
+  }
+  const money = findMoney(match[0], homeCurrency);
+  if (money) {
+    return money;
+  }
+  return match[1] ? { amount: parseAmount(match[1]), currency: null } : null;
+};
+
+/**
+ * Run a single parser over notification text. Returns null if no amount was found.
+ */
+export const runParser = (
+  parser: NotificationParser,
+  text: string,
+  homeCurrency: string = 'USD'
+): ParsedNotification | null => {
+  const money = readAmount(parser, text, homeCurrency);
+  if (!money || isNaN(money.amount) || money.amount <= 0) {
+    return null;
+  }
+
+  let merchant: string | null = null;
+  for (const pattern of parser.merchantPatterns) {
+    merchant = firstGroup(text, pattern);
+    if (merchant) break;
+  }
+
+  const cardLastFour = parser.cardLastFourPattern
+    ? firstGroup(text, parser.cardLastFourPattern)
+    : null;
+
+  return {
+    parserId: parser.id,
+    amount: money.amount,
+    currency: money.currency,
+    merchant,
+    cardLastFour,
+    transactionType: detectTransactionType(text, parser.transactionTypePatterns),
+    date: null,
+  };
+};
+
+/**
+ * Parse a notification using the parser registered for its package.
+ * Returns null when no parser is registered or the text doesn't match.
+ */
+export const parseNotification = (
+  packageName: string,
+  text: string,
+  homeCurrency: string = 'USD'
+): ParsedNotification | null => {
+  if (!text) {
+    return null;
+  }
+
+  const parser = getParserForPackage(packageName);
+  if (!parser) {
+    return null;
+  }
+
+  return runParser(parser, text, homeCurrency);
+};
@@ -0,0 +1,141 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { findMoney, parseAmount } from './Money';
+import { detectTransactionType, ParsedNotification } from './NotificationParsers';
+
+const RULES_STORAGE_KEY = 'parsing_rules';
+
+export interface ParsingRule {
+  id: string;
+  packageName: string;
+  // Regex source using the named groups (?<amount>), (?<merchant>), (?<date>)
+  // and optionally (?<currency>)
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface RuleTestResult {
+  error?: string;
+  parsed: ParsedNotification | null;
+}
+
+/**
+ * Load user-defined parsing rules from storage
+ */
+export const loadParsingRules = async (): Promise<ParsingRule[]> => {
+  try {
+    const savedRules = await AsyncStorage.getItem(RULES_STORAGE_KEY);
+    return savedRules ? JSON.parse(savedRules) : [];
+  } catch (error) {
+    console.log('Error loading parsing rules:', error);
+    return [];
+  }
+};
+
+/**
+ * Save user-defined parsing rules to storage
+ */
+export const saveParsingRules = async (rules: ParsingRule[]): Promise<void> => {
+  await AsyncStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+/**
+ * Compile a rule's pattern, reporting syntax errors and missing groups
+ */
+export const compileRule = (
+  pattern: string
+): { regex?: RegExp; error?: string } => {
+  if (!pattern.trim()) {
+    return { error: 'Pattern is required' };
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'i');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid pattern';
+    return { error: message };
+  }
+
+  if (!pattern.includes('(?<amount>')) {
+    return { error: 'Pattern must contain an (?<amount>...) group' };
+  }
+
+  return { regex };
+};
+
+const toIsoDate = (value: string | undefined): string | null => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Apply a single rule to notification text
+ */
+export const testRule = (
+  rule: ParsingRule,
+  text: string,
+  homeCurrency: string = 'USD'
+): RuleTestResult => {
+  const { regex, error } = compileRule(rule.pattern);
+  if (!regex) {
+    return { error, parsed: null };
+  }
+
+  const match = text.match(regex);
+  const groups = match?.groups;
+  if (!groups || !groups.amount) {
+    return { parsed: null };
+  }
+
+  // The amount group may carry its own symbol ("€12,50"); a currency group
+  // takes priority over it
+  const money = findMoney(
+    groups.currency ? `${groups.currency.trim()} ${groups.amount}` : groups.amount,
+    homeCurrency
+  );
+  const amount = money ? money.amount : parseAmount(groups.amount);
+  if (isNaN(amount) || amount <= 0) {
+    return { error: `Could not read an amount from "${groups.amount}"`, parsed: null };
+  }
+
+  return {
+    parsed: {
+      parserId: `rule:${rule.id}`,
+      amount,
+      currency: money ? money.currency : null,
+      merchant: groups.merchant ? groups.merchant.trim() : null,
+      cardLastFour: null,
+      transactionType: detectTransactionType(text),
+      date: toIsoDate(groups.date),
+    },
+  };
+};
+
+/**
+ * Try every enabled rule for a package in order; the first match wins
+ */
+export const applyParsingRules = (
+  rules: ParsingRule[],
+  packageName: string,
+  text: string,
+  homeCurrency: string = 'USD'
+): ParsedNotification | null => {
+  for (const rule of rules) {
+    if (!rule.enabled || rule.packageName !== packageName) {
+      continue;
+    }
+
+    const { parsed, error } = testRule(rule, text, homeCurrency);
+    if (error) {
+      console.log(`Parsing rule ${rule.id} failed:`, error);
+    }
+    if (parsed) {
+      return parsed;
+    }
+  }
+
+  return null;
+};
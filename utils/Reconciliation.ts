@@ -0,0 +1,111 @@
+import { PreviewRow } from './CsvImport';
+import { DedupeOptions, scoreDuplicate } from './DuplicateDetector';
+
+// A statement period the user has checked and locked. Edits to rows inside
+// it ask for confirmation first.
+export interface LockedPeriod {
+  id: number;
+  start_date: string;
+  end_date: string;
+  // Statement's net spending for the period, in `currency`
+  closing_total: number;
+  currency: string;
+  locked_at: string;
+}
+
+export type NewLockedPeriod = Omit<LockedPeriod, 'id' | 'locked_at'>;
+
+export interface ReconcileRow {
+  id: number;
+  amount: number;
+  amount_minor?: number | null;
+  currency?: string | null;
+  details: string;
+  date: string;
+  direction?: string | null;
+  card_last_four?: string | null;
+  bank_txn_id?: string | null;
+}
+
+export interface ReconcileMatch<T extends ReconcileRow> {
+  statement: PreviewRow;
+  spending: T;
+}
+
+export interface Reconciliation<T extends ReconcileRow> {
+  matched: ReconcileMatch<T>[];
+  // On the statement but not in the app: capture missed them
+  missing: PreviewRow[];
+  // In the app but not on the statement: doubled or mistaken captures
+  extra: T[];
+}
+
+/**
+ * The first locked period containing any of the given days (dates or full
+ * timestamps), or null
+ */
+export const findLockedPeriod = (days: string[], periods: LockedPeriod[]): LockedPeriod | null =>
+  periods.find((period) =>
+    days.some((day) => {
+      const key = day.slice(0, 10);
+      return key >= period.start_date && key <= period.end_date;
+    })
+  ) ?? null;
+
+/**
+ * Pair statement lines with spending rows one to one. Rows already carrying
+ * the line's bank transaction id match outright; the rest are paired by the
+ * duplicate detector's score, best pairs first, so a close match isn't
+ * taken by a weaker one that happened to come earlier.
+ */
+export const reconcile = <T extends ReconcileRow>(
+  statement: PreviewRow[],
+  rows: T[],
+  dedupe: DedupeOptions
+): Reconciliation<T> => {
+  const matched: ReconcileMatch<T>[] = [];
+  const usedLines = new Set<PreviewRow>();
+  const usedRows = new Set<T>();
+
+  statement.forEach((line) => {
+    const row = line.bankTxnId ? rows.find((r) => r.bank_txn_id === line.bankTxnId && !usedRows.has(r)) : undefined;
+    if (row) {
+      matched.push({ statement: line, spending: row });
+      usedLines.add(line);
+      usedRows.add(row);
+    }
+  });
+
+  const pairs: { line: PreviewRow; row: T; score: number }[] = [];
+  statement.forEach((line) => {
+    if (usedLines.has(line) || line.amount === null || line.date === null) {
+      return;
+    }
+    const candidate = { amount: line.amount, details: line.details, date: line.date, direction: line.direction };
+    rows.forEach((row) => {
+      if (usedRows.has(row)) {
+        return;
+      }
+      const score = scoreDuplicate(candidate, row, dedupe);
+      if (score !== null) {
+        pairs.push({ line, row, score });
+      }
+    });
+  });
+
+  pairs
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ line, row }) => {
+      if (!usedLines.has(line) && !usedRows.has(row)) {
+        matched.push({ statement: line, spending: row });
+        usedLines.add(line);
+        usedRows.add(row);
+      }
+    });
+
+  return {
+    matched: matched.sort((a, b) => (a.statement.date ?? '').localeCompare(b.statement.date ?? '')),
+    missing: statement.filter((line) => !usedLines.has(line)),
+    extra: rows.filter((row) => !usedRows.has(row)),
+  };
+};
@@ -0,0 +1,278 @@
+import { withTransaction } from './Connection';
+import { Database } from './DatabaseManager';
+import { normalizeMerchant } from './DuplicateDetector';
+import { minorUnitsOf } from './Money';
+import { isCredit, TransactionDirection } from './Spending';
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRING_FREQUENCIES: RecurringFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+// Days are local "YYYY-MM-DD" strings, the same format the add modal stores
+export interface RecurringTemplate {
+  id: number;
+  details: string;
+  amount: number;
+  amount_minor: number;
+  currency: string | null;
+  direction: TransactionDirection;
+  category_id: number | null;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date: string | null;
+  // Day of the last occurrence written to spending; null before the first
+  last_generated: string | null;
+}
+
+export type NewRecurringTemplate = Omit<RecurringTemplate, 'id' | 'amount_minor' | 'last_generated'>;
+
+export interface UpcomingCharge {
+  template: RecurringTemplate;
+  date: string;
+}
+
+// A repeating merchant and amount in spending that no template covers yet
+export interface SubscriptionSuggestion {
+  details: string;
+  amount: number;
+  currency: string | null;
+  category_id: number | null;
+  frequency: RecurringFrequency;
+  lastDate: string;
+  count: number;
+}
+
+// Safety net for templates left unopened for years
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+// Fewest matching charges before a pattern is suggested as a subscription
+const MIN_SUBSCRIPTION_CHARGES = 3;
+
+// Accepted gaps in days between charges for each detected frequency
+const SUBSCRIPTION_GAPS: { frequency: RecurringFrequency; min: number; max: number }[] = [
+  { frequency: 'weekly', min: 6, max: 8 },
+  { frequency: 'monthly', min: 26, max: 35 },
+  { frequency: 'yearly', min: 350, max: 380 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDay = (day: string): Date => {
+  const [year, month, date] = day.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+
+/**
+ * The nth occurrence of a template, counted from its start date. Monthly and
+ * yearly dates are clamped to short months (Jan 31 → Feb 28 → Mar 31) without
+ * drifting off the original day.
+ */
+export const occurrenceAt = (template: Pick<RecurringTemplate, 'frequency' | 'start_date'>, n: number): string => {
+  const start = parseDay(template.start_date);
+  switch (template.frequency) {
+    case 'daily':
+      return dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + n));
+    case 'weekly':
+      return dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7 * n));
+    case 'monthly':
+    case 'yearly': {
+      const months = template.frequency === 'monthly' ? n : 12 * n;
+      const year = start.getFullYear();
+      const month = start.getMonth() + months;
+      const lastDay = new Date(year, month + 1, 0).getDate();
+      return dayKey(new Date(year, month, Math.min(start.getDate(), lastDay)));
+    }
+  }
+};
+
+/**
+ * Occurrences after `after` (exclusive, null for none) up to and including
+ * `through`, stopping at the template's end date
+ */
+export const occurrencesBetween = (
+  template: Pick<RecurringTemplate, 'frequency' | 'start_date' | 'end_date'>,
+  after: string | null,
+  through: string,
+  limit: number = MAX_OCCURRENCES_PER_RUN
+): string[] => {
+  const last = template.end_date && template.end_date < through ? template.end_date : through;
+  const result: string[] = [];
+  for (let n = 0; result.length < limit; n++) {
+    const day = occurrenceAt(template, n);
+    if (day > last) {
+      break;
+    }
+    if (after === null || day > after) {
+      result.push(day);
+    }
+  }
+  return result;
+};
+
+/**
+ * The next occurrence after a day, or null once the template has ended
+ */
+export const nextOccurrence = (
+  template: Pick<RecurringTemplate, 'frequency' | 'start_date' | 'end_date'>,
+  after: string
+): string | null => {
+  for (let n = 0; ; n++) {
+    const day = occurrenceAt(template, n);
+    if (template.end_date && day > template.end_date) {
+      return null;
+    }
+    if (day > after) {
+      return day;
+    }
+  }
+};
+
+/**
+ * Charges due in the next `days` days (including today) across all
+ * templates, soonest first
+ */
+export const upcomingCharges = (
+  templates: RecurringTemplate[],
+  today: string = dayKey(new Date()),
+  days: number = 30
+): UpcomingCharge[] => {
+  const start = parseDay(today);
+  const through = dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + days));
+  const yesterday = dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1));
+
+  return templates
+    .flatMap((template) => {
+      // Anything already due is written on the next app open, not "upcoming"
+      const after =
+        template.last_generated && template.last_generated > yesterday ? template.last_generated : yesterday;
+      return occurrencesBetween(template, after, through).map((date) => ({ template, date }));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Write every occurrence that has come due since each template last ran.
+ * Called when the app opens; returns how many transactions were created.
+ */
+export const generateRecurringSpending = async (today: string = dayKey(new Date())): Promise<number> => {
+  let created = 0;
+  try {
+    const templates = await Database.getRecurringTemplates();
+    for (const template of templates) {
+      for (const day of occurrencesBetween(template, template.last_generated, today)) {
+        // The occurrence and the template's progress commit together, so an
+        // interrupted run picks up where it stopped without writing it twice
+        await withTransaction(async (transaction) => {
+          await Database.addSpending(
+            template.amount,
+            template.details,
+            day,
+            {
+              source: 'recurring',
+              direction: template.direction,
+              categoryId: template.category_id,
+              currency: template.currency,
+              recurringId: template.id,
+              // A daily template's occurrences look alike a day apart, and one
+              // can match a manual entry of the same charge; neither is a repeat
+              skipDedupe: true,
+            },
+            transaction
+          );
+          await Database.markRecurringGenerated(template.id, day, transaction);
+        });
+        created++;
+      }
+    }
+    if (created > 0) {
+      console.log(`Created ${created} recurring transaction${created === 1 ? '' : 's'}`);
+    }
+  } catch (error) {
+    console.log('Error generating recurring transactions:', error);
+  }
+  return created;
+};
+
+const subscriptionKey = (
+  row: { details: string; amount: number; amount_minor?: number | null; currency?: string | null },
+  homeCurrency: string
+) => `${normalizeMerchant(row.details)}|${minorUnitsOf(row)}|${row.currency || homeCurrency}`;
+
+/**
+ * Find charges that repeat with the same merchant and amount at a steady
+ * weekly, monthly or yearly interval. Rows created by a template and
+ * patterns a template already covers are left out.
+ */
+export const detectSubscriptions = (
+  rows: {
+    details: string;
+    amount: number;
+    amount_minor?: number | null;
+    currency?: string | null;
+    date: string;
+    direction?: string | null;
+    category_id?: number | null;
+    recurring_id?: number | null;
+  }[],
+  templates: RecurringTemplate[],
+  homeCurrency: string
+): SubscriptionSuggestion[] => {
+  const covered = new Set(templates.map((template) => subscriptionKey(template, homeCurrency)));
+  const groups = new Map<string, typeof rows>();
+
+  for (const row of rows) {
+    if (isCredit(row) || row.recurring_id || !normalizeMerchant(row.details)) {
+      continue;
+    }
+    const key = subscriptionKey(row, homeCurrency);
+    if (covered.has(key)) {
+      continue;
+    }
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+
+  const suggestions: SubscriptionSuggestion[] = [];
+  groups.forEach((group) => {
+    if (group.length < MIN_SUBSCRIPTION_CHARGES) {
+      return;
+    }
+
+    const days = group.map((row) => row.date.slice(0, 10)).sort();
+    const gaps = days.slice(1).map((day, i) => daysBetween(days[i], day));
+    const match = SUBSCRIPTION_GAPS.find(({ min, max }) => gaps.every((gap) => gap >= min && gap <= max));
+    if (!match) {
+      return;
+    }
+
+    const latest = group.reduce((a, b) => (a.date > b.date ? a : b));
+    suggestions.push({
+      details: latest.details,
+      amount: latest.amount,
+      currency: latest.currency ?? null,
+      category_id: latest.category_id ?? null,
+      frequency: match.frequency,
+      lastDate: days[days.length - 1],
+      count: group.length,
+    });
+  });
+
+  return suggestions.sort((a, b) => b.count - a.count);
+};
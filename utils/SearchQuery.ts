@@ -0,0 +1,126 @@
+export type AmountOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface AmountCondition {
+  operator: AmountOperator;
+  value: number;
+}
+
+export interface ParsedSearch {
+  // FTS5 MATCH expression, or null when the query only has operators
+  match: string | null;
+  amounts: AmountCondition[];
+  // Lowercase words and phrases to highlight in results
+  highlights: string[];
+}
+
+export interface HighlightPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// amount>50, amount<=12.5, amount:20
+const AMOUNT_PATTERN = /^amount(>=|<=|>|<|=|:)(\d+(?:\.\d+)?)$/i;
+
+// Quoted phrases, then runs of anything that isn't whitespace or a quote
+const TOKEN_PATTERN = /"([^"]*)"?|[^\s"]+/g;
+
+// FTS5 string literal; the unicode61 tokenizer drops punctuation anyway
+const ftsString = (text: string): string => `"${text.replace(/"/g, '')}"`;
+
+/**
+ * Turn what was typed into the search box into an FTS5 query and amount
+ * conditions.
+ *
+ * - `coffee bean` matches rows with words starting with both
+ * - `"blue bottle"` matches the exact phrase
+ * - `coffee OR tea` matches either
+ * - `amount>50` (also `>=`, `<`, `<=`, `=`) compares the amount
+ *
+ * Bare words match as prefixes so results keep up while a word is still
+ * being typed; a trailing `*` is accepted for the same.
+ */
+export const parseSearchQuery = (query: string): ParsedSearch => {
+  const parts: string[] = [];
+  const amounts: AmountCondition[] = [];
+  const highlights: string[] = [];
+
+  for (const token of query.match(TOKEN_PATTERN) ?? []) {
+    if (token.startsWith('"')) {
+      const phrase = token.replace(/"/g, '').trim();
+      if (phrase) {
+        parts.push(ftsString(phrase));
+        highlights.push(phrase.toLowerCase());
+      }
+      continue;
+    }
+
+    const amount = token.match(AMOUNT_PATTERN);
+    if (amount) {
+      amounts.push({
+        operator: amount[1] === ':' ? '=' : (amount[1] as AmountOperator),
+        value: parseFloat(amount[2]),
+      });
+      continue;
+    }
+
+    // OR joins its neighbours; leading, trailing or doubled ORs are dropped
+    if (token === 'OR') {
+      if (parts.length > 0 && parts[parts.length - 1] !== 'OR') {
+        parts.push('OR');
+      }
+      continue;
+    }
+
+    const word = token.replace(/\*+$/, '').replace(/[^\p{L}\p{N}_'&.-]/gu, '');
+    if (word) {
+      parts.push(`${ftsString(word)}*`);
+      highlights.push(word.toLowerCase());
+    }
+  }
+
+  if (parts[parts.length - 1] === 'OR') {
+    parts.pop();
+  }
+
+  return { match: parts.length > 0 ? parts.join(' ') : null, amounts, highlights };
+};
+
+export const isEmptySearch = (search: ParsedSearch): boolean =>
+  search.match === null && search.amounts.length === 0;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split text into plain and highlighted runs. Terms match at the start of a
+ * word, the same way the search does.
+ */
+export const highlightParts = (text: string, terms: string[]): HighlightPart[] => {
+  const wanted = terms.filter(Boolean);
+  if (wanted.length === 0 || !text) {
+    return [{ text, highlighted: false }];
+  }
+
+  // Longest first so a phrase wins over a word inside it
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${[...wanted]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})`,
+    'giu'
+  );
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      parts.push({ text: text.slice(last, start), highlighted: false });
+    }
+    parts.push({ text: match[0], highlighted: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    parts.push({ text: text.slice(last), highlighted: false });
+  }
+  return parts;
+};
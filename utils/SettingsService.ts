@@ -0,0 +1,129 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_DEDUPE_OPTIONS, DedupeOptions } from './DuplicateDetector';
+
+const SETTINGS_STORAGE_KEY = 'app_settings';
+
+export interface Settings {
+  currency: string;
+  notificationSound: boolean;
+  autoBackup: boolean;
+  maxAmount: number;
+  allowedApps: string[];
+  dedupe: DedupeOptions;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  currency: 'USD',
+  notificationSound: true,
+  autoBackup: false,
+  maxAmount: 10000,
+  allowedApps: [
+    'com.discoverfinancial.mobile',
+    'com.mfoundry.mb.android.mb_731',
+    'com.android.chrome',
+  ],
+  dedupe: DEFAULT_DEDUPE_OPTIONS,
+};
+
+type SettingsListener = (settings: Settings) => void;
+
+/**
+ * Single source of settings for both the React screens and the headless
+ * notification task. Reads are cached; saves update the cache and notify
+ * subscribers so background capture picks up changes immediately.
+ */
+class SettingsService {
+  private cache: Settings | null = null;
+  private pending: Promise<Settings> | null = null;
+  private listeners = new Set<SettingsListener>();
+
+  /**
+   * Get current settings, loading them from storage on first use
+   */
+  async getSettings(): Promise<Settings> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    if (!this.pending) {
+      this.pending = this.loadFromStorage().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Persist settings and refresh the cache
+   */
+  async saveSettings(settings: Settings): Promise<void> {
+    await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    this.cache = settings;
+    this.notify(settings);
+  }
+
+  /**
+   * Drop the cached copy so the next read goes back to storage.
+   * Call this after writing app_settings anywhere other than saveSettings.
+   */
+  invalidate(): void {
+    this.cache = null;
+    if (this.listeners.size > 0) {
+      this.getSettings().then((settings) => this.notify(settings));
+    }
+  }
+
+  /**
+   * Subscribe to settings changes; returns an unsubscribe function
+   */
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async loadFromStorage(): Promise<Settings> {
+    try {
+      const savedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (savedSettings) {
+        // darkMode used to live here; the theme context owns it now
+        const { darkMode, ...otherSettings } = JSON.parse(savedSettings);
+        this.cache = {
+          ...DEFAULT_SETTINGS,
+          ...otherSettings,
+          dedupe: { ...DEFAULT_DEDUPE_OPTIONS, ...otherSettings.dedupe },
+        };
+      } else {
+        this.cache = { ...DEFAULT_SETTINGS };
+      }
+    } catch (error) {
+      console.log('Error loading settings:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    return this.cache!;
+  }
+
+  private notify(settings: Settings): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(settings);
+      } catch (error) {
+        console.log('Error in settings listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
+
+// Helper functions
+export const getSettings = () => settingsService.getSettings();
+export const saveSettings = (settings: Settings) =>
+  settingsService.saveSettings(settings);
+export const invalidateSettings = () => settingsService.invalidate();
+export const subscribeToSettings = (listener: SettingsListener) =>
+  settingsService.subscribe(listener);
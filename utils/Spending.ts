@@ -0,0 +1,101 @@
+import { ConvertedTotal, convertedTotal, ExchangeRate } from './Currency';
+import { MoneyRow } from './Money';
+import { TransactionType } from './NotificationParsers';
+
+// Amounts are always stored as positive numbers; the direction says whether
+// money left the account (debit) or came back (credit, refund)
+export type TransactionDirection = 'debit' | 'credit' | 'refund';
+
+export const TRANSACTION_DIRECTIONS: TransactionDirection[] = ['debit', 'credit', 'refund'];
+
+export const DIRECTION_LABELS: Record<TransactionDirection, string> = {
+  debit: 'Spending',
+  credit: 'Credit',
+  refund: 'Refund',
+};
+
+// Auto-captured rows wait in "pending" until reviewed; only "accepted" rows
+// count towards totals
+export type SpendingStatus = 'pending' | 'accepted' | 'rejected';
+export type SpendingSource = 'manual' | 'notification' | 'recurring' | 'import';
+
+export const SPENDING_STATUSES: SpendingStatus[] = ['pending', 'accepted', 'rejected'];
+export const SPENDING_SOURCES: SpendingSource[] = ['manual', 'notification', 'recurring', 'import'];
+
+/**
+ * A stored transaction, as read from the spending table or a backup and
+ * checked by parseSpending
+ */
+export interface Spending {
+  id: number;
+  // Always positive; see direction
+  amount: number;
+  amount_minor: number;
+  details: string;
+  // A day ("YYYY-MM-DD") or a full ISO timestamp
+  date: string;
+  direction: TransactionDirection;
+  status: SpendingStatus;
+  source: SpendingSource;
+  // JSON of the notification a captured row came from
+  raw_notification: string | null;
+  card_last_four: string | null;
+  // The row this one is suspected of repeating
+  duplicate_of: number | null;
+  category_id: number | null;
+  // null means the home currency
+  currency: string | null;
+  recurring_id: number | null;
+  bank_txn_id: string | null;
+  // 1 once matched against a statement
+  reconciled: number;
+  account_id: number | null;
+  // Comma-separated, see serializeTags
+  tags: string | null;
+  notes: string | null;
+  merchant: string | null;
+}
+
+// A row of the main list, with what it needs to describe its duplicate
+export interface SpendingListRow extends Spending {
+  duplicate_amount: number | null;
+  duplicate_currency: string | null;
+  duplicate_direction: TransactionDirection | null;
+  duplicate_date: string | null;
+}
+
+/**
+ * Map the transaction type a parser detected to a stored direction
+ */
+export const directionFromTransactionType = (type: TransactionType): TransactionDirection => {
+  switch (type) {
+    case 'refund':
+      return 'refund';
+    case 'payment':
+    case 'credit':
+      return 'credit';
+    case 'purchase':
+    case 'withdrawal':
+    default:
+      return 'debit';
+  }
+};
+
+export const isCredit = (row: { direction?: string | null }): boolean =>
+  row.direction === 'credit' || row.direction === 'refund';
+
+/**
+ * Amount with credits and refunds negated, for netting against spending
+ */
+export const signedAmount = (row: { amount: number; direction?: string | null }): number =>
+  isCredit(row) ? -row.amount : row.amount;
+
+/**
+ * Net spending across rows in the home currency: debits minus credits and
+ * refunds, summed in minor units
+ */
+export const netTotal = (
+  rows: (MoneyRow & { direction?: string | null })[],
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): ConvertedTotal => convertedTotal(rows, homeCurrency, rates, (row) => (isCredit(row) ? -1 : 1));
@@ -0,0 +1,276 @@
+import { parseDateCell } from './CsvImport';
+import { parseAmount } from './Money';
+import { SpendingSource } from './Spending';
+
+export type FilterMatch = 'all' | 'any';
+
+export type FilterCondition =
+  | { kind: 'date'; from: string | null; to: string | null }
+  // In the transaction's own currency
+  | { kind: 'amount'; min: number | null; max: number | null }
+  // null stands for uncategorized / no account
+  | { kind: 'category'; categoryIds: (number | null)[] }
+  | { kind: 'account'; accountIds: (number | null)[] }
+  | { kind: 'source'; sources: SpendingSource[] }
+  // Any of `include` (when given) and none of `exclude`
+  | { kind: 'tags'; include: string[]; exclude: string[] };
+
+export interface SpendingFilter {
+  // 'all' ANDs the conditions together, 'any' ORs them
+  match: FilterMatch;
+  conditions: FilterCondition[];
+}
+
+export interface SavedView {
+  id: number;
+  name: string;
+  filter: SpendingFilter;
+}
+
+export interface SqlClause {
+  sql: string;
+  params: (string | number)[];
+}
+
+export const FILTER_SOURCES: SpendingSource[] = ['manual', 'notification', 'import', 'recurring'];
+
+export const SOURCE_LABELS: Record<SpendingSource, string> = {
+  manual: 'Manual',
+  notification: 'Notification',
+  import: 'Import',
+  recurring: 'Recurring',
+};
+
+export const EMPTY_FILTER: SpendingFilter = { match: 'all', conditions: [] };
+
+/**
+ * "Travel, #work , travel" → ["travel", "work"]
+ */
+export const parseTags = (text: string | null | undefined): string[] =>
+  Array.from(
+    new Set(
+      (text ?? '')
+        .split(',')
+        .map((tag) => tag.trim().replace(/^#/, '').toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+// Stored form of a tag list; null when there are none
+export const serializeTags = (tags: string[]): string | null => (tags.length > 0 ? tags.join(',') : null);
+
+export const formatTags = (tags: string[]): string => tags.map((tag) => `#${tag}`).join(' ');
+
+// "2026-03-31" → "2026-04-01"; stored dates may carry a time, so ranges end
+// before the next day rather than on the last one
+const nextDay = (day: string): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+// `column IN (...)`, with null in the list also matching NULL
+const inList = (column: string, values: (number | string | null)[]): SqlClause => {
+  const present = values.filter((value): value is number | string => value !== null);
+  const parts: string[] = [];
+  if (present.length > 0) {
+    parts.push(`${column} IN (${present.map(() => '?').join(', ')})`);
+  }
+  if (present.length < values.length) {
+    parts.push(`${column} IS NULL`);
+  }
+  return { sql: `(${parts.join(' OR ')})`, params: present };
+};
+
+// Tags are stored comma-separated, so wrapping both sides in commas matches
+// whole tags only
+const hasTag = "instr(',' || COALESCE(s.tags, '') || ',', ?) > 0";
+
+const conditionToSql = (condition: FilterCondition): SqlClause => {
+  switch (condition.kind) {
+    case 'date': {
+      const parts: string[] = [];
+      const params: string[] = [];
+      if (condition.from) {
+        parts.push('s.date >= ?');
+        params.push(condition.from);
+      }
+      if (condition.to) {
+        parts.push('s.date < ?');
+        params.push(nextDay(condition.to));
+      }
+      return { sql: `(${parts.join(' AND ') || '1'})`, params };
+    }
+    case 'amount': {
+      const parts: string[] = [];
+      const params: number[] = [];
+      if (condition.min !== null) {
+        parts.push('s.amount >= ?');
+        params.push(condition.min);
+      }
+      if (condition.max !== null) {
+        parts.push('s.amount <= ?');
+        params.push(condition.max);
+      }
+      return { sql: `(${parts.join(' AND ') || '1'})`, params };
+    }
+    case 'category':
+      return inList('s.category_id', condition.categoryIds);
+    case 'account':
+      return inList('s.account_id', condition.accountIds);
+    case 'source':
+      return inList("COALESCE(s.source, 'manual')", condition.sources);
+    case 'tags': {
+      const parts: string[] = [];
+      if (condition.include.length > 0) {
+        parts.push(`(${condition.include.map(() => hasTag).join(' OR ')})`);
+      }
+      condition.exclude.forEach(() => parts.push(`NOT ${hasTag}`));
+      return {
+        sql: `(${parts.join(' AND ') || '1'})`,
+        params: [...condition.include, ...condition.exclude].map((tag) => `,${tag},`),
+      };
+    }
+  }
+};
+
+/**
+ * SQL condition over `spending s` for a filter, or null when the filter has
+ * no conditions
+ */
+export const filterToSql = (filter: SpendingFilter): SqlClause | null => {
+  if (filter.conditions.length === 0) {
+    return null;
+  }
+  const clauses = filter.conditions.map(conditionToSql);
+  return {
+    sql: `(${clauses.map((clause) => clause.sql).join(filter.match === 'all' ? ' AND ' : ' OR ')})`,
+    params: clauses.flatMap((clause) => clause.params),
+  };
+};
+
+// Editable form of a filter: one optional condition per kind, as typed
+export interface FilterDraft {
+  match: FilterMatch;
+  dateFrom: string;
+  dateTo: string;
+  amountMin: string;
+  amountMax: string;
+  categoryIds: (number | null)[];
+  accountIds: (number | null)[];
+  sources: SpendingSource[];
+  includeTags: string;
+  excludeTags: string;
+}
+
+export const draftFromFilter = (filter: SpendingFilter): FilterDraft => {
+  const draft: FilterDraft = {
+    match: filter.match,
+    dateFrom: '',
+    dateTo: '',
+    amountMin: '',
+    amountMax: '',
+    categoryIds: [],
+    accountIds: [],
+    sources: [],
+    includeTags: '',
+    excludeTags: '',
+  };
+  filter.conditions.forEach((condition) => {
+    switch (condition.kind) {
+      case 'date':
+        draft.dateFrom = condition.from ?? '';
+        draft.dateTo = condition.to ?? '';
+        break;
+      case 'amount':
+        draft.amountMin = condition.min?.toString() ?? '';
+        draft.amountMax = condition.max?.toString() ?? '';
+        break;
+      case 'category':
+        draft.categoryIds = condition.categoryIds;
+        break;
+      case 'account':
+        draft.accountIds = condition.accountIds;
+        break;
+      case 'source':
+        draft.sources = condition.sources;
+        break;
+      case 'tags':
+        draft.includeTags = condition.include.join(', ');
+        draft.excludeTags = condition.exclude.join(', ');
+        break;
+    }
+  });
+  return draft;
+};
+
+// null for a blank bound, undefined for one that can't be read
+const parseBound = (text: string): number | null | undefined => {
+  if (!text.trim()) {
+    return null;
+  }
+  const value = parseAmount(text);
+  return isNaN(value) || value < 0 ? undefined : value;
+};
+
+/**
+ * Turn the form back into a filter, leaving out blank sections. Returns an
+ * error instead when a date or amount can't be read.
+ */
+export const filterFromDraft = (draft: FilterDraft): { filter?: SpendingFilter; error?: string } => {
+  const conditions: FilterCondition[] = [];
+
+  const from = draft.dateFrom.trim() ? parseDateCell(draft.dateFrom, 'YYYY-MM-DD') : null;
+  const to = draft.dateTo.trim() ? parseDateCell(draft.dateTo, 'YYYY-MM-DD') : null;
+  if ((draft.dateFrom.trim() && !from) || (draft.dateTo.trim() && !to)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+  if (from || to) {
+    conditions.push({ kind: 'date', from, to });
+  }
+
+  const min = parseBound(draft.amountMin);
+  const max = parseBound(draft.amountMax);
+  if (min === undefined || max === undefined) {
+    return { error: 'Amounts must be numbers of at least 0' };
+  }
+  if (min !== null && max !== null && min > max) {
+    return { error: 'Minimum amount is more than the maximum' };
+  }
+  if (min !== null || max !== null) {
+    conditions.push({ kind: 'amount', min, max });
+  }
+
+  if (draft.categoryIds.length > 0) {
+    conditions.push({ kind: 'category', categoryIds: draft.categoryIds });
+  }
+  if (draft.accountIds.length > 0) {
+    conditions.push({ kind: 'account', accountIds: draft.accountIds });
+  }
+  if (draft.sources.length > 0) {
+    conditions.push({ kind: 'source', sources: draft.sources });
+  }
+
+  const include = parseTags(draft.includeTags);
+  const exclude = parseTags(draft.excludeTags);
+  if (include.length > 0 || exclude.length > 0) {
+    conditions.push({ kind: 'tags', include, exclude });
+  }
+
+  return { filter: { match: draft.match, conditions } };
+};
+
+/**
+ * Read a filter stored as JSON, or null when it isn't one
+ */
+export const parseFilter = (json: string): SpendingFilter | null => {
+  try {
+    const value = JSON.parse(json);
+    if ((value?.match === 'all' || value?.match === 'any') && Array.isArray(value.conditions)) {
+      return value as SpendingFilter;
+    }
+  } catch (error) {
+    console.log('Error parsing saved filter:', error);
+  }
+  return null;
+};
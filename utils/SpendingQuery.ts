@@ -0,0 +1,155 @@
+import { ConvertedTotal, ExchangeRate } from './Currency';
+import { fromMinorUnits } from './Money';
+import { ParsedSearch } from './SearchQuery';
+import { netTotal } from './Spending';
+import { filterToSql, SpendingFilter, SqlClause } from './SpendingFilter';
+
+export type SortField = 'date' | 'amount' | 'details';
+export type SortOrder = 'asc' | 'desc';
+
+export interface SpendingListQuery {
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  // null shows every account
+  accountId: number | null;
+  filter: SpendingFilter;
+  search: ParsedSearch | null;
+}
+
+// Keyset position: the sort value and id of the last row already loaded
+export interface SpendingCursor {
+  value: string | number;
+  id: number;
+}
+
+export interface SpendingPage<T> {
+  rows: T[];
+  // null once the last page has been read
+  nextCursor: SpendingCursor | null;
+  // Rows left out because they failed validation
+  malformed: number;
+}
+
+// Net minor units per currency, as summed by SQLite
+export interface CurrencyNet {
+  currency: string | null;
+  net_minor: number;
+  count: number;
+}
+
+export interface SpendingSection<T> {
+  key: string;
+  // First row's date; the screen formats it for the header
+  date: string;
+  data: T[];
+}
+
+export const PAGE_SIZE = 50;
+
+const SORT_COLUMNS: Record<SortField, string> = {
+  date: 's.date',
+  amount: 's.amount',
+  details: 's.details COLLATE NOCASE',
+};
+
+/**
+ * WHERE clause over `spending s` for the accepted rows a list query shows
+ */
+export const listWhere = (query: SpendingListQuery): SqlClause => {
+  const parts = ["s.status = 'accepted'"];
+  const params: (string | number)[] = [];
+
+  if (query.accountId !== null) {
+    parts.push('s.account_id = ?');
+    params.push(query.accountId);
+  }
+
+  const filter = filterToSql(query.filter);
+  if (filter) {
+    parts.push(filter.sql);
+    params.push(...filter.params);
+  }
+
+  if (query.search?.match) {
+    parts.push('s.id IN (SELECT rowid FROM spending_fts WHERE spending_fts MATCH ?)');
+    params.push(query.search.match);
+  }
+  query.search?.amounts.forEach(({ operator, value }) => {
+    parts.push(`s.amount ${operator} ?`);
+    params.push(value);
+  });
+
+  return { sql: parts.join(' AND '), params };
+};
+
+/**
+ * ORDER BY for a list query. The id breaks ties so the cursor always moves
+ * past every row it has seen.
+ */
+export const listOrder = (query: SpendingListQuery): string => {
+  const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  return `${SORT_COLUMNS[query.sortBy]} ${direction}, s.id ${direction}`;
+};
+
+/**
+ * Condition selecting the rows after a cursor in the list's order
+ */
+export const afterCursor = (query: SpendingListQuery, cursor: SpendingCursor): SqlClause => {
+  const column = SORT_COLUMNS[query.sortBy];
+  const comparison = query.sortOrder === 'asc' ? '>' : '<';
+  return {
+    sql: `(${column} ${comparison} ? OR (${column} = ? AND s.id ${comparison} ?))`,
+    params: [cursor.value, cursor.value, cursor.id],
+  };
+};
+
+/**
+ * Cursor for the page after `rows`, or null when fewer than a full page came
+ * back
+ */
+export const cursorAfter = <T extends { id: number; date: string; amount: number; details: string }>(
+  rows: T[],
+  query: SpendingListQuery,
+  limit: number
+): SpendingCursor | null => {
+  if (rows.length < limit) {
+    return null;
+  }
+  const last = rows[rows.length - 1];
+  return { value: last[query.sortBy], id: last.id };
+};
+
+/**
+ * Net total of per-currency sums in the home currency. Each currency's sum is
+ * converted once, so rounding can differ by a cent from converting row by
+ * row.
+ */
+export const netTotalOf = (nets: CurrencyNet[], homeCurrency: string, rates: ExchangeRate[]): ConvertedTotal =>
+  netTotal(
+    nets.map((net) => ({
+      amount: fromMinorUnits(net.net_minor, net.currency),
+      amount_minor: net.net_minor,
+      currency: net.currency,
+    })),
+    homeCurrency,
+    rates
+  );
+
+/**
+ * Group consecutive rows into sections by day ("YYYY-MM-DD") or month
+ * ("YYYY-MM"). Rows must already be in date order.
+ */
+export const groupByDate = <T extends { date: string }>(rows: T[], by: 'day' | 'month'): SpendingSection<T>[] => {
+  const length = by === 'day' ? 10 : 7;
+  const sections: SpendingSection<T>[] = [];
+  rows.forEach((row) => {
+    const key = row.date.slice(0, length);
+    const current = sections[sections.length - 1];
+    if (current && current.key === key) {
+      current.data.push(row);
+    } else {
+      sections.push({ key, date: row.date, data: [row] });
+    }
+  });
+  return sections;
+};
@@ -0,0 +1,255 @@
+import { toMinorUnits } from './Money';
+import {
+  Spending,
+  SPENDING_SOURCES,
+  SPENDING_STATUSES,
+  SpendingSource,
+  SpendingStatus,
+  TRANSACTION_DIRECTIONS,
+  TransactionDirection,
+} from './Spending';
+
+// A value a field rule rejected
+const INVALID = Symbol('invalid');
+
+type FieldParser<T> = (value: unknown) => T | typeof INVALID;
+
+interface FieldRule<T> {
+  parse: FieldParser<T>;
+  // Completes "<field> ..." in an error message
+  expected: string;
+}
+
+// A rule for each field of a stored record
+export type RecordSchema<T> = { [K in keyof T]: FieldRule<T[K]> };
+
+export type SpendingValidation =
+  | { spending: Spending; errors?: undefined }
+  | { spending?: undefined; errors: string[] };
+
+// A row that failed validation: its position in the input and whatever id
+// it claimed, for reports
+export interface SpendingIssue {
+  index: number;
+  id: unknown;
+  errors: string[];
+}
+
+export interface NewSpendingCandidate {
+  amount: number;
+  details: string;
+  date: string;
+  direction?: TransactionDirection;
+  currency?: string | null;
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+const text: FieldParser<string> = (value) => (typeof value === 'string' ? value : INVALID);
+
+const id: FieldParser<number> = (value) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : INVALID;
+
+const amount: FieldParser<number> = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : INVALID;
+
+const minorUnits: FieldParser<number> = (value) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : INVALID;
+
+const number: FieldParser<number> = (value) => (typeof value === 'number' && Number.isFinite(value) ? value : INVALID);
+
+const wholeNumber: FieldParser<number> = (value) =>
+  typeof value === 'number' && Number.isInteger(value) ? value : INVALID;
+
+const date: FieldParser<string> = (value) =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(new Date(value).getTime()) ? value : INVALID;
+
+const currencyCode: FieldParser<string> = (value) =>
+  typeof value === 'string' && /^[A-Z]{3}$/i.test(value) ? value : INVALID;
+
+// SQLite stores flags as 0/1; JSON backups may carry booleans
+const flag: FieldParser<number> = (value) =>
+  value === true || value === 1 ? 1 : value === false || value === 0 ? 0 : INVALID;
+
+const oneOf =
+  <T extends string>(values: readonly T[]): FieldParser<T> =>
+  (value) =>
+    values.includes(value as T) ? (value as T) : INVALID;
+
+const nullable =
+  <T>(parse: FieldParser<T>): FieldParser<T | null> =>
+  (value) =>
+    isMissing(value) ? null : parse(value);
+
+// Columns added by later migrations are missing from older backups; they
+// get the column's default
+const withDefault =
+  <T>(parse: FieldParser<T>, fallback: T): FieldParser<T> =>
+  (value) =>
+    isMissing(value) ? fallback : parse(value);
+
+const rule = <T>(parse: FieldParser<T>, expected: string): FieldRule<T> => ({ parse, expected });
+
+// The field parsers, for schemas of other stored records
+export const fields = {
+  text,
+  id,
+  amount,
+  minorUnits,
+  number,
+  wholeNumber,
+  date,
+  currencyCode,
+  flag,
+  oneOf,
+  nullable,
+  withDefault,
+  rule,
+};
+
+/**
+ * Check a record against a schema, filling in defaults. Columns outside the
+ * schema are passed through untouched. `description` completes "is not a
+ * ..." when the value isn't a record at all.
+ */
+export const parseRecord = <T>(
+  schema: RecordSchema<T>,
+  value: unknown,
+  description: string
+): { record?: T; errors: string[] } => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: [`is not a ${description}`] };
+  }
+  const row = value as Record<string, unknown>;
+  const parsed: Record<string, unknown> = { ...row };
+  const errors: string[] = [];
+
+  for (const [field, { parse, expected }] of Object.entries<FieldRule<unknown>>(schema)) {
+    const result = parse(row[field]);
+    if (result === INVALID) {
+      errors.push(`${field} ${expected}`);
+    } else {
+      parsed[field] = result;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { record: parsed as T, errors };
+};
+
+// amount_minor is left to parseSpending, which derives it from the amount
+// when a row predates minor units
+const SPENDING_SCHEMA: RecordSchema<Omit<Spending, 'amount_minor'>> = {
+  id: rule(id, 'must be a positive whole number'),
+  amount: rule(amount, 'must be a number of at least 0'),
+  details: rule(text, 'must be text'),
+  date: rule(date, 'must be a date'),
+  direction: rule(
+    withDefault(oneOf(TRANSACTION_DIRECTIONS), 'debit'),
+    `must be one of ${TRANSACTION_DIRECTIONS.join(', ')}`
+  ),
+  status: rule(
+    withDefault(oneOf<SpendingStatus>(SPENDING_STATUSES), 'accepted'),
+    `must be one of ${SPENDING_STATUSES.join(', ')}`
+  ),
+  source: rule(
+    withDefault(oneOf<SpendingSource>(SPENDING_SOURCES), 'manual'),
+    `must be one of ${SPENDING_SOURCES.join(', ')}`
+  ),
+  raw_notification: rule(nullable(text), 'must be text'),
+  card_last_four: rule(nullable(text), 'must be text'),
+  duplicate_of: rule(nullable(id), 'must be a row id'),
+  category_id: rule(nullable(id), 'must be a category id'),
+  currency: rule(nullable(currencyCode), 'must be a three-letter currency code'),
+  recurring_id: rule(nullable(id), 'must be a template id'),
+  bank_txn_id: rule(nullable(text), 'must be text'),
+  reconciled: rule(withDefault(flag, 0), 'must be 0 or 1'),
+  account_id: rule(nullable(id), 'must be an account id'),
+  tags: rule(nullable(text), 'must be text'),
+  notes: rule(nullable(text), 'must be text'),
+  merchant: rule(nullable(text), 'must be text'),
+};
+
+/**
+ * Check a spending row read from the database or a backup, filling in
+ * defaults for columns older rows don't have. Columns outside the schema
+ * are passed through untouched.
+ */
+export const parseSpending = (value: unknown): SpendingValidation => {
+  const { record, errors } = parseRecord(SPENDING_SCHEMA, value, 'transaction record');
+  const row = value as Record<string, unknown> | null;
+
+  if (isMissing(row?.amount_minor)) {
+    if (record) {
+      return { spending: { ...record, amount_minor: toMinorUnits(record.amount, record.currency) } };
+    }
+  } else if (minorUnits(row!.amount_minor) === INVALID) {
+    errors.push('amount_minor must be a whole number of at least 0');
+  }
+
+  return errors.length > 0 ? { errors } : { spending: record as Spending };
+};
+
+/**
+ * Split rows into the ones that pass parseSpending and issues describing
+ * the ones that don't
+ */
+export const parseSpendingRows = <T extends Spending = Spending>(
+  values: unknown[]
+): { rows: T[]; issues: SpendingIssue[] } => {
+  const rows: T[] = [];
+  const issues: SpendingIssue[] = [];
+  values.forEach((value, index) => {
+    const result = parseSpending(value);
+    if (result.spending) {
+      rows.push(result.spending as T);
+    } else {
+      issues.push({
+        index,
+        id: (value as { id?: unknown } | null)?.id,
+        errors: result.errors,
+      });
+    }
+  });
+  return { rows, issues };
+};
+
+/**
+ * "Row 3 (id 12): amount must be a number of at least 0; date must be a date"
+ */
+export const formatSpendingIssue = (issue: SpendingIssue): string =>
+  `Row ${issue.index + 1}${isMissing(issue.id) ? '' : ` (id ${String(issue.id)})`}: ${issue.errors.join('; ')}`;
+
+/**
+ * Log rows that were left out because they failed validation
+ */
+export const reportSpendingIssues = (where: string, issues: SpendingIssue[]): void => {
+  if (issues.length === 0) {
+    return;
+  }
+  console.log(`Skipped ${issues.length} malformed transaction(s) in ${where}:`);
+  issues.forEach((issue) => console.log(`  ${formatSpendingIssue(issue)}`));
+};
+
+/**
+ * Problems with a transaction about to be stored, e.g. one a notification
+ * parser produced; empty when it can be saved
+ */
+export const checkNewSpending = (candidate: NewSpendingCandidate): string[] => {
+  const errors: string[] = [];
+  if (amount(candidate.amount) === INVALID || candidate.amount === 0) {
+    errors.push('amount must be a number greater than 0');
+  }
+  if (text(candidate.details) === INVALID || candidate.details.trim() === '') {
+    errors.push('details are required');
+  }
+  if (date(candidate.date) === INVALID) {
+    errors.push('date must be a date');
+  }
+  if (!isMissing(candidate.direction) && oneOf(TRANSACTION_DIRECTIONS)(candidate.direction) === INVALID) {
+    errors.push(`direction ${SPENDING_SCHEMA.direction.expected}`);
+  }
+  if (nullable(currencyCode)(candidate.currency) === INVALID) {
+    errors.push(`currency ${SPENDING_SCHEMA.currency.expected}`);
+  }
+  return errors;
+};
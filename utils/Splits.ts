@@ -0,0 +1,129 @@
+import { ExchangeRate } from './Currency';
+import { DataValidator } from './DataValidator';
+import { formatMoney, fromMinorUnits, toMinorUnits } from './Money';
+import { netTotal } from './Spending';
+
+export interface SpendingSplit {
+  id: number;
+  spending_id: number;
+  amount: number;
+  amount_minor: number;
+  category_id: number | null;
+  note: string | null;
+  position: number;
+}
+
+// A split line as edited, before validation
+export interface SplitDraft {
+  amount: string;
+  categoryId: number | null;
+  note: string;
+}
+
+export interface SplitLine {
+  amount: number;
+  category_id: number | null;
+  note: string | null;
+}
+
+// One categorized piece of spending: a whole row, or one line of a split
+// row. Lines take direction, currency and date from their parent.
+export interface SpendingLine {
+  amount: number;
+  amount_minor: number | null;
+  direction: string | null;
+  category_id: number | null;
+  currency: string | null;
+  date: string;
+  account_id?: number | null;
+}
+
+export interface CategoryTotal {
+  categoryId: number | null;
+  total: number;
+}
+
+export const splitDraftsFrom = (splits: SpendingSplit[]): SplitDraft[] =>
+  splits.map((split) => ({
+    amount: split.amount.toString(),
+    categoryId: split.category_id,
+    note: split.note ?? '',
+  }));
+
+/**
+ * What's left of the parent amount after the lines entered so far. Lines
+ * that don't parse yet count as zero.
+ */
+export const splitRemainder = (drafts: SplitDraft[], parentAmount: number, currency: string): number => {
+  const used = drafts.reduce((sum, draft) => {
+    const { value } = DataValidator.validateAmount(draft.amount, currency);
+    return sum + (value ? toMinorUnits(value, currency) : 0);
+  }, 0);
+  return fromMinorUnits(toMinorUnits(parentAmount, currency) - used, currency);
+};
+
+/**
+ * Check split lines and return them ready to store. There must be at least
+ * two, each with a valid amount, and they must add up to the parent exactly.
+ */
+export const validateSplits = (
+  drafts: SplitDraft[],
+  parentAmount: number,
+  currency: string
+): { lines?: SplitLine[]; error?: string } => {
+  if (drafts.length < 2) {
+    return { error: 'A split needs at least two lines' };
+  }
+
+  const lines: SplitLine[] = [];
+  for (let i = 0; i < drafts.length; i++) {
+    const { value, error } = DataValidator.validateAmount(drafts[i].amount, currency);
+    if (error) {
+      return { error: `Line ${i + 1}: ${error}` };
+    }
+    lines.push({
+      amount: value!,
+      category_id: drafts[i].categoryId,
+      note: drafts[i].note.trim() || null,
+    });
+  }
+
+  const remainder = splitRemainder(drafts, parentAmount, currency);
+  if (remainder !== 0) {
+    return {
+      error:
+        remainder > 0
+          ? `Lines are ${formatMoney(remainder, currency)} short of the transaction amount`
+          : `Lines are ${formatMoney(-remainder, currency)} over the transaction amount`,
+    };
+  }
+
+  return { lines };
+};
+
+/**
+ * Net spending per category in the home currency, largest first
+ */
+export const categoryTotals = (
+  lines: SpendingLine[],
+  homeCurrency: string,
+  rates: ExchangeRate[]
+): CategoryTotal[] => {
+  const groups = new Map<number | null, SpendingLine[]>();
+  lines.forEach((line) => {
+    const group = groups.get(line.category_id);
+    if (group) {
+      group.push(line);
+    } else {
+      groups.set(line.category_id, [line]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([categoryId, group]) => ({
+      categoryId,
+      total: netTotal(group, homeCurrency, rates).total,
+    }))
+    .filter((item) => item.total !== 0)
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,204 @@
+import { Category } from './Categorizer';
+import { parseDateCell, PreviewRow } from './CsvImport';
+import { DataValidator } from './DataValidator';
+import { normalizeMerchant } from './DuplicateDetector';
+
+export type StatementFormat = 'ofx' | 'qif';
+
+// QIF dates carry no hint of their order; OFX dates are always YYYYMMDD
+export type QifDateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const QIF_DATE_FORMATS: QifDateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export interface StatementTransaction {
+  // Stable across re-downloads of the same statement: the OFX FITID, or for
+  // QIF, built from the row itself
+  id: string;
+  // Signed as the bank writes it: negative is money out
+  amount: string;
+  // "YYYY-MM-DD", or '' when the file's date couldn't be read
+  date: string;
+  details: string;
+  category: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  // Statement currency when the file names one (OFX CURDEF)
+  currency: string | null;
+  transactions: StatementTransaction[];
+}
+
+/**
+ * Tell OFX/QFX and QIF files apart by content, falling back to the file name
+ */
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat | null => {
+  const head = text.slice(0, 1000);
+  if (/OFXHEADER|<OFX>/i.test(head)) {
+    return 'ofx';
+  }
+  if (/^\s*!(Type|Account|Option)/im.test(head)) {
+    return 'qif';
+  }
+  if (/\.(ofx|qfx)$/i.test(fileName)) {
+    return 'ofx';
+  }
+  if (/\.qif$/i.test(fileName)) {
+    return 'qif';
+  }
+  return null;
+};
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+// Value of an OFX element. SGML-style OFX 1.x leaves elements unclosed, so
+// the value runs to the next tag or line break.
+const ofxValue = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+// "20260314120000.000[-5:EST]" → "2026-03-14"
+const ofxDate = (raw: string): string => {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseDateCell(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD') ?? '' : '';
+};
+
+/**
+ * Parse an OFX or QFX statement, either the SGML 1.x or XML 2.x flavour
+ */
+export const parseOfx = (text: string): ParsedStatement => {
+  const currency = ofxValue(text, 'CURDEF').toUpperCase() || null;
+  const transactions: StatementTransaction[] = [];
+
+  // FITIDs are only unique within an account, and one file can hold several
+  const statements = text.split(/<STMTRS>|<CCSTMTRS>/i).slice(1);
+  for (const statement of statements.length > 0 ? statements : [text]) {
+    const account = ofxValue(statement, 'ACCTID');
+    const blocks = statement.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+    blocks.forEach((block, index) => {
+      const fitId = ofxValue(block, 'FITID');
+      const name = ofxValue(block, 'NAME');
+      const memo = ofxValue(block, 'MEMO');
+      const date = ofxDate(ofxValue(block, 'DTPOSTED'));
+      const amount = ofxValue(block, 'TRNAMT');
+      transactions.push({
+        // A missing FITID is out of spec, but don't let it break re-imports
+        id: `ofx:${account}:${fitId || `${date}:${amount}:${normalizeMerchant(name || memo)}:${index}`}`,
+        amount,
+        date,
+        details: name || memo,
+        category: '',
+      });
+    });
+  }
+
+  return { format: 'ofx', currency, transactions };
+};
+
+/**
+ * Parse a QIF file. QIF has no transaction ids, so each row gets one from
+ * its date, amount and payee, numbered when the same charge repeats, which
+ * keeps the ids the same every time the file is exported.
+ */
+export const parseQif = (text: string, dateFormat: QifDateFormat = 'MM/DD/YYYY'): ParsedStatement => {
+  const transactions: StatementTransaction[] = [];
+  const seen = new Map<string, number>();
+  let fields: Record<string, string> = {};
+
+  const finish = () => {
+    if (fields.T === undefined && fields.U === undefined) {
+      fields = {};
+      return;
+    }
+    // Quicken writes years after 1999 as 3/14'26
+    const date = parseDateCell((fields.D ?? '').replace(/'/g, '/'), dateFormat) ?? '';
+    const amount = fields.T ?? fields.U ?? '';
+    const details = fields.P || fields.M || '';
+    const key = `${date}:${amount}:${normalizeMerchant(details)}`;
+    const count = seen.get(key) ?? 0;
+    seen.set(key, count + 1);
+
+    transactions.push({
+      id: `qif:${key}:${count}`,
+      amount,
+      date,
+      details,
+      // "Groceries:Food" → "Groceries"; "[Savings]" is a transfer account
+      category: (fields.L ?? '').startsWith('[') ? '' : (fields.L ?? '').split(':')[0],
+    });
+    fields = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) {
+      continue;
+    }
+    if (line === '^') {
+      finish();
+      continue;
+    }
+    // Split lines (S/E/$) repeat; the first value of each field is kept
+    const code = line[0];
+    if (fields[code] === undefined) {
+      fields[code] = line.slice(1).trim();
+    }
+  }
+  finish();
+
+  return { format: 'qif', currency: null, transactions };
+};
+
+/**
+ * Validate statement rows for the import preview. Unlike CSV there is no
+ * sign setting: both formats write money out as negative.
+ */
+export const statementPreviewRows = (
+  transactions: StatementTransaction[],
+  currency: string,
+  categories: Category[]
+): PreviewRow[] =>
+  transactions.map((transaction, i) => {
+    const errors: string[] = [];
+    const negative = /^\s*[-−]/.test(transaction.amount);
+    const unsigned = transaction.amount.replace(/[-−+]/g, '');
+    const amountValidation = DataValidator.validateAmount(unsigned, currency);
+    if (amountValidation.error) {
+      errors.push(amountValidation.error);
+    }
+
+    const detailsValidation = DataValidator.validateDetails(transaction.details);
+    if (detailsValidation.error) {
+      errors.push(detailsValidation.error);
+    }
+
+    const dateValidation = transaction.date
+      ? DataValidator.validateDate(transaction.date, true)
+      : { error: 'Date could not be read' };
+    if (dateValidation.error) {
+      errors.push(dateValidation.error);
+    }
+
+    const categoryName = transaction.category.toLowerCase();
+    const category = categoryName ? categories.find((c) => c.name.toLowerCase() === categoryName) : undefined;
+
+    return {
+      line: i + 1,
+      amount: amountValidation.value ?? null,
+      details: detailsValidation.value ?? '',
+      date: dateValidation.error ? null : transaction.date,
+      direction: negative ? 'debit' : 'credit',
+      categoryId: category ? category.id : undefined,
+      bankTxnId: transaction.id,
+      errors,
+    };
+  });
@@ -0,0 +1,38 @@
+import * as SQLite from 'expo-sqlite';
+import { Account, NewAccount } from '../Accounts';
+import { Repository } from './Repository';
+
+export class AccountRepository extends Repository {
+  async getAll(): Promise<Account[]> {
+    const database = await this.database();
+    return database.getAllAsync<Account>('SELECT * FROM accounts ORDER BY name COLLATE NOCASE');
+  }
+
+  async add(account: NewAccount): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync(
+        'INSERT INTO accounts (name, type, institution, last_four, source_package) VALUES (?, ?, ?, ?, ?)',
+        [account.name, account.type, account.institution, account.last_four, account.source_package]
+      );
+    });
+  }
+
+  async update(id: number, account: NewAccount): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync(
+        'UPDATE accounts SET name = ?, type = ?, institution = ?, last_four = ?, source_package = ? WHERE id = ?',
+        [account.name, account.type, account.institution, account.last_four, account.source_package, id]
+      );
+    });
+  }
+
+  /**
+   * Transactions in a deleted account are kept, just unassigned
+   */
+  async delete(id: number): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.runAsync('UPDATE spending SET account_id = NULL WHERE account_id = ?', [id]);
+      await database.runAsync('DELETE FROM accounts WHERE id = ?', [id]);
+    });
+  }
+}
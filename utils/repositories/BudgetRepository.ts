@@ -0,0 +1,63 @@
+import * as SQLite from 'expo-sqlite';
+import { Budget } from '../Budgets';
+import { fromMinorUnits, toMinorUnits } from '../Money';
+import { Repository } from './Repository';
+
+/**
+ * Monthly budgets and the alerts already sent for them
+ */
+export class BudgetRepository extends Repository {
+  async getAll(): Promise<Budget[]> {
+    const database = await this.database();
+    return database.getAllAsync<Budget>('SELECT * FROM budgets ORDER BY category_id IS NOT NULL, id');
+  }
+
+  /**
+   * One budget per category; categoryId null sets the overall budget. The
+   * limit is stored in minor units of `currency`.
+   */
+  async set(
+    categoryId: number | null,
+    monthlyLimit: number,
+    currency: string,
+    rollover: boolean
+  ): Promise<SQLite.SQLiteRunResult> {
+    const limitMinor = toMinorUnits(monthlyLimit, currency);
+    const limit = fromMinorUnits(limitMinor, currency);
+    return this.connection.withTransaction(async (database) => {
+      const existing = await database.getFirstAsync<{ id: number }>('SELECT id FROM budgets WHERE category_id IS ?', [
+        categoryId,
+      ]);
+      if (existing) {
+        return database.runAsync(
+          'UPDATE budgets SET monthly_limit = ?, monthly_limit_minor = ?, currency = ?, rollover = ? WHERE id = ?',
+          [limit, limitMinor, currency, rollover ? 1 : 0, existing.id]
+        );
+      }
+      return database.runAsync(
+        'INSERT INTO budgets (category_id, monthly_limit, monthly_limit_minor, currency, rollover) VALUES (?, ?, ?, ?, ?)',
+        [categoryId, limit, limitMinor, currency, rollover ? 1 : 0]
+      );
+    });
+  }
+
+  async delete(id: number): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      await database.runAsync('DELETE FROM budget_alerts WHERE budget_id = ?', [id]);
+      return database.runAsync('DELETE FROM budgets WHERE id = ?', [id]);
+    });
+  }
+
+  /**
+   * Record that an alert went out; false if it had already been sent
+   */
+  async recordAlert(budgetId: number, month: string, threshold: number): Promise<boolean> {
+    return this.connection.withTransaction(async (database) => {
+      const result = await database.runAsync(
+        'INSERT OR IGNORE INTO budget_alerts (budget_id, month, threshold, sent_at) VALUES (?, ?, ?, ?)',
+        [budgetId, month, threshold, new Date().toISOString()]
+      );
+      return result.changes > 0;
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import * as SQLite from 'expo-sqlite';
+import { Category, CategoryRule } from '../Categorizer';
+import { Repository } from './Repository';
+
+/**
+ * Categories and the rules that assign them
+ */
+export class CategoryRepository extends Repository {
+  async getAll(): Promise<Category[]> {
+    const database = await this.database();
+    return database.getAllAsync<Category>('SELECT * FROM categories ORDER BY name COLLATE NOCASE');
+  }
+
+  async add(name: string, color: string, icon: string): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('INSERT INTO categories (name, color, icon) VALUES (?, ?, ?)', [name, color, icon]);
+    });
+  }
+
+  async update(id: number, name: string, color: string, icon: string): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('UPDATE categories SET name = ?, color = ?, icon = ? WHERE id = ?', [
+        name,
+        color,
+        icon,
+        id,
+      ]);
+    });
+  }
+
+  /**
+   * Transactions in a deleted category become uncategorized; its budgets
+   * and rules go with it
+   */
+  async delete(id: number): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.runAsync(
+        'DELETE FROM budget_alerts WHERE budget_id IN (SELECT id FROM budgets WHERE category_id = ?)',
+        [id]
+      );
+      await database.runAsync('DELETE FROM budgets WHERE category_id = ?', [id]);
+      await database.runAsync('UPDATE spending SET category_id = NULL WHERE category_id = ?', [id]);
+      await database.runAsync('UPDATE recurring_templates SET category_id = NULL WHERE category_id = ?', [id]);
+      await database.runAsync('UPDATE spending_splits SET category_id = NULL WHERE category_id = ?', [id]);
+      await database.runAsync('DELETE FROM category_rules WHERE category_id = ?', [id]);
+      await database.runAsync('DELETE FROM categories WHERE id = ?', [id]);
+    });
+  }
+
+  async getRules(): Promise<CategoryRule[]> {
+    const database = await this.database();
+    return database.getAllAsync<CategoryRule>('SELECT * FROM category_rules ORDER BY priority, id');
+  }
+
+  async addRule(pattern: string, categoryId: number, priority: number = 0): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('INSERT INTO category_rules (pattern, category_id, priority) VALUES (?, ?, ?)', [
+        pattern,
+        categoryId,
+        priority,
+      ]);
+    });
+  }
+
+  async deleteRule(id: number): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('DELETE FROM category_rules WHERE id = ?', [id]);
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import * as SQLite from 'expo-sqlite';
+import { ExchangeRate } from '../Currency';
+import { Repository } from './Repository';
+
+export class ExchangeRateRepository extends Repository {
+  async getAll(): Promise<ExchangeRate[]> {
+    const database = await this.database();
+    return database.getAllAsync<ExchangeRate>('SELECT * FROM exchange_rates ORDER BY currency, base');
+  }
+
+  /**
+   * Insert or replace rates, e.g. from a CSV import, in one transaction
+   */
+  async save(rates: { currency: string; base: string; rate: number }[]): Promise<void> {
+    const updatedAt = new Date().toISOString();
+    await this.connection.withTransaction(async (database) => {
+      for (const rate of rates) {
+        await database.runAsync(
+          'INSERT OR REPLACE INTO exchange_rates (currency, base, rate, updated_at) VALUES (?, ?, ?, ?)',
+          [rate.currency, rate.base, rate.rate, updatedAt]
+        );
+      }
+    });
+  }
+
+  async delete(currency: string, base: string): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('DELETE FROM exchange_rates WHERE currency = ? AND base = ?', [currency, base]);
+    });
+  }
+}
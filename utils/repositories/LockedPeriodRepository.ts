@@ -0,0 +1,28 @@
+import * as SQLite from 'expo-sqlite';
+import { LockedPeriod, NewLockedPeriod } from '../Reconciliation';
+import { Repository } from './Repository';
+
+export class LockedPeriodRepository extends Repository {
+  async getAll(): Promise<LockedPeriod[]> {
+    const database = await this.database();
+    return database.getAllAsync<LockedPeriod>('SELECT * FROM locked_periods ORDER BY start_date DESC');
+  }
+
+  async lock(period: NewLockedPeriod): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync(
+        'INSERT INTO locked_periods (start_date, end_date, closing_total, currency, locked_at) VALUES (?, ?, ?, ?, ?)',
+        [period.start_date, period.end_date, period.closing_total, period.currency, new Date().toISOString()]
+      );
+    });
+  }
+
+  /**
+   * Rows stay marked reconciled; only the edit guard goes away
+   */
+  async unlock(id: number): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('DELETE FROM locked_periods WHERE id = ?', [id]);
+    });
+  }
+}
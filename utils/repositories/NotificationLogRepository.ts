@@ -0,0 +1,60 @@
+import { Repository } from './Repository';
+
+export interface NotificationLogEntry {
+  id: number;
+  package: string;
+  title: string | null;
+  text: string | null;
+  received_at: string;
+  parser_id: string | null;
+  spending_id: number | null;
+}
+
+/**
+ * Every notification the listener saw, and what capture made of it
+ */
+export class NotificationLogRepository extends Repository {
+  async add(packageName: string, title: string | null, text: string | null, receivedAt: string): Promise<number> {
+    return this.connection.withTransaction(async (database) => {
+      const result = await database.runAsync(
+        'INSERT INTO notification_log (package, title, text, received_at) VALUES (?, ?, ?, ?)',
+        [packageName, title, text, receivedAt]
+      );
+      return result.lastInsertRowId;
+    });
+  }
+
+  async update(id: number, parserId: string | null, spendingId: number | null): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.runAsync('UPDATE notification_log SET parser_id = ?, spending_id = ? WHERE id = ?', [
+        parserId,
+        spendingId,
+        id,
+      ]);
+    });
+  }
+
+  async getRecent(limit: number = 200): Promise<NotificationLogEntry[]> {
+    const database = await this.database();
+    return database.getAllAsync<NotificationLogEntry>(
+      'SELECT * FROM notification_log ORDER BY received_at DESC LIMIT ?',
+      [limit]
+    );
+  }
+
+  /**
+   * Entries no transaction came from, oldest first
+   */
+  async getUnlinked(): Promise<NotificationLogEntry[]> {
+    const database = await this.database();
+    return database.getAllAsync<NotificationLogEntry>(
+      'SELECT * FROM notification_log WHERE spending_id IS NULL ORDER BY received_at ASC'
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.execAsync('DELETE FROM notification_log');
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import * as SQLite from 'expo-sqlite';
+import { Transaction } from '../Connection';
+import { fromMinorUnits, toMinorUnits } from '../Money';
+import { NewRecurringTemplate, RecurringTemplate } from '../Recurring';
+import { Repository } from './Repository';
+
+export class RecurringRepository extends Repository {
+  async getAll(): Promise<RecurringTemplate[]> {
+    const database = await this.database();
+    return database.getAllAsync<RecurringTemplate>('SELECT * FROM recurring_templates ORDER BY details COLLATE NOCASE');
+  }
+
+  /**
+   * lastGenerated marks occurrences that already exist in spending, e.g.
+   * when tracking a subscription detected from past charges
+   */
+  async add(template: NewRecurringTemplate, lastGenerated: string | null = null): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      const amountMinor = toMinorUnits(template.amount, template.currency);
+      return database.runAsync(
+        'INSERT INTO recurring_templates (details, amount, amount_minor, currency, direction, category_id, frequency, start_date, end_date, last_generated) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          template.details,
+          fromMinorUnits(amountMinor, template.currency),
+          amountMinor,
+          template.currency,
+          template.direction,
+          template.category_id,
+          template.frequency,
+          template.start_date,
+          template.end_date,
+          lastGenerated,
+        ]
+      );
+    });
+  }
+
+  /**
+   * Occurrences already generated are kept; new ones follow the new rule
+   */
+  async update(id: number, template: NewRecurringTemplate): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      const amountMinor = toMinorUnits(template.amount, template.currency);
+      return database.runAsync(
+        'UPDATE recurring_templates SET details = ?, amount = ?, amount_minor = ?, currency = ?, direction = ?, category_id = ?, frequency = ?, start_date = ?, end_date = ? WHERE id = ?',
+        [
+          template.details,
+          fromMinorUnits(amountMinor, template.currency),
+          amountMinor,
+          template.currency,
+          template.direction,
+          template.category_id,
+          template.frequency,
+          template.start_date,
+          template.end_date,
+          id,
+        ]
+      );
+    });
+  }
+
+  /**
+   * Past occurrences stay in spending, unlinked from the template
+   */
+  async delete(id: number): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.runAsync('UPDATE spending SET recurring_id = NULL WHERE recurring_id = ?', [id]);
+      await database.runAsync('DELETE FROM recurring_templates WHERE id = ?', [id]);
+    });
+  }
+
+  async markGenerated(id: number, day: string, within?: Transaction): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('UPDATE recurring_templates SET last_generated = ? WHERE id = ?', [day, id]);
+    }, within);
+  }
+}
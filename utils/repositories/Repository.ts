@@ -0,0 +1,16 @@
+import { connection as appConnection, ConnectionManager } from '../Connection';
+
+/**
+ * Base for the typed data access classes. Each repository owns the SQL for
+ * its tables and runs it on the connection it was given, the app's shared
+ * one unless told otherwise. Writes go through connection.withTransaction
+ * so they queue behind a transaction that is already open. Errors are
+ * thrown; callers decide whether to fall back or surface them.
+ */
+export abstract class Repository {
+  constructor(protected readonly connection: ConnectionManager = appConnection) {}
+
+  protected database() {
+    return this.connection.get();
+  }
+}
@@ -0,0 +1,37 @@
+import * as SQLite from 'expo-sqlite';
+import { parseFilter, SavedView, SpendingFilter } from '../SpendingFilter';
+import { Repository } from './Repository';
+
+export class SavedViewRepository extends Repository {
+  /**
+   * Views whose stored filter can't be read are left out
+   */
+  async getAll(): Promise<SavedView[]> {
+    const database = await this.database();
+    const rows = await database.getAllAsync<{ id: number; name: string; filter: string }>(
+      'SELECT * FROM saved_views ORDER BY name COLLATE NOCASE'
+    );
+    return rows.flatMap((row) => {
+      const filter = parseFilter(row.filter);
+      return filter ? [{ id: row.id, name: row.name, filter }] : [];
+    });
+  }
+
+  /**
+   * Saving under an existing name replaces that view
+   */
+  async save(name: string, filter: SpendingFilter): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync(
+        'INSERT INTO saved_views (name, filter) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET filter = excluded.filter',
+        [name, JSON.stringify(filter)]
+      );
+    });
+  }
+
+  async delete(id: number): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('DELETE FROM saved_views WHERE id = ?', [id]);
+    });
+  }
+}
@@ -0,0 +1,226 @@
+import { ConnectionManager } from '../Connection';
+import { DEFAULT_DEDUPE_OPTIONS } from '../DuplicateDetector';
+import { createRepositories, Repositories } from './index';
+
+let connection: ConnectionManager;
+let repositories: Repositories;
+
+const rowById = async (id: number) =>
+  (await connection.get()).getFirstAsync<{
+    id: number;
+    duplicate_of: number | null;
+    card_last_four: string | null;
+    bank_txn_id: string | null;
+    reconciled: number;
+  }>('SELECT * FROM spending WHERE id = ?', [id]);
+
+const countRows = async (table: string) =>
+  (await (await connection.get()).getFirstAsync<{ count: number }>(`SELECT COUNT(*) AS count FROM ${table}`))!.count;
+
+const add = async (amount: number, details: string, date: string, options = {}) =>
+  (await repositories.spending.add(amount, details, date, options, DEFAULT_DEDUPE_OPTIONS))!;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  connection = new ConnectionManager(':memory:');
+  repositories = createRepositories(connection);
+  await connection.get();
+});
+
+afterEach(async () => {
+  await connection.close();
+  jest.restoreAllMocks();
+});
+
+describe('SpendingRepository.add', () => {
+  it('links a second capture of the same charge to the first', async () => {
+    const authorized = await add(12.5, 'STARBUCKS STORE 1234', '2026-10-18T08:00:00.000Z', {
+      source: 'notification',
+      cardLastFour: '4821',
+    });
+    const posted = await add(12.5, 'STARBUCKS 1234', '2026-10-19T09:00:00.000Z', {
+      source: 'notification',
+      cardLastFour: '4821',
+    });
+
+    expect((await rowById(posted.lastInsertRowId))!.duplicate_of).toBe(authorized.lastInsertRowId);
+    expect(await countRows('spending')).toBe(2);
+  });
+
+  it("doesn't link captures from different cards", async () => {
+    await add(12.5, 'STARBUCKS', '2026-10-18T08:00:00.000Z', { source: 'notification', cardLastFour: '4821' });
+    const other = await add(12.5, 'STARBUCKS', '2026-10-18T09:00:00.000Z', {
+      source: 'notification',
+      cardLastFour: '7710',
+    });
+
+    expect((await rowById(other.lastInsertRowId))!.duplicate_of).toBeNull();
+  });
+
+  it('treats the same manual purchase on consecutive days as two purchases', async () => {
+    await add(4.5, 'Corner Coffee', '2026-10-18T08:00:00.000Z');
+    const nextDay = await add(4.5, 'Corner Coffee', '2026-10-19T08:00:00.000Z');
+
+    expect((await rowById(nextDay.lastInsertRowId))!.duplicate_of).toBeNull();
+  });
+
+  it('links a manual entry repeating one from the same day', async () => {
+    const first = await add(4.5, 'Corner Coffee', '2026-10-18T08:00:00.000Z');
+    const again = await add(4.5, 'corner coffee', '2026-10-18T15:00:00.000Z');
+
+    expect((await rowById(again.lastInsertRowId))!.duplicate_of).toBe(first.lastInsertRowId);
+  });
+
+  it('links a manual entry to a capture of the same charge', async () => {
+    const captured = await add(30, 'SHELL OIL 5744', '2026-10-18T08:00:00.000Z', { source: 'notification' });
+    const typed = await add(30, 'Shell', '2026-10-18T20:00:00.000Z');
+
+    expect((await rowById(typed.lastInsertRowId))!.duplicate_of).toBe(captured.lastInsertRowId);
+  });
+
+  it("doesn't check recurring occurrences for duplicates", async () => {
+    await add(9.99, 'Gym', '2026-10-18', { source: 'recurring', recurringId: 1, skipDedupe: true });
+    const next = await add(9.99, 'Gym', '2026-10-19', { source: 'recurring', recurringId: 1, skipDedupe: true });
+    const sameDay = await add(9.99, 'Gym', '2026-10-19', { source: 'recurring', recurringId: 1, skipDedupe: true });
+
+    expect((await rowById(next.lastInsertRowId))!.duplicate_of).toBeNull();
+    expect((await rowById(sameDay.lastInsertRowId))!.duplicate_of).toBeNull();
+  });
+});
+
+describe('SpendingRepository.import', () => {
+  const statementRow = (amount: number, details: string, date: string, bankTxnId: string) => ({
+    amount,
+    details,
+    date,
+    options: { source: 'import' as const, bankTxnId },
+  });
+
+  it('keeps look-alike statement rows that have their own bank ids', async () => {
+    const result = await repositories.spending.import(
+      [
+        statementRow(4.5, 'CORNER COFFEE', '2026-10-18', 'FIT-1'),
+        statementRow(4.5, 'CORNER COFFEE', '2026-10-19', 'FIT-2'),
+        statementRow(4.5, 'CORNER COFFEE', '2026-10-19', 'FIT-3'),
+      ],
+      true,
+      DEFAULT_DEDUPE_OPTIONS
+    );
+
+    expect(result).toEqual({ imported: 3, duplicates: 0, alreadyImported: 0, reconciled: 0 });
+  });
+
+  it('skips bank ids already stored and reconciles captured charges', async () => {
+    const captured = await add(12.5, 'STARBUCKS STORE 1234', '2026-10-18T08:00:00.000Z', { source: 'notification' });
+    await repositories.spending.import(
+      [statementRow(20, 'GROCER', '2026-10-17', 'FIT-1')],
+      true,
+      DEFAULT_DEDUPE_OPTIONS
+    );
+
+    const result = await repositories.spending.import(
+      [statementRow(20, 'GROCER', '2026-10-17', 'FIT-1'), statementRow(12.5, 'STARBUCKS', '2026-10-18', 'FIT-2')],
+      true,
+      DEFAULT_DEDUPE_OPTIONS
+    );
+
+    expect(result).toEqual({ imported: 0, duplicates: 0, alreadyImported: 1, reconciled: 1 });
+    expect(await rowById(captured.lastInsertRowId)).toMatchObject({ bank_txn_id: 'FIT-2', reconciled: 1 });
+  });
+
+  it('adds nothing for a bank id that was already imported', async () => {
+    const row = statementRow(20, 'GROCER', '2026-10-17', 'FIT-1');
+    await add(row.amount, row.details, row.date, row.options);
+
+    expect(
+      await repositories.spending.add(row.amount, row.details, row.date, row.options, DEFAULT_DEDUPE_OPTIONS)
+    ).toBeNull();
+    expect(await countRows('spending')).toBe(1);
+  });
+
+  it('rolls back every row when one fails', async () => {
+    await add(1, 'Existing', '2026-10-01');
+    const database = await connection.get();
+    const runAsync = database.runAsync.bind(database);
+    jest.spyOn(database, 'runAsync').mockImplementation((async (source: string, params: unknown[]) => {
+      if (Array.isArray(params) && params.includes('BROKEN ROW')) {
+        throw new Error('disk I/O error');
+      }
+      return runAsync(source, params as never);
+    }) as never);
+
+    await expect(
+      repositories.spending.import(
+        [
+          { amount: 2, details: 'First', date: '2026-10-02' },
+          { amount: 3, details: 'Second', date: '2026-10-03' },
+          { amount: 4, details: 'BROKEN ROW', date: '2026-10-04' },
+        ],
+        false,
+        DEFAULT_DEDUPE_OPTIONS
+      )
+    ).rejects.toThrow('disk I/O error');
+
+    expect(await countRows('spending')).toBe(1);
+  });
+});
+
+describe('SpendingRepository.mergeDuplicate', () => {
+  it('folds the duplicate into the original', async () => {
+    const original = await add(12.5, 'STARBUCKS STORE 1234', '2026-10-18T08:00:00.000Z', { source: 'notification' });
+    const duplicate = await add(12.5, 'STARBUCKS 1234', '2026-10-19T09:00:00.000Z', {
+      source: 'notification',
+      cardLastFour: '4821',
+    });
+    const logId = await repositories.notificationLog.add('com.discoverfinancial.mobile', null, 'text', '2026-10-19');
+    await repositories.notificationLog.update(logId, 'discover', duplicate.lastInsertRowId);
+
+    const kept = await repositories.spending.mergeDuplicate(duplicate.lastInsertRowId);
+
+    expect(kept).toBe(original.lastInsertRowId);
+    expect(await rowById(duplicate.lastInsertRowId)).toBeNull();
+    expect((await rowById(original.lastInsertRowId))!.card_last_four).toBe('4821');
+    expect((await repositories.notificationLog.getRecent())[0].spending_id).toBe(original.lastInsertRowId);
+  });
+
+  it('refuses a row that is not linked to anything', async () => {
+    const row = await add(5, 'Lunch', '2026-10-18');
+
+    await expect(repositories.spending.mergeDuplicate(row.lastInsertRowId)).rejects.toThrow(
+      'Transaction is not linked to a duplicate'
+    );
+    expect(await countRows('spending')).toBe(1);
+  });
+});
+
+describe('SpendingRepository.delete', () => {
+  it('removes split lines and clears links to the deleted row', async () => {
+    const original = await add(12.5, 'STARBUCKS', '2026-10-18T08:00:00.000Z', { source: 'notification' });
+    const duplicate = await add(12.5, 'STARBUCKS', '2026-10-18T09:00:00.000Z', { source: 'notification' });
+    await repositories.spending.saveSplits(
+      original.lastInsertRowId,
+      [
+        { amount: 10, category_id: null, note: 'coffee' },
+        { amount: 2.5, category_id: null, note: 'tip' },
+      ],
+      null
+    );
+    expect(await countRows('spending_splits')).toBe(2);
+
+    await repositories.spending.delete(original.lastInsertRowId);
+
+    expect(await rowById(original.lastInsertRowId)).toBeNull();
+    expect(await countRows('spending_splits')).toBe(0);
+    expect((await rowById(duplicate.lastInsertRowId))!.duplicate_of).toBeNull();
+  });
+
+  it('takes the row out of search', async () => {
+    const row = await add(7, 'Bookshop', '2026-10-18');
+    await repositories.spending.delete(row.lastInsertRowId);
+
+    const database = await connection.get();
+    expect(await database.getAllAsync("SELECT rowid FROM spending_fts WHERE spending_fts MATCH 'bookshop'")).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,576 @@
+import * as SQLite from 'expo-sqlite';
+import { categorize, CategoryRule } from '../Categorizer';
+import { Transaction } from '../Connection';
+import { DedupeCandidate, DedupeOptions, findDuplicate, findExactDuplicate } from '../DuplicateDetector';
+import { fromMinorUnits, toMinorUnits } from '../Money';
+import { Spending, SpendingListRow, SpendingSource, SpendingStatus, TransactionDirection } from '../Spending';
+import {
+  afterCursor,
+  CurrencyNet,
+  cursorAfter,
+  listOrder,
+  listWhere,
+  PAGE_SIZE,
+  SpendingCursor,
+  SpendingListQuery,
+  SpendingPage,
+} from '../SpendingQuery';
+import { parseSpendingRows, reportSpendingIssues } from '../SpendingSchema';
+import { SpendingLine, SpendingSplit, SplitLine } from '../Splits';
+import { Repository } from './Repository';
+
+export interface AddSpendingOptions {
+  status?: SpendingStatus;
+  source?: SpendingSource;
+  rawNotification?: string | null;
+  cardLastFour?: string | null;
+  direction?: TransactionDirection;
+  // Leave undefined to assign one from the category rules
+  categoryId?: number | null;
+  // ISO code; null means the home currency
+  currency?: string | null;
+  // Template that generated this occurrence
+  recurringId?: number | null;
+  // The bank's id for the transaction, from a statement file
+  bankTxnId?: string | null;
+  accountId?: number | null;
+  // Stored form, see serializeTags
+  tags?: string | null;
+  notes?: string | null;
+  // Merchant as the capture parser read it, before any edits to details
+  merchant?: string | null;
+  // Store the row without looking for duplicates, e.g. a recurring
+  // occurrence, which repeats its template by design
+  skipDedupe?: boolean;
+}
+
+export interface SpendingImportRow {
+  amount: number;
+  details: string;
+  date: string;
+  options?: AddSpendingOptions;
+}
+
+export interface ImportResult {
+  imported: number;
+  // Inserted but flagged as a likely duplicate, or skipped as one
+  duplicates: number;
+  // Bank transaction ids that were already in the database
+  alreadyImported: number;
+  // Statement rows matched to a row captured from a notification
+  reconciled: number;
+}
+
+// Fields of a row to change; undefined leaves a field alone, and null
+// clears the nullable ones
+export interface SpendingUpdate {
+  amount: number;
+  details: string;
+  date: string;
+  direction?: TransactionDirection;
+  categoryId?: number | null;
+  currency?: string;
+  accountId?: number | null;
+  tags?: string | null;
+  notes?: string | null;
+}
+
+// What insert did with a row
+type InsertOutcome = 'inserted' | 'skipped-duplicate' | 'already-imported' | 'reconciled';
+
+interface InsertResult {
+  result: SQLite.SQLiteRunResult | null;
+  duplicateOf: number | null;
+  outcome: InsertOutcome;
+}
+
+// Spending as category lines from a day onwards: split rows contribute
+// their lines instead of themselves, so breakdowns follow the parts.
+// Takes the day twice as parameters.
+const spendingLinesQuery = (statusCondition: string) => `
+    SELECT s.amount, s.amount_minor, s.direction, s.category_id, s.currency, s.date, s.account_id
+    FROM spending s
+    WHERE ${statusCondition} AND substr(s.date, 1, 10) >= ?
+      AND NOT EXISTS (SELECT 1 FROM spending_splits p WHERE p.spending_id = s.id)
+    UNION ALL
+    SELECT p.amount, p.amount_minor, s.direction, p.category_id, s.currency, s.date, s.account_id
+    FROM spending_splits p JOIN spending s ON s.id = p.spending_id
+    WHERE ${statusCondition} AND substr(s.date, 1, 10) >= ?`;
+
+const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+
+// Rows that pass the schema; the rest are logged and left out
+const validRows = (where: string, raw: unknown[]): Spending[] => {
+  const { rows, issues } = parseSpendingRows(raw);
+  reportSpendingIssues(where, issues);
+  return rows;
+};
+
+/**
+ * Transactions, their split lines and duplicate links
+ */
+export class SpendingRepository extends Repository {
+  async getAccepted(): Promise<Spending[]> {
+    const database = await this.database();
+    return validRows(
+      'accepted spending',
+      await database.getAllAsync("SELECT * FROM spending WHERE status = 'accepted' ORDER BY date DESC")
+    );
+  }
+
+  async getPending(): Promise<Spending[]> {
+    const database = await this.database();
+    return validRows(
+      'pending spending',
+      await database.getAllAsync("SELECT * FROM spending WHERE status = 'pending' ORDER BY date DESC")
+    );
+  }
+
+  async countPending(): Promise<number> {
+    const database = await this.database();
+    const result = await database.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM spending WHERE status = 'pending'"
+    );
+    return result?.count ?? 0;
+  }
+
+  /**
+   * One page of the main list. Each row carries the amount and date of the
+   * row it may duplicate, so the list can describe it without having that
+   * row loaded. Malformed rows are counted rather than returned; the cursor
+   * still moves past them.
+   */
+  async getPage(
+    query: SpendingListQuery,
+    cursor: SpendingCursor | null = null,
+    limit: number = PAGE_SIZE
+  ): Promise<SpendingPage<SpendingListRow>> {
+    const database = await this.database();
+    const where = listWhere(query);
+    const after = cursor ? afterCursor(query, cursor) : null;
+    const raw = await database.getAllAsync<SpendingListRow>(
+      `SELECT s.*, o.amount AS duplicate_amount, o.currency AS duplicate_currency,
+          o.direction AS duplicate_direction, o.date AS duplicate_date
+      FROM spending s
+      LEFT JOIN spending o ON o.id = s.duplicate_of
+      WHERE ${where.sql}${after ? ` AND ${after.sql}` : ''}
+      ORDER BY ${listOrder(query)}
+      LIMIT ?`,
+      [...where.params, ...(after?.params ?? []), limit]
+    );
+    const { rows, issues } = parseSpendingRows<SpendingListRow>(raw);
+    reportSpendingIssues('the spending list', issues);
+    return { rows, nextCursor: cursorAfter(raw, query, limit), malformed: issues.length };
+  }
+
+  /**
+   * Every row a list query matches, in order
+   */
+  async getList(query: SpendingListQuery): Promise<Spending[]> {
+    const database = await this.database();
+    const where = listWhere(query);
+    return validRows(
+      'the spending list',
+      await database.getAllAsync(
+        `SELECT s.* FROM spending s WHERE ${where.sql} ORDER BY ${listOrder(query)}`,
+        where.params
+      )
+    );
+  }
+
+  /**
+   * Net spending per currency for a list query, summed in SQLite so the
+   * total doesn't need every row loaded
+   */
+  async getNets(query: SpendingListQuery): Promise<CurrencyNet[]> {
+    const database = await this.database();
+    const where = listWhere(query);
+    return database.getAllAsync<CurrencyNet>(
+      `SELECT s.currency,
+          SUM(CASE WHEN s.direction IN ('credit', 'refund') THEN -s.amount_minor ELSE s.amount_minor END) AS net_minor,
+          COUNT(*) AS count
+      FROM spending s
+      WHERE ${where.sql}
+      GROUP BY s.currency`,
+      where.params
+    );
+  }
+
+  /**
+   * Accepted spending as category lines from a day onwards, for breakdowns
+   */
+  async getLines(fromDay: string = ''): Promise<SpendingLine[]> {
+    const database = await this.database();
+    return database.getAllAsync<SpendingLine>(spendingLinesQuery("s.status = 'accepted'"), [fromDay, fromDay]);
+  }
+
+  /**
+   * Lines that count against budgets from a day onwards. Pending captures
+   * count too: the money has left the account even if the row hasn't been
+   * reviewed yet.
+   */
+  async getBudgetLines(fromDay: string): Promise<SpendingLine[]> {
+    const database = await this.database();
+    return database.getAllAsync<SpendingLine>(spendingLinesQuery("s.status != 'rejected'"), [fromDay, fromDay]);
+  }
+
+  /**
+   * Insert one row. Suspected duplicates are still stored, but linked to the
+   * row they appear to repeat so the user can merge or keep both. A missing
+   * category is filled in from the rules. Pass `within` to insert as part
+   * of a transaction that is already open. Resolves to null when nothing was
+   * inserted because the bank transaction id was already imported or matched
+   * a captured row.
+   */
+  async add(
+    amount: number,
+    details: string,
+    date: string,
+    options: AddSpendingOptions,
+    dedupe: DedupeOptions,
+    within?: Transaction
+  ): Promise<SQLite.SQLiteRunResult | null> {
+    return this.connection.withTransaction(async (database) => {
+      const rules = options.categoryId === undefined ? await this.getRules(database) : [];
+      const { result } = await this.insert(database, amount, details, date, options, dedupe, rules);
+      return result;
+    }, within);
+  }
+
+  /**
+   * Insert many rows in one transaction, so an import lands completely or
+   * not at all. Duplicate detection is the same as add's, and also catches
+   * repeats within the import itself. Rows carrying a bank transaction id
+   * are skipped if already stored and reconciled against matching
+   * notification captures.
+   */
+  async import(rows: SpendingImportRow[], skipDuplicates: boolean, dedupe: DedupeOptions): Promise<ImportResult> {
+    const counts: ImportResult = {
+      imported: 0,
+      duplicates: 0,
+      alreadyImported: 0,
+      reconciled: 0,
+    };
+    await this.connection.withTransaction(async (database) => {
+      const rules = await this.getRules(database);
+      for (const row of rows) {
+        const { duplicateOf, outcome } = await this.insert(
+          database,
+          row.amount,
+          row.details,
+          row.date,
+          row.options ?? {},
+          dedupe,
+          rules,
+          skipDuplicates
+        );
+        if (outcome === 'already-imported') {
+          counts.alreadyImported++;
+        } else if (outcome === 'reconciled') {
+          counts.reconciled++;
+        } else if (duplicateOf !== null) {
+          counts.duplicates++;
+        }
+        if (outcome === 'inserted') {
+          counts.imported++;
+        }
+      }
+    });
+    return counts;
+  }
+
+  async update(id: number, update: SpendingUpdate): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      // Minor units depend on the currency the row ends up in
+      const rowCurrency =
+        update.currency ??
+        (await database.getFirstAsync<{ currency: string | null }>('SELECT currency FROM spending WHERE id = ?', [id]))
+          ?.currency;
+      const amountMinor = toMinorUnits(update.amount, rowCurrency);
+      const result = await database.runAsync(
+        'UPDATE spending SET amount = ?, amount_minor = ?, details = ?, date = ?, direction = COALESCE(?, direction), currency = COALESCE(?, currency) WHERE id = ?',
+        [
+          fromMinorUnits(amountMinor, rowCurrency),
+          amountMinor,
+          update.details,
+          update.date,
+          update.direction ?? null,
+          update.currency ?? null,
+          id,
+        ]
+      );
+      const optional = [
+        ['category_id', update.categoryId],
+        ['account_id', update.accountId],
+        ['tags', update.tags],
+        ['notes', update.notes],
+      ] as const;
+      for (const [column, value] of optional) {
+        if (value !== undefined) {
+          await database.runAsync(`UPDATE spending SET ${column} = ? WHERE id = ?`, [value, id]);
+        }
+      }
+      return result;
+    });
+  }
+
+  async setStatus(ids: number[], status: SpendingStatus): Promise<SQLite.SQLiteRunResult> {
+    if (ids.length === 0) {
+      return { changes: 0, lastInsertRowId: 0 };
+    }
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync(`UPDATE spending SET status = ? WHERE id IN (${placeholders(ids)})`, [status, ...ids]);
+    });
+  }
+
+  async markReconciled(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.connection.withTransaction(async (database) => {
+      await database.runAsync(`UPDATE spending SET reconciled = 1 WHERE id IN (${placeholders(ids)})`, ids);
+    });
+  }
+
+  /**
+   * Any row (whatever its status) with the same amount and direction inside
+   * the window
+   */
+  async findNear(
+    amount: number,
+    date: string,
+    windowMinutes: number,
+    direction: TransactionDirection = 'debit'
+  ): Promise<{ id: number } | null> {
+    const database = await this.database();
+    const center = new Date(date).getTime();
+    const windowMs = windowMinutes * 60 * 1000;
+    const result = await database.getFirstAsync<{ id: number }>(
+      'SELECT id FROM spending WHERE amount = ? AND direction = ? AND date >= ? AND date <= ? ORDER BY date DESC',
+      [amount, direction, new Date(center - windowMs).toISOString(), new Date(center + windowMs).toISOString()]
+    );
+    return result ?? null;
+  }
+
+  /**
+   * Fold a suspected duplicate into the row it was linked to; returns the
+   * id of the row that was kept
+   */
+  async mergeDuplicate(id: number): Promise<number> {
+    return this.connection.withTransaction(async (database) => {
+      const duplicate = await database.getFirstAsync<{
+        duplicate_of: number | null;
+        card_last_four: string | null;
+      }>('SELECT duplicate_of, card_last_four FROM spending WHERE id = ?', [id]);
+      if (!duplicate || duplicate.duplicate_of === null) {
+        throw new Error('Transaction is not linked to a duplicate');
+      }
+      const originalId = duplicate.duplicate_of;
+
+      // Keep card digits the original may have been missing
+      await database.runAsync('UPDATE spending SET card_last_four = COALESCE(card_last_four, ?) WHERE id = ?', [
+        duplicate.card_last_four,
+        originalId,
+      ]);
+      await database.runAsync('UPDATE notification_log SET spending_id = ? WHERE spending_id = ?', [originalId, id]);
+      await database.runAsync('UPDATE spending SET duplicate_of = ? WHERE duplicate_of = ?', [originalId, id]);
+      await database.runAsync('DELETE FROM spending_splits WHERE spending_id = ?', [id]);
+      await database.runAsync('DELETE FROM spending WHERE id = ?', [id]);
+      return originalId;
+    });
+  }
+
+  /**
+   * Mark a suspected duplicate as a genuine separate transaction
+   */
+  async keepBothDuplicates(id: number): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      return database.runAsync('UPDATE spending SET duplicate_of = NULL WHERE id = ?', [id]);
+    });
+  }
+
+  async delete(id: number): Promise<SQLite.SQLiteRunResult> {
+    return this.connection.withTransaction(async (database) => {
+      await database.runAsync('DELETE FROM spending_splits WHERE spending_id = ?', [id]);
+      const result = await database.runAsync('DELETE FROM spending WHERE id = ?', [id]);
+      // Rows linked to the deleted one are no longer suspected duplicates
+      await database.runAsync('UPDATE spending SET duplicate_of = NULL WHERE duplicate_of = ?', [id]);
+      return result;
+    });
+  }
+
+  /**
+   * Remove every transaction, with its splits and the periods locked over
+   * them
+   */
+  async deleteAll(): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.execAsync('DELETE FROM spending_splits; DELETE FROM spending; DELETE FROM locked_periods;');
+    });
+  }
+
+  async getSplits(spendingId: number): Promise<SpendingSplit[]> {
+    const database = await this.database();
+    return database.getAllAsync<SpendingSplit>(
+      'SELECT * FROM spending_splits WHERE spending_id = ? ORDER BY position',
+      [spendingId]
+    );
+  }
+
+  /**
+   * Replace a row's split lines; an empty list un-splits it. Lines must
+   * already add up to the row's amount (see validateSplits).
+   */
+  async saveSplits(spendingId: number, lines: SplitLine[], currency: string | null): Promise<void> {
+    await this.connection.withTransaction(async (database) => {
+      await database.runAsync('DELETE FROM spending_splits WHERE spending_id = ?', [spendingId]);
+      for (let i = 0; i < lines.length; i++) {
+        const amountMinor = toMinorUnits(lines[i].amount, currency);
+        await database.runAsync(
+          'INSERT INTO spending_splits (spending_id, amount, amount_minor, category_id, note, position) VALUES (?, ?, ?, ?, ?, ?)',
+          [spendingId, fromMinorUnits(amountMinor, currency), amountMinor, lines[i].category_id, lines[i].note, i]
+        );
+      }
+    });
+  }
+
+  private getRules(database: SQLite.SQLiteDatabase): Promise<CategoryRule[]> {
+    return database.getAllAsync<CategoryRule>('SELECT * FROM category_rules');
+  }
+
+  // Rows close enough in amount and date to be worth scoring as duplicates.
+  // Dates may be plain days or full ISO timestamps, so the SQL filter works
+  // on the day prefix and the detector applies the exact window.
+  private async getDedupeCandidates(
+    database: SQLite.SQLiteDatabase,
+    candidate: DedupeCandidate,
+    options: DedupeOptions
+  ) {
+    const center = new Date(candidate.date).getTime();
+    if (isNaN(center)) {
+      return [];
+    }
+    const windowMs = options.timeWindowHours * 60 * 60 * 1000;
+    const fromDay = new Date(center - windowMs).toISOString().split('T')[0];
+    const toDay = new Date(center + windowMs).toISOString().split('T')[0];
+
+    return database.getAllAsync<DedupeCandidate & { id: number; source: string | null; bank_txn_id: string | null }>(
+      `SELECT id, amount, details, date, direction, card_last_four, source, bank_txn_id FROM spending
+       WHERE status != 'rejected'
+         AND direction = ?
+         AND amount BETWEEN ? AND ?
+         AND substr(date, 1, 10) BETWEEN ? AND ?`,
+      [
+        candidate.direction ?? 'debit',
+        candidate.amount - options.amountTolerance - 0.001,
+        candidate.amount + options.amountTolerance + 0.001,
+        fromDay,
+        toDay,
+      ]
+    );
+  }
+
+  // With skipDuplicate a suspected duplicate isn't inserted at all
+  private async insert(
+    database: SQLite.SQLiteDatabase,
+    amount: number,
+    details: string,
+    date: string,
+    options: AddSpendingOptions,
+    dedupe: DedupeOptions,
+    rules: CategoryRule[],
+    skipDuplicate: boolean = false
+  ): Promise<InsertResult> {
+    const {
+      status = 'accepted',
+      source = 'manual',
+      rawNotification = null,
+      cardLastFour = null,
+      direction = 'debit',
+      currency = null,
+      recurringId = null,
+      bankTxnId = null,
+      accountId = null,
+      tags = null,
+      notes = null,
+      merchant = null,
+      skipDedupe = false,
+    } = options;
+    let { categoryId } = options;
+
+    if (bankTxnId) {
+      const existing = await database.getFirstAsync<{ id: number }>('SELECT id FROM spending WHERE bank_txn_id = ?', [
+        bankTxnId,
+      ]);
+      if (existing) {
+        return { result: null, duplicateOf: existing.id, outcome: 'already-imported' };
+      }
+    }
+
+    const candidate = { amount, details, date, direction, card_last_four: cardLastFour };
+    // A row with a different bank transaction id is a different transaction,
+    // however alike the two look (two coffees on consecutive days)
+    const candidates = skipDedupe
+      ? []
+      : (await this.getDedupeCandidates(database, candidate, dedupe)).filter((row) => !bankTxnId || !row.bank_txn_id);
+
+    // A statement row that matches a notification capture confirms it
+    // rather than adding a second copy
+    if (bankTxnId) {
+      const captured = findDuplicate(
+        candidate,
+        candidates.filter((row) => row.source === 'notification'),
+        dedupe
+      );
+      if (captured) {
+        await database.runAsync('UPDATE spending SET bank_txn_id = ?, reconciled = 1 WHERE id = ?', [
+          bankTxnId,
+          captured.row.id,
+        ]);
+        return { result: null, duplicateOf: captured.row.id, outcome: 'reconciled' };
+      }
+    }
+
+    // Fuzzy matching is for captures, where one charge can arrive twice
+    // (authorized then posted, or re-posted through the browser). Anything
+    // else only matches a row with the same amount, details and day.
+    const fuzzy = source === 'notification' ? candidates : candidates.filter((row) => row.source === 'notification');
+    const duplicate = findDuplicate(candidate, fuzzy, dedupe) ?? findExactDuplicate(candidate, candidates);
+    if (duplicate) {
+      console.log('Possible duplicate of spending', duplicate.row.id, 'score', duplicate.score);
+      if (skipDuplicate) {
+        return { result: null, duplicateOf: duplicate.row.id, outcome: 'skipped-duplicate' };
+      }
+    }
+
+    if (categoryId === undefined) {
+      categoryId = categorize(details, rules);
+    }
+
+    const amountMinor = toMinorUnits(amount, currency);
+    const result = await database.runAsync(
+      'INSERT INTO spending (amount, amount_minor, details, date, direction, status, source, raw_notification, card_last_four, duplicate_of, category_id, currency, recurring_id, bank_txn_id, account_id, tags, notes, merchant) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        fromMinorUnits(amountMinor, currency),
+        amountMinor,
+        details,
+        date,
+        direction,
+        status,
+        source,
+        rawNotification,
+        cardLastFour,
+        duplicate ? duplicate.row.id : null,
+        categoryId,
+        currency,
+        recurringId,
+        bankTxnId,
+        accountId,
+        tags,
+        notes,
+        merchant,
+      ]
+    );
+    return { result, duplicateOf: duplicate ? duplicate.row.id : null, outcome: 'inserted' };
+  }
+}
@@ -0,0 +1,41 @@
+import { connection, ConnectionManager } from '../Connection';
+import { AccountRepository } from './AccountRepository';
+import { BudgetRepository } from './BudgetRepository';
+import { CategoryRepository } from './CategoryRepository';
+import { ExchangeRateRepository } from './ExchangeRateRepository';
+import { LockedPeriodRepository } from './LockedPeriodRepository';
+import { NotificationLogRepository } from './NotificationLogRepository';
+import { RecurringRepository } from './RecurringRepository';
+import { SavedViewRepository } from './SavedViewRepository';
+import { SpendingRepository } from './SpendingRepository';
+
+export * from './AccountRepository';
+export * from './BudgetRepository';
+export * from './CategoryRepository';
+export * from './ExchangeRateRepository';
+export * from './LockedPeriodRepository';
+export * from './NotificationLogRepository';
+export * from './RecurringRepository';
+export * from './Repository';
+export * from './SavedViewRepository';
+export * from './SpendingRepository';
+
+/**
+ * One of each repository, all on the same connection
+ */
+export const createRepositories = (on: ConnectionManager = connection) => ({
+  spending: new SpendingRepository(on),
+  categories: new CategoryRepository(on),
+  accounts: new AccountRepository(on),
+  budgets: new BudgetRepository(on),
+  notificationLog: new NotificationLogRepository(on),
+  exchangeRates: new ExchangeRateRepository(on),
+  recurring: new RecurringRepository(on),
+  savedViews: new SavedViewRepository(on),
+  lockedPeriods: new LockedPeriodRepository(on),
+});
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+// The app's repositories, on the shared connection
+export const repositories = createRepositories();